@@ -7,22 +7,39 @@
  * 1. SpacetimeDB Connection Management:
  *    - Establishes and maintains WebSocket connection
  *    - Handles authentication and identity
- *    - Subscribes to database tables
+ *    - Subscribes to database tables (player, combat_event, projectile, ability_cooldown, status_effect, kill_feed, match_state, match_award, team_score, hill_state, flag, zone_state, npc, map_definition, map_tile)
  *    - Processes real-time updates
  * 
  * 2. Player Input Handling:
  *    - Keyboard and mouse event listeners
+ *    - Number keys 1-4 select an ability slot (InputState.abilitySlot, game/abilities.ts)
+ *    - Holding Tab shows the scoreboard (local UI only, never sent to the server)
+ *    - E takes or returns a capture the flag flag in reach (pick_up_flag reducer)
  *    - Input state tracking and normalization
  *    - Animation state determination
  *    - Camera/rotation management with pointer lock
  * 
- * 3. Game Loop:
- *    - Sends player input to server at appropriate intervals
+ * 3. Input Loop:
+ *    - Samples input at a fixed rate (network/inputSampler.ts), independent of frame rate
+ *    - Sends one tick-numbered command per non-idle sample
+ *    - Records each command in the PredictionBuffer for replay on reconciliation
  *    - Updates local state based on server responses
- *    - Manages the requestAnimationFrame cycle
  * 
  * 4. UI Management:
- *    - Renders GameScene (3D view)
+ *    - Shows ServerBrowser until a server endpoint is chosen
+ *    - Renders GameScene (3D view), PlayerUI, the AbilityBar and the HitMarker crosshair
+ *    - Renders the KillFeed and, while Tab is held, the Scoreboard
+ *    - Renders the match phase banner and countdown (MatchHud) and, after a
+ *      round, the MatchResults screen
+ *    - In king of the hill, renders the HillHud and tints the arena with the
+ *      controlling team's color
+ *    - In capture the flag, renders the FlagHud and passes the flags to GameScene
+ *    - In battle royale, renders the ZoneHud and passes the zone to GameScene
+ *    - Passes the creep wave minions (npc) and their snapshots to GameScene
+ *    - Passes the server-generated map (map_definition, map_tile) to GameScene and
+ *      its walkable tiles to the prediction buffer
+ *    - Opens the MapEditor from the map panel (game input is ignored while it is
+ *      open) and uploads its maps with the upload_map reducer
  *    - Controls DebugPanel visibility
  *    - Manages JoinGameDialog for player registration
  *    - Displays connection status
@@ -31,16 +48,19 @@
  *    - Add new input types in currentInputRef and InputState
  *    - Extend determineAnimation for new animation states
  *    - Add new reducers calls for game features (see handleCastSpellInput)
- *    - Modify game loop timing or prediction logic
+ *    - Modify input sampling rate (VITE_INPUT_RATE_HZ) or prediction logic
  * 
  * Related files:
  *    - components/GameScene.tsx: 3D rendering with Three.js
  *    - components/Player.tsx: Character model and animation
  *    - components/DebugPanel.tsx: Developer tools and state inspection
+ *    - components/ServerBrowser.tsx: Server selection before connecting
+ *    - components/MapEditor.tsx: Hex map editor
+ *    - network/serverConfig.ts: Endpoint resolution (env vars, URL query, saved list)
  *    - generated/: Auto-generated TypeScript bindings from the server
  */
 
-import { useEffect, useState, useCallback, useRef } from 'react';
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import './App.css';
 import { Identity } from '@clockworklabs/spacetimedb-sdk';
 import * as moduleBindings from './generated';
@@ -49,13 +69,57 @@ import { GameScene } from './components/GameScene';
 import { JoinGameDialog } from './components/JoinGameDialog';
 import * as THREE from 'three';
 import { PlayerUI } from './components/PlayerUI';
+import { AbilityBar } from './components/AbilityBar';
+import { HitMarker } from './components/HitMarker';
+import { KillFeed } from './components/KillFeed';
+import { Scoreboard } from './components/Scoreboard';
+import { MatchHud } from './components/MatchHud';
+import { MatchResults } from './components/MatchResults';
+import { HillHud } from './components/HillHud';
+import { FlagHud } from './components/FlagHud';
+import { ZoneHud } from './components/ZoneHud';
+import { ServerBrowser } from './components/ServerBrowser';
+import { MapEditor } from './components/MapEditor';
+import { ServerEndpoint, endpointUri, getQueryEndpoint, loadToken, saveToken, clearToken } from './network/serverConfig';
+import { InputSampler, INPUT_RATE_HZ } from './network/inputSampler';
+import { PredictionBuffer } from './network/prediction';
+import { SnapshotStore } from './network/interpolation';
+import { ConnectionPhase, ReconnectStatus, MAX_RECONNECT_ATTEMPTS, getReconnectDelay, isAuthError } from './network/reconnect';
+import { MAX_COMBAT_EVENTS } from './game/combatEvents';
+import { getEffectsOn } from './game/statusEffects';
+import { MAX_KILL_FEED_ENTRIES } from './game/scoreboard';
+import { getTeamInfo } from './game/teams';
+import { MATCH_PHASES } from './game/match';
+import { isHillMode, getArenaTint } from './game/hill';
+import { FLAG_PICKUP_KEY, isFlagMode, findReachableFlag } from './game/flags';
+import { isZoneMode } from './game/zone';
+import { createMapBounds } from './game/map';
+import { MapFile, toTileInputs } from './game/mapFormat';
+import { PRIMARY_SLOT, ABILITY_SLOT_KEYS, getAbilityInSlot, canAfford } from './game/abilities';
+import { getComboAnimation } from './game/combo';
+import { ProjectileImpactData } from './components/Projectile';
 
 // Type Aliases
 type DbConnection = moduleBindings.DbConnection;
 type EventContext = moduleBindings.EventContext;
+type ReducerEventContext = moduleBindings.ReducerEventContext;
 type ErrorContext = moduleBindings.ErrorContext;
 type PlayerData = moduleBindings.PlayerData;
 type InputState = moduleBindings.InputState;
+type CombatEvent = moduleBindings.CombatEvent;
+type ProjectileData = moduleBindings.Projectile;
+type AbilityCooldown = moduleBindings.AbilityCooldown;
+type StatusEffect = moduleBindings.StatusEffect;
+type KillFeedEntry = moduleBindings.KillFeedEntry;
+type MatchState = moduleBindings.MatchState;
+type MatchAward = moduleBindings.MatchAward;
+type TeamScore = moduleBindings.TeamScore;
+type HillState = moduleBindings.HillState;
+type Flag = moduleBindings.Flag;
+type ZoneState = moduleBindings.ZoneState;
+type NpcData = moduleBindings.Npc;
+type MapDefinition = moduleBindings.MapDefinition;
+type MapTile = moduleBindings.MapTile;
 // ... other types ...
 
 let conn: DbConnection | null = null;
@@ -66,21 +130,82 @@ function App() {
   const [statusMessage, setStatusMessage] = useState("Connecting...");
   const [players, setPlayers] = useState<ReadonlyMap<string, PlayerData>>(new Map());
   const [localPlayer, setLocalPlayer] = useState<PlayerData | null>(null);
+  const [combatEvents, setCombatEvents] = useState<CombatEvent[]>([]); // Recent hits, newest last
+  const [projectiles, setProjectiles] = useState<ReadonlyMap<string, ProjectileData>>(new Map());
+  const [projectileImpacts, setProjectileImpacts] = useState<ProjectileImpactData[]>([]);
+  const [abilityCooldowns, setAbilityCooldowns] = useState<ReadonlyMap<string, AbilityCooldown>>(new Map()); // Local player's, by abilityId
+  const [statusEffects, setStatusEffects] = useState<ReadonlyMap<string, StatusEffect>>(new Map()); // All players' effects, by id
+  const [killFeed, setKillFeed] = useState<KillFeedEntry[]>([]); // Recent kills, newest last
+  const [showScoreboard, setShowScoreboard] = useState(false); // Tab held
+  const [matchState, setMatchState] = useState<MatchState | null>(null); // Singleton row
+  const [matchAwards, setMatchAwards] = useState<MatchAward[]>([]); // Awards of the last finished round
+  const [teamScores, setTeamScores] = useState<ReadonlyMap<string, TeamScore>>(new Map()); // Objective mode points, by team
+  const [hillState, setHillState] = useState<HillState | null>(null); // King of the hill singleton row
+  const [flags, setFlags] = useState<ReadonlyMap<string, Flag>>(new Map()); // Capture the flag flags, by team
+  const [zoneState, setZoneState] = useState<ZoneState | null>(null); // Battle royale singleton row
+  const [npcs, setNpcs] = useState<ReadonlyMap<string, NpcData>>(new Map()); // Creep wave minions, by id
+  const [mapDefinition, setMapDefinition] = useState<MapDefinition | null>(null); // Map singleton row
+  const [mapTiles, setMapTiles] = useState<ReadonlyMap<string, MapTile>>(new Map()); // Map tiles, by id
+  const [isMapEditorOpen, setIsMapEditorOpen] = useState(false);
+  const [mapUploadStatus, setMapUploadStatus] = useState<string | null>(null); // Result of the last upload_map call
+  const [manaWarningAt, setManaWarningAt] = useState<number | null>(null); // performance.now() of the last unaffordable cast
   const [showJoinDialog, setShowJoinDialog] = useState(false);
   const [isDebugPanelExpanded, setIsDebugPanelExpanded] = useState(false);
+  // A ?host= query parameter skips the server browser and connects straight away
+  const [endpoint, setEndpoint] = useState<ServerEndpoint | null>(() => getQueryEndpoint());
+  const [connectionPhase, setConnectionPhase] = useState<ConnectionPhase>('idle');
+  const [reconnectStatus, setReconnectStatus] = useState<ReconnectStatus | null>(null);
 
   // --- Ref for current input state ---
   const currentInputRef = useRef<InputState>({
     forward: false, backward: false, left: false, right: false,
-    sprint: false, jump: false, attack: false, castSpell: false,
-    sequence: 0,
+    sprint: false, jump: false, attack: false, block: false, abilitySlot: 0,
+    sequence: 0, deltaTime: 0,
   });
-  const lastSentInputState = useRef<Partial<InputState>>({});
-  const animationFrameIdRef = useRef<number | null>(null); // For game loop
+  const inputSamplerRef = useRef<InputSampler | null>(null); // Fixed-rate input loop
+  const predictionBufferRef = useRef<PredictionBuffer>(new PredictionBuffer()); // Unacknowledged commands for replay
+  const snapshotStoreRef = useRef<SnapshotStore>(new SnapshotStore()); // Remote player interpolation history
+  const projectileSnapshotsRef = useRef<SnapshotStore>(new SnapshotStore()); // Projectile interpolation history
+  const npcSnapshotsRef = useRef<SnapshotStore>(new SnapshotStore()); // Creep minion interpolation history
 
   // New import for handling player rotation data
   const playerRotationRef = useRef<THREE.Euler>(new THREE.Euler(0, 0, 0, 'YXZ'));
 
+  // --- Reconnect State ---
+  // Table callbacks outlive renders, so they read identity from a ref instead of state
+  const identityRef = useRef<Identity | null>(null);
+  // Input handlers are registered once, so they read the local row through a ref as well
+  const localPlayerRef = useRef<PlayerData | null>(null);
+  const reachableFlagRef = useRef<Flag | undefined>(undefined); // Flag the E key acts on
+  const reconnectAttemptRef = useRef(0);
+  const mapEditorOpenRef = useRef(false); // Read by the input listeners, which are registered once
+  const reconnectTimerRef = useRef<number | null>(null);
+  // Last successful registration, replayed after a reconnect to hit the server's rejoin path
+  const lastRegistrationRef = useRef<{ username: string; characterClass: string; team: string } | null>(null);
+
+  useEffect(() => {
+    localPlayerRef.current = localPlayer;
+  }, [localPlayer]);
+
+  // Prediction keeps to the same walkable tiles as the server; unconstrained until the map arrives
+  const mapBounds = useMemo(
+    () => (mapTiles.size > 0 ? createMapBounds(mapTiles, mapDefinition) : null),
+    [mapTiles, mapDefinition]
+  );
+
+  useEffect(() => {
+    predictionBufferRef.current.bounds = mapBounds;
+  }, [mapBounds]);
+
+  const isLocalIdentity = useCallback((playerIdentity: Identity) =>
+    !!identityRef.current && playerIdentity.toHexString() === identityRef.current.toHexString(), []);
+
+  // Remote players render from interpolated snapshots; the local player is predicted instead
+  const recordSnapshot = useCallback((player: PlayerData) => {
+    if (isLocalIdentity(player.identity)) return;
+    snapshotStoreRef.current.record(player.identity.toHexString(), player.position, player.rotation.y);
+  }, [isLocalIdentity]);
+
   // --- Moved Table Callbacks/Subscription Functions Up ---
   const registerTableCallbacks = useCallback(() => {
     if (!conn) return;
@@ -88,55 +213,298 @@ function App() {
 
     conn.db.player.onInsert((_ctx: EventContext, player: PlayerData) => {
         console.log("Player inserted (callback):", player.identity.toHexString());
+        recordSnapshot(player);
         setPlayers((prev: ReadonlyMap<string, PlayerData>) => new Map(prev).set(player.identity.toHexString(), player));
-        if (identity && player.identity.toHexString() === identity.toHexString()) {
+        if (isLocalIdentity(player.identity)) {
             setLocalPlayer(player);
-            setStatusMessage(`Registered as ${player.username}`);
+            setStatusMessage(`Registered as ${player.username} (${getTeamInfo(player.team).name} team)`);
+            // Rejoin the team the server assigned, not the original (possibly automatic) choice
+            if (lastRegistrationRef.current) {
+                lastRegistrationRef.current = { ...lastRegistrationRef.current, team: player.team };
+            }
         }
     });
 
-    conn.db.player.onUpdate((_ctx: EventContext, _oldPlayer: PlayerData, newPlayer: PlayerData) => {
+    conn.db.player.onUpdate((_ctx: EventContext, oldPlayer: PlayerData, newPlayer: PlayerData) => {
+        if (oldPlayer.isDead && !newPlayer.isDead) {
+            // Respawned: start a fresh history instead of interpolating across the map
+            snapshotStoreRef.current.remove(newPlayer.identity.toHexString());
+        }
+        recordSnapshot(newPlayer);
         setPlayers((prev: ReadonlyMap<string, PlayerData>) => {
             const newMap = new Map(prev);
             newMap.set(newPlayer.identity.toHexString(), newPlayer);
             return newMap;
         });
-        if (identity && newPlayer.identity.toHexString() === identity.toHexString()) {
+        if (isLocalIdentity(newPlayer.identity)) {
             setLocalPlayer(newPlayer);
         }
     });
 
     conn.db.player.onDelete((_ctx: EventContext, player: PlayerData) => {
         console.log("Player deleted (callback):", player.identity.toHexString());
+        snapshotStoreRef.current.remove(player.identity.toHexString());
         setPlayers((prev: ReadonlyMap<string, PlayerData>) => {
             const newMap = new Map(prev);
             newMap.delete(player.identity.toHexString());
             return newMap;
         });
-        if (identity && player.identity.toHexString() === identity.toHexString()) {
+        if (isLocalIdentity(player.identity)) {
             setLocalPlayer(null);
             setStatusMessage("Local player deleted!");
         }
     });
+
+    // Hits are decided by the server; the rows only drive client-side feedback
+    conn.db.combatEvent.onInsert((_ctx: EventContext, event: CombatEvent) => {
+        setCombatEvents((prev: CombatEvent[]) => [...prev, event].slice(-MAX_COMBAT_EVENTS));
+    });
+
+    conn.db.combatEvent.onDelete((_ctx: EventContext, event: CombatEvent) => {
+        setCombatEvents((prev: CombatEvent[]) => prev.filter(existing => existing.id !== event.id));
+    });
+
+    // Projectiles are simulated by the server; the client interpolates between ticks
+    conn.db.projectile.onInsert((_ctx: EventContext, projectile: ProjectileData) => {
+        const key = projectile.id.toString();
+        projectileSnapshotsRef.current.record(key, projectile.position, 0);
+        setProjectiles((prev: ReadonlyMap<string, ProjectileData>) => new Map(prev).set(key, projectile));
+    });
+
+    conn.db.projectile.onUpdate((_ctx: EventContext, _oldProjectile: ProjectileData, newProjectile: ProjectileData) => {
+        const key = newProjectile.id.toString();
+        projectileSnapshotsRef.current.record(key, newProjectile.position, 0);
+        setProjectiles((prev: ReadonlyMap<string, ProjectileData>) => new Map(prev).set(key, newProjectile));
+    });
+
+    conn.db.projectile.onDelete((_ctx: EventContext, projectile: ProjectileData) => {
+        const key = projectile.id.toString();
+        projectileSnapshotsRef.current.remove(key);
+        setProjectiles((prev: ReadonlyMap<string, ProjectileData>) => {
+            const newMap = new Map(prev);
+            newMap.delete(key);
+            return newMap;
+        });
+        setProjectileImpacts((prev: ProjectileImpactData[]) => [
+            ...prev,
+            { key, spellType: projectile.spellType, position: projectile.position },
+        ]);
+    });
+
+    // Cooldowns are validated by the server; only the local player's drive the ability bar
+    conn.db.abilityCooldown.onInsert((_ctx: EventContext, cooldown: AbilityCooldown) => {
+        if (!isLocalIdentity(cooldown.owner)) return;
+        setAbilityCooldowns((prev: ReadonlyMap<string, AbilityCooldown>) => new Map(prev).set(cooldown.abilityId, cooldown));
+    });
+
+    conn.db.abilityCooldown.onDelete((_ctx: EventContext, cooldown: AbilityCooldown) => {
+        if (!isLocalIdentity(cooldown.owner)) return;
+        setAbilityCooldowns((prev: ReadonlyMap<string, AbilityCooldown>) => {
+            const newMap = new Map(prev);
+            newMap.delete(cooldown.abilityId);
+            return newMap;
+        });
+    });
+
+    // Status effects are applied and expired by the server; every player's are shown
+    conn.db.statusEffect.onInsert((_ctx: EventContext, effect: StatusEffect) => {
+        setStatusEffects((prev: ReadonlyMap<string, StatusEffect>) => new Map(prev).set(effect.id.toString(), effect));
+    });
+
+    conn.db.statusEffect.onUpdate((_ctx: EventContext, _oldEffect: StatusEffect, newEffect: StatusEffect) => {
+        setStatusEffects((prev: ReadonlyMap<string, StatusEffect>) => new Map(prev).set(newEffect.id.toString(), newEffect));
+    });
+
+    conn.db.statusEffect.onDelete((_ctx: EventContext, effect: StatusEffect) => {
+        setStatusEffects((prev: ReadonlyMap<string, StatusEffect>) => {
+            const newMap = new Map(prev);
+            newMap.delete(effect.id.toString());
+            return newMap;
+        });
+    });
+
+    // Kills are credited by the server; the rows only drive the kill feed
+    conn.db.killFeed.onInsert((_ctx: EventContext, entry: KillFeedEntry) => {
+        setKillFeed((prev: KillFeedEntry[]) => [...prev, entry].slice(-MAX_KILL_FEED_ENTRIES));
+    });
+
+    conn.db.killFeed.onDelete((_ctx: EventContext, entry: KillFeedEntry) => {
+        setKillFeed((prev: KillFeedEntry[]) => prev.filter(existing => existing.id !== entry.id));
+    });
+
+    // The match phase and round timer are driven by the server's game_tick
+    conn.db.matchState.onInsert((_ctx: EventContext, state: MatchState) => {
+        setMatchState(state);
+    });
+
+    conn.db.matchState.onUpdate((_ctx: EventContext, _oldState: MatchState, newState: MatchState) => {
+        setMatchState(newState);
+    });
+
+    conn.db.matchState.onDelete(() => {
+        setMatchState(null);
+    });
+
+    conn.db.matchAward.onInsert((_ctx: EventContext, award: MatchAward) => {
+        setMatchAwards((prev: MatchAward[]) => [...prev, award]);
+    });
+
+    conn.db.matchAward.onDelete((_ctx: EventContext, award: MatchAward) => {
+        setMatchAwards((prev: MatchAward[]) => prev.filter(existing => existing.id !== award.id));
+    });
+
+    // Team points of objective modes and the hill's control state
+    conn.db.teamScore.onInsert((_ctx: EventContext, score: TeamScore) => {
+        setTeamScores((prev: ReadonlyMap<string, TeamScore>) => new Map(prev).set(score.team, score));
+    });
+
+    conn.db.teamScore.onUpdate((_ctx: EventContext, _oldScore: TeamScore, newScore: TeamScore) => {
+        setTeamScores((prev: ReadonlyMap<string, TeamScore>) => new Map(prev).set(newScore.team, newScore));
+    });
+
+    conn.db.teamScore.onDelete((_ctx: EventContext, score: TeamScore) => {
+        setTeamScores((prev: ReadonlyMap<string, TeamScore>) => {
+            const newMap = new Map(prev);
+            newMap.delete(score.team);
+            return newMap;
+        });
+    });
+
+    conn.db.hillState.onInsert((_ctx: EventContext, state: HillState) => {
+        setHillState(state);
+    });
+
+    conn.db.hillState.onUpdate((_ctx: EventContext, _oldState: HillState, newState: HillState) => {
+        setHillState(newState);
+    });
+
+    conn.db.hillState.onDelete(() => {
+        setHillState(null);
+    });
+
+    conn.db.flag.onInsert((_ctx: EventContext, flag: Flag) => {
+        setFlags((prev: ReadonlyMap<string, Flag>) => new Map(prev).set(flag.team, flag));
+    });
+
+    conn.db.flag.onUpdate((_ctx: EventContext, _oldFlag: Flag, newFlag: Flag) => {
+        setFlags((prev: ReadonlyMap<string, Flag>) => new Map(prev).set(newFlag.team, newFlag));
+    });
+
+    conn.db.flag.onDelete((_ctx: EventContext, flag: Flag) => {
+        setFlags((prev: ReadonlyMap<string, Flag>) => {
+            const newMap = new Map(prev);
+            newMap.delete(flag.team);
+            return newMap;
+        });
+    });
+
+    conn.db.zoneState.onInsert((_ctx: EventContext, state: ZoneState) => {
+        setZoneState(state);
+    });
+
+    conn.db.zoneState.onUpdate((_ctx: EventContext, _oldState: ZoneState, newState: ZoneState) => {
+        setZoneState(newState);
+    });
+
+    conn.db.zoneState.onDelete(() => {
+        setZoneState(null);
+    });
+
+    // Minions move on the server every tick; the client interpolates them like remote players
+    conn.db.npc.onInsert((_ctx: EventContext, npc: NpcData) => {
+        const key = npc.id.toString();
+        npcSnapshotsRef.current.record(key, npc.position, npc.rotation.y);
+        setNpcs((prev: ReadonlyMap<string, NpcData>) => new Map(prev).set(key, npc));
+    });
+
+    conn.db.npc.onUpdate((_ctx: EventContext, _oldNpc: NpcData, newNpc: NpcData) => {
+        const key = newNpc.id.toString();
+        npcSnapshotsRef.current.record(key, newNpc.position, newNpc.rotation.y);
+        setNpcs((prev: ReadonlyMap<string, NpcData>) => new Map(prev).set(key, newNpc));
+    });
+
+    conn.db.npc.onDelete((_ctx: EventContext, npc: NpcData) => {
+        const key = npc.id.toString();
+        npcSnapshotsRef.current.remove(key);
+        setNpcs((prev: ReadonlyMap<string, NpcData>) => {
+            const newMap = new Map(prev);
+            newMap.delete(key);
+            return newMap;
+        });
+    });
+
+    // The map is generated once on the server; the whole tile set arrives with the subscription
+    conn.db.mapDefinition.onInsert((_ctx: EventContext, definition: MapDefinition) => {
+        setMapDefinition(definition);
+    });
+
+    conn.db.mapDefinition.onUpdate((_ctx: EventContext, _oldDefinition: MapDefinition, newDefinition: MapDefinition) => {
+        setMapDefinition(newDefinition);
+    });
+
+    conn.db.mapDefinition.onDelete(() => {
+        setMapDefinition(null);
+    });
+
+    conn.db.mapTile.onInsert((_ctx: EventContext, tile: MapTile) => {
+        setMapTiles((prev: ReadonlyMap<string, MapTile>) => new Map(prev).set(tile.id.toString(), tile));
+    });
+
+    conn.db.mapTile.onUpdate((_ctx: EventContext, _oldTile: MapTile, newTile: MapTile) => {
+        setMapTiles((prev: ReadonlyMap<string, MapTile>) => new Map(prev).set(newTile.id.toString(), newTile));
+    });
+
+    conn.db.mapTile.onDelete((_ctx: EventContext, tile: MapTile) => {
+        setMapTiles((prev: ReadonlyMap<string, MapTile>) => {
+            const newMap = new Map(prev);
+            newMap.delete(tile.id.toString());
+            return newMap;
+        });
+    });
+
+    // Uploaded maps arrive through the map tables like generated ones; only the outcome is shown here
+    conn.reducers.onUploadMap((ctx: ReducerEventContext) => {
+        if (!isLocalIdentity(ctx.event.callerIdentity)) return;
+        const { status } = ctx.event;
+        if (status.tag === 'Committed') {
+            setMapUploadStatus('Map uploaded; it is now the active map');
+        } else if (status.tag === 'Failed') {
+            setMapUploadStatus(`Upload refused: ${status.value}`);
+        }
+    });
     console.log("Table callbacks registered.");
-  }, [identity]); // Keep identity dependency
+  }, [isLocalIdentity, recordSnapshot]);
 
   const onSubscriptionApplied = useCallback(() => {
      console.log("Subscription applied successfully.");
-     setPlayers((prev: ReadonlyMap<string, PlayerData>) => {
-         if (prev.size === 0 && conn) {
-             const currentPlayers = new Map<string, PlayerData>();
-             for (const player of conn.db.player.iter()) {
-                 currentPlayers.set(player.identity.toHexString(), player);
-                 if (identity && player.identity.toHexString() === identity.toHexString()) {
-                     setLocalPlayer(player);
-                 }
-             }
-             return currentPlayers;
-         }
-         return prev;
-     });
-  }, [identity]); // Keep identity dependency
+     if (!conn) return;
+
+     const currentPlayers = new Map<string, PlayerData>();
+     for (const player of conn.db.player.iter()) {
+         currentPlayers.set(player.identity.toHexString(), player);
+         recordSnapshot(player);
+     }
+     setPlayers(currentPlayers);
+
+     // Decide whether the join dialog is needed for this identity
+     const existingPlayer = identityRef.current ? conn.db.player.identity.find(identityRef.current) : undefined;
+     if (existingPlayer) {
+         // Still active on the server (e.g. quick reconnect): re-claim the row for this connection
+         console.log(`Identity already in player table as ${existingPlayer.username}, skipping join dialog.`);
+         setLocalPlayer(existingPlayer);
+         lastRegistrationRef.current = { username: existingPlayer.username, characterClass: existingPlayer.characterClass, team: existingPlayer.team };
+         conn.reducers.registerPlayer(existingPlayer.username, existingPlayer.characterClass, existingPlayer.team);
+         setShowJoinDialog(false);
+     } else if (lastRegistrationRef.current) {
+         // Joined earlier in this session: rejoin through logged_out_player without asking again
+         const { username, characterClass, team } = lastRegistrationRef.current;
+         console.log(`Rejoining as ${username} (${characterClass}) after reconnect...`);
+         conn.reducers.registerPlayer(username, characterClass, team);
+         setShowJoinDialog(false);
+     } else {
+         setShowJoinDialog(true);
+     }
+  }, [recordSnapshot]);
 
   const onSubscriptionError = useCallback((error: any) => {
       console.error("Subscription error:", error);
@@ -146,11 +514,12 @@ function App() {
   const subscribeToTables = useCallback(() => {
     if (!conn) return;
     console.log("Subscribing to tables...");
-    const subscription = conn.subscriptionBuilder();
-    subscription.subscribe("SELECT * FROM player");
-    subscription.onApplied(onSubscriptionApplied);
-    subscription.onError(onSubscriptionError);
-  }, [identity, onSubscriptionApplied, onSubscriptionError]); // Add dependencies
+    // Callbacks must be attached before subscribe() sends the query
+    conn.subscriptionBuilder()
+      .onApplied(onSubscriptionApplied)
+      .onError(onSubscriptionError)
+      .subscribe(["SELECT * FROM player", "SELECT * FROM combat_event", "SELECT * FROM projectile", "SELECT * FROM ability_cooldown", "SELECT * FROM status_effect", "SELECT * FROM kill_feed", "SELECT * FROM match_state", "SELECT * FROM match_award", "SELECT * FROM team_score", "SELECT * FROM hill_state", "SELECT * FROM flag", "SELECT * FROM zone_state", "SELECT * FROM npc", "SELECT * FROM map_definition", "SELECT * FROM map_tile"]);
+  }, [onSubscriptionApplied, onSubscriptionError]);
 
   // --- Event Handlers ---
   const handleDelegatedClick = useCallback((event: MouseEvent) => {
@@ -163,14 +532,18 @@ function App() {
   }, []);
 
   // --- Input State Management ---
-  const keyMap: { [key: string]: keyof Omit<InputState, 'sequence' | 'castSpell'> } = {
+  const keyMap: { [key: string]: keyof Omit<InputState, 'sequence' | 'deltaTime' | 'block' | 'abilitySlot'> } = {
       KeyW: 'forward', KeyS: 'backward', KeyA: 'left', KeyD: 'right',
       ShiftLeft: 'sprint', Space: 'jump',
   };
 
   const determineAnimation = useCallback((input: InputState): string => {
-    if (input.attack) return 'attack1';
-    if (input.castSpell) return 'cast';
+    if (input.block) return 'block'; // Player.tsx holds 'block-idle' once the shield is up
+    if (input.attack) {
+        // The server picks the combo step; report the one it last replicated
+        const player = localPlayerRef.current;
+        return player ? getComboAnimation(player.characterClass, player.comboStep) : 'attack1';
+    }
     if (input.jump) return 'jump';
     
     // Determine animation based on movement keys
@@ -212,8 +585,11 @@ function App() {
     return animationName;
   }, []);
 
-  const sendInput = useCallback((currentInputState: InputState) => {
-    if (!conn || !identity || !connected) return; // Check connection status too
+  // Sends one sampled input command; idle filtering and tick numbering happen in InputSampler
+  const sendInput = useCallback((command: InputState) => {
+    if (!conn) return;
+    // The server ignores a dead player's input; not sending it keeps the prediction still
+    if (localPlayerRef.current?.isDead) return;
     const currentPosition = localPlayer?.position || { x: 0, y: 0, z: 0 };
     
     // Now using the playerRotationRef for more accurate rotation tracking
@@ -224,21 +600,16 @@ function App() {
     };
     
     // Determine animation from input state
-    const currentAnimation = determineAnimation(currentInputState);
+    const currentAnimation = determineAnimation(command);
 
-    let changed = false;
-    for (const key in currentInputState) {
-        if (currentInputState[key as keyof InputState] !== lastSentInputState.current[key as keyof InputState]) {
-            changed = true;
-            break;
-        }
-    }
+    conn.reducers.updatePlayerInput(command, currentPosition, currentRotation, currentAnimation);
+    // Slows and roots are applied with the multiplier the server last replicated
+    predictionBufferRef.current.push(command, currentRotation.y, localPlayerRef.current?.moveSpeedMultiplier ?? 1);
+  }, [localPlayer, determineAnimation]);
 
-    if (changed || currentInputState.sequence !== lastSentInputState.current.sequence) {
-        conn.reducers.updatePlayerInput(currentInputState, currentPosition, currentRotation, currentAnimation);
-        lastSentInputState.current = { ...currentInputState };
-    }
-  }, [identity, localPlayer, connected, determineAnimation]);
+  const handleImpactComplete = useCallback((key: string) => {
+    setProjectileImpacts((prev: ProjectileImpactData[]) => prev.filter(impact => impact.key !== key));
+  }, []);
 
   // Add player rotation handler
   const handlePlayerRotation = useCallback((rotation: THREE.Euler) => {
@@ -246,17 +617,79 @@ function App() {
     playerRotationRef.current.copy(rotation);
   }, []);
 
+  // Keys and buttons held when the editor opens would never see their release
+  const handleOpenMapEditor = useCallback(() => {
+    mapEditorOpenRef.current = true;
+    Object.assign(currentInputRef.current, {
+      forward: false, backward: false, left: false, right: false, sprint: false, jump: false, attack: false, block: false, abilitySlot: 0,
+    });
+    setMapUploadStatus(null);
+    setIsMapEditorOpen(true);
+  }, []);
+
+  const handleCloseMapEditor = useCallback(() => {
+    mapEditorOpenRef.current = false;
+    setIsMapEditorOpen(false);
+  }, []);
+
+  // The server validates again and only accepts maps between rounds
+  const handleUploadMap = useCallback((map: MapFile) => {
+    if (!conn) return;
+    setMapUploadStatus('Uploading…');
+    conn.reducers.uploadMap(map.levelHeight, toTileInputs(map));
+  }, []);
+
+  // The server rejects the ability anyway; this only tells the player why
+  const warnIfUnaffordable = useCallback((slot: number) => {
+      const player = localPlayerRef.current;
+      const ability = player ? getAbilityInSlot(player.characterClass, slot) : undefined;
+      if (player && ability && !canAfford(ability, player.mana)) {
+          setManaWarningAt(performance.now());
+      }
+  }, []);
+
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
+      if (mapEditorOpenRef.current) return; // The editor has its own shortcuts
+      if (event.code === 'Tab') {
+          event.preventDefault(); // Keep focus where it is
+          setShowScoreboard(true);
+          return;
+      }
       if (event.repeat) return; 
+      if (event.code === FLAG_PICKUP_KEY) {
+          // The server checks the distance again against its own flag position
+          const flag = reachableFlagRef.current;
+          if (conn && flag) conn.reducers.pickUpFlag(flag.team);
+          return;
+      }
+      const slot = ABILITY_SLOT_KEYS[event.code];
+      if (slot !== undefined) {
+          warnIfUnaffordable(slot);
+          currentInputRef.current.abilitySlot = slot;
+          inputSamplerRef.current?.recordAbilityPress(slot);
+          return;
+      }
       const action = keyMap[event.code];
       if (action) {
           if (!currentInputRef.current[action]) { 
              currentInputRef.current[action] = true;
           }
       }
-  }, []);
+  }, [warnIfUnaffordable]);
 
   const handleKeyUp = useCallback((event: KeyboardEvent) => {
+      if (event.code === 'Tab') {
+          setShowScoreboard(false);
+          return;
+      }
+      const slot = ABILITY_SLOT_KEYS[event.code];
+      if (slot !== undefined) {
+          // Another number key pressed in the meantime keeps its slot
+          if (currentInputRef.current.abilitySlot === slot) {
+              currentInputRef.current.abilitySlot = 0;
+          }
+          return;
+      }
       const action = keyMap[event.code];
       if (action) {
           if (currentInputRef.current[action]) { 
@@ -266,46 +699,53 @@ function App() {
   }, []);
 
   const handleMouseDown = useCallback((event: MouseEvent) => {
+      if (mapEditorOpenRef.current) return; // Painting is not attacking
       if (event.button === 0) { 
           if (!currentInputRef.current.attack) {
-              currentInputRef.current.attack = true;
-              currentInputRef.current.castSpell = true; // Left click for attack and casting spell
+              warnIfUnaffordable(PRIMARY_SLOT);
+              currentInputRef.current.attack = true; // Fires the class's primary ability
+              inputSamplerRef.current?.recordAttackPress();
           }
       } else if (event.button === 2) { // Right-click for defense
-          // Implement defense logic here if needed, for now we'll just log
-          console.log("Right click for defense action");
-          // You can add a defense state to InputState if needed
+          // Only paladins carry a shield; for other classes block would just slow them down
+          if (localPlayerRef.current?.characterClass === 'Paladin') {
+              currentInputRef.current.block = true;
+          }
       }
-  }, []);
+  }, [warnIfUnaffordable]);
 
   const handleMouseUp = useCallback((event: MouseEvent) => {
       if (event.button === 0) { 
           if (currentInputRef.current.attack) {
               currentInputRef.current.attack = false;
-              currentInputRef.current.castSpell = false; // Left click for attack and casting spell
           }
       } else if (event.button === 2) { // Right-click for defense
-          // Implement defense logic here if needed, for now we'll just log
-          console.log("Right click defense action ended");
-          // You can add a defense state to InputState if needed
+          currentInputRef.current.block = false;
       }
   }, []);
 
+  // Right mouse button blocks, so it must not open the browser menu
+  const handleContextMenu = useCallback((event: MouseEvent) => {
+      event.preventDefault();
+  }, []);
+
   const setupInputListeners = useCallback(() => {
       window.addEventListener('keydown', handleKeyDown);
       window.addEventListener('keyup', handleKeyUp);
       window.addEventListener('mousedown', handleMouseDown);
       window.addEventListener('mouseup', handleMouseUp);
+      window.addEventListener('contextmenu', handleContextMenu);
       console.log("Input listeners added.");
-  }, [handleKeyDown, handleKeyUp, handleMouseDown, handleMouseUp]);
+  }, [handleKeyDown, handleKeyUp, handleMouseDown, handleMouseUp, handleContextMenu]);
 
   const removeInputListeners = useCallback(() => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
       window.removeEventListener('mousedown', handleMouseDown);
       window.removeEventListener('mouseup', handleMouseUp);
+      window.removeEventListener('contextmenu', handleContextMenu);
       console.log("Input listeners removed.");
-  }, [handleKeyDown, handleKeyUp, handleMouseDown, handleMouseUp]);
+  }, [handleKeyDown, handleKeyUp, handleMouseDown, handleMouseUp, handleContextMenu]);
 
   const setupDelegatedListeners = useCallback(() => {
       document.body.addEventListener('click', handleDelegatedClick, true);
@@ -317,38 +757,37 @@ function App() {
       console.log("Delegated listener removed from body.");
   }, [handleDelegatedClick]);
 
-  // --- Game Loop Effect ---
+  // --- Input Sampling Effect ---
+  // Latest sendInput for the sampler, which is created once and outlives renders
+  const sendInputRef = useRef(sendInput);
+  sendInputRef.current = sendInput;
+
   useEffect(() => {
-      const gameLoop = () => {
-          if (!connected || !conn || !identity) {
-              if (animationFrameIdRef.current) {
-                  cancelAnimationFrame(animationFrameIdRef.current);
-                  animationFrameIdRef.current = null;
-              }
-              return;
-          }
-          currentInputRef.current.sequence += 1;
-          sendInput(currentInputRef.current);
-          animationFrameIdRef.current = requestAnimationFrame(gameLoop);
-      };
+      if (!connected || !identity) return;
 
-      if (connected && !animationFrameIdRef.current) {
-          console.log("[CLIENT] Starting game loop.");
-          animationFrameIdRef.current = requestAnimationFrame(gameLoop);
+      if (!inputSamplerRef.current) {
+          inputSamplerRef.current = new InputSampler(
+              () => currentInputRef.current,
+              (command) => sendInputRef.current(command)
+          );
       }
+      const sampler = inputSamplerRef.current;
+      console.log(`[CLIENT] Starting input sampler at ${INPUT_RATE_HZ} Hz.`);
+      sampler.start();
 
       return () => {
-          if (animationFrameIdRef.current) {
-              console.log("[CLIENT] Stopping game loop.");
-              cancelAnimationFrame(animationFrameIdRef.current);
-              animationFrameIdRef.current = null;
-          }
+          console.log("[CLIENT] Stopping input sampler.");
+          sampler.stop();
       };
-  }, [connected, conn, identity, sendInput]);
+  }, [connected, identity]);
 
   // --- Connection Effect Hook ---
   useEffect(() => {
     console.log("Running Connection Effect Hook...");
+    if (!endpoint) {
+        console.log("No server selected yet, waiting for server browser.");
+        return;
+    }
     if (conn) {
         console.log("Connection already established, skipping setup.");
          if (connected) {
@@ -358,60 +797,165 @@ function App() {
         return;
     }
 
-    const dbHost = "localhost:3000";
-    const dbName = "vibe-arena";
-
-    console.log(`Connecting to SpacetimeDB at ${dbHost}, database: ${dbName}...`);
-
-    const onConnect = (connection: DbConnection, id: Identity, _token: string) => {
-      console.log("Connected!");
-      conn = connection;
-      setIdentity(id);
-      setConnected(true);
-      setStatusMessage(`Connected as ${id.toHexString().substring(0, 8)}...`);
-      subscribeToTables();
-      registerTableCallbacks();
-      setupInputListeners();
-      setupDelegatedListeners();
-      setShowJoinDialog(true);
+    const dbUri = endpointUri(endpoint);
+    const dbName = endpoint.moduleName;
+    let cancelled = false; // Set when the endpoint changes or App unmounts
+    reconnectAttemptRef.current = 0;
+
+    const connect = () => {
+      reconnectTimerRef.current = null;
+      const token = loadToken(endpoint);
+      console.log(`Connecting to SpacetimeDB at ${dbUri}, database: ${dbName} (${token ? 'saved' : 'new'} identity)...`);
+
+      const onConnect = (connection: DbConnection, id: Identity, token: string) => {
+        if (cancelled) {
+          connection.disconnect();
+          return;
+        }
+        console.log("Connected!");
+        conn = connection;
+        saveToken(endpoint, token);
+        identityRef.current = id;
+        reconnectAttemptRef.current = 0;
+        predictionBufferRef.current.reset();
+        setReconnectStatus(null);
+        setConnectionPhase('connected');
+        setIdentity(id);
+        setConnected(true);
+        setStatusMessage(`Connected as ${id.toHexString().substring(0, 8)}...`);
+        // Fresh DbConnection means a fresh client cache: callbacks and subscriptions start over
+        registerTableCallbacks();
+        subscribeToTables();
+        setupInputListeners();
+        setupDelegatedListeners();
+      };
+
+      const onDisconnect = (_ctx: ErrorContext, reason?: Error | null) => {
+        const reasonStr = reason ? reason.message : "No reason given";
+        console.log("onDisconnect triggered:", reasonStr);
+        setStatusMessage(`Disconnected: ${reasonStr}`);
+        conn = null;
+        identityRef.current = null;
+        setIdentity(null);
+        setConnected(false);
+        setPlayers(new Map());
+        setCombatEvents([]);
+        setProjectiles(new Map());
+        setProjectileImpacts([]);
+        setAbilityCooldowns(new Map());
+        setStatusEffects(new Map());
+        setKillFeed([]);
+        setMatchState(null);
+        setMatchAwards([]);
+        setTeamScores(new Map());
+        setHillState(null);
+        setFlags(new Map());
+        setZoneState(null);
+        setNpcs(new Map());
+        setMapDefinition(null);
+        setMapTiles(new Map());
+        snapshotStoreRef.current.clear();
+        projectileSnapshotsRef.current.clear();
+        npcSnapshotsRef.current.clear();
+        setLocalPlayer(null);
+        setShowJoinDialog(false);
+        scheduleReconnect();
+      };
+
+      const onConnectError = (_ctx: ErrorContext, error: Error) => {
+        console.error("Connection error:", error);
+        setStatusMessage(`Connection failed: ${error?.message || error}`);
+        if (cancelled) return;
+        if (token && isAuthError(error)) {
+          // The server may have been wiped and no longer accepts our token: retry as a new identity
+          console.warn("Server refused the saved token, retrying without it.");
+          clearToken(endpoint);
+          connect();
+          return;
+        }
+        // Outages keep the token and back off like a dropped connection
+        scheduleReconnect();
+      };
+
+      moduleBindings.DbConnection.builder()
+        .withUri(dbUri)
+        .withModuleName(dbName)
+        .withToken(token)
+        .onConnect(onConnect)
+        .onDisconnect(onDisconnect)
+        .onConnectError(onConnectError)
+        .build();
     };
 
-    const onDisconnect = (_ctx: ErrorContext, reason?: Error | null) => {
-      const reasonStr = reason ? reason.message : "No reason given";
-      console.log("onDisconnect triggered:", reasonStr);
-      setStatusMessage(`Disconnected: ${reasonStr}`);
-      conn = null;
-      setIdentity(null);
-      setConnected(false);
-      setPlayers(new Map());
-      setLocalPlayer(null);
+    const scheduleReconnect = () => {
+      if (cancelled) return;
+      const attempt = reconnectAttemptRef.current;
+      if (attempt >= MAX_RECONNECT_ATTEMPTS) {
+        console.warn(`Giving up after ${attempt} reconnect attempts.`);
+        setReconnectStatus(null);
+        setConnectionPhase('failed');
+        return;
+      }
+      const delayMs = getReconnectDelay(attempt);
+      reconnectAttemptRef.current = attempt + 1;
+      console.log(`Reconnecting in ${delayMs}ms (attempt ${attempt + 1}/${MAX_RECONNECT_ATTEMPTS})...`);
+      setReconnectStatus({ attempt: attempt + 1, delayMs });
+      setConnectionPhase('reconnecting');
+      reconnectTimerRef.current = window.setTimeout(connect, delayMs);
     };
 
-    moduleBindings.DbConnection.builder()
-      .withUri(`ws://${dbHost}`)
-      .withModuleName(dbName)
-      .onConnect(onConnect)
-      .onDisconnect(onDisconnect)
-      .build();
+    setStatusMessage(`Connecting to ${endpoint.name}...`);
+    setConnectionPhase('connecting');
+    connect();
 
     return () => {
       console.log("Cleaning up connection effect - removing listeners.");
+      cancelled = true;
+      if (reconnectTimerRef.current) {
+        clearTimeout(reconnectTimerRef.current);
+        reconnectTimerRef.current = null;
+      }
+      if (conn) {
+        conn.disconnect();
+        conn = null;
+      }
+      setConnectionPhase('idle');
       removeInputListeners();
       removeDelegatedListeners();
     };
-  }, []);
+  }, [endpoint]);
+
+  // Leave the current server and go back to the browser
+  const handleLeaveServer = () => {
+    lastRegistrationRef.current = null;
+    setEndpoint(null);
+  };
 
   // --- handleJoinGame ---
-  const handleJoinGame = (username: string, characterClass: string) => {
+  const handleJoinGame = (username: string, characterClass: string, team: string) => {
     if (!conn) {
         console.error("Cannot join game, not connected.");
         return;
     }
-    console.log(`Registering as ${username} (${characterClass})...`);
-    conn.reducers.registerPlayer(username, characterClass);
+    console.log(`Registering as ${username} (${characterClass}, team: ${team || 'auto'})...`);
+    lastRegistrationRef.current = { username, characterClass, team };
+    conn.reducers.registerPlayer(username, characterClass, team);
     setShowJoinDialog(false);
   };
 
+  // Flags only matter while a capture the flag round is running
+  const flagMode = isFlagMode(matchState);
+  const reachableFlag = flagMode && matchState?.phase === MATCH_PHASES.IN_PROGRESS && localPlayer
+    ? findReachableFlag(flags, localPlayer)
+    : undefined;
+
+  useEffect(() => {
+    reachableFlagRef.current = reachableFlag;
+  }, [reachableFlag]);
+
+  const zoneMode = isZoneMode(matchState);
+  const roundRunning = matchState?.phase === MATCH_PHASES.IN_PROGRESS;
+
   // --- Render Logic ---
   return (
     <div className="App" style={{ width: '100vw', height: '100vh', position: 'relative' }}>
@@ -425,6 +969,7 @@ function App() {
             localPlayer={localPlayer}
             identity={identity}
             playerMap={players}
+            snapshotStore={snapshotStoreRef.current}
             expanded={isDebugPanelExpanded}
             onToggleExpanded={() => setIsDebugPanelExpanded((prev: boolean) => !prev)}
           />
@@ -438,16 +983,83 @@ function App() {
             localPlayerIdentity={identity} 
             onPlayerRotation={handlePlayerRotation}
             currentInputRef={currentInputRef}
+            predictionBuffer={predictionBufferRef.current}
+            snapshotStore={snapshotStoreRef.current}
+            combatEvents={combatEvents}
+            statusEffects={statusEffects}
+            projectiles={projectiles}
+            projectileSnapshots={projectileSnapshotsRef.current}
+            projectileImpacts={projectileImpacts}
+            onProjectileImpactComplete={handleImpactComplete}
+            arenaTint={getArenaTint(matchState, hillState)}
+            flags={flagMode ? flags : undefined}
+            zone={zoneMode ? zoneState : null}
+            npcs={npcs}
+            npcSnapshots={npcSnapshotsRef.current}
+            mapDefinition={mapDefinition}
+            mapTiles={mapTiles}
             isDebugPanelVisible={isDebugPanelExpanded}
+            onOpenMapEditor={handleOpenMapEditor}
           />
           {/* Render PlayerUI only if localPlayer exists */} 
-          {localPlayer && <PlayerUI playerData={localPlayer} />} 
+          {localPlayer && <PlayerUI playerData={localPlayer} combatEvents={combatEvents} manaWarningAt={manaWarningAt} statusEffects={getEffectsOn(statusEffects, localPlayer.identity)} eliminated={zoneMode && roundRunning} />} 
+          {localPlayer && <AbilityBar playerData={localPlayer} cooldowns={abilityCooldowns} />}
+          {localPlayer && <HitMarker combatEvents={combatEvents} attacker={localPlayer.identity} />}
+          <KillFeed entries={killFeed} localPlayerIdentity={identity} />
+          {matchState && <MatchHud matchState={matchState} playerCount={players.size} />}
+          {isHillMode(matchState) && matchState?.phase !== MATCH_PHASES.WAITING && hillState && (
+            <HillHud hillState={hillState} teamScores={teamScores} />
+          )}
+          {flagMode && matchState?.phase !== MATCH_PHASES.WAITING && (
+            <FlagHud
+              flags={flags}
+              teamScores={teamScores}
+              players={players}
+              reachableFlag={reachableFlag}
+              localTeam={localPlayer?.team}
+            />
+          )}
+          {zoneMode && matchState?.phase !== MATCH_PHASES.WAITING && zoneState && (
+            <ZoneHud zone={zoneState} players={players} localPlayer={localPlayer} />
+          )}
+          {matchState?.phase === MATCH_PHASES.ENDED && (
+            <MatchResults matchState={matchState} awards={matchAwards} players={players} teamScores={teamScores} />
+          )}
+          {showScoreboard && <Scoreboard players={players} localPlayerIdentity={identity} />}
+          {isMapEditorOpen && (
+            <MapEditor
+              tiles={mapTiles}
+              definition={mapDefinition}
+              uploadStatus={mapUploadStatus}
+              onUpload={handleUploadMap}
+              onClose={handleCloseMapEditor}
+            />
+          )}
         </>
       )}
 
+      {/* Pick a server before connecting */}
+      {!connected && !endpoint && <ServerBrowser onSelect={setEndpoint} />}
+
+      {/* Reconnect overlay while the backoff loop is running */}
+      {connectionPhase === 'reconnecting' && reconnectStatus && (
+          <div className="reconnect-overlay">
+            <div className="reconnect-title">Reconnecting…</div>
+            <div className="reconnect-detail">
+              Attempt {reconnectStatus.attempt}/{MAX_RECONNECT_ATTEMPTS} in {(reconnectStatus.delayMs / 1000).toFixed(1)}s
+            </div>
+            <button onClick={handleLeaveServer}>Back to server list</button>
+          </div>
+      )}
+
       {/* Show status when not connected */} 
-      {!connected && (
-          <div style={{ display:'flex', justifyContent:'center', alignItems:'center', height:'100%'}}><h1>{statusMessage}</h1></div>
+      {!connected && endpoint && connectionPhase !== 'reconnecting' && (
+          <div style={{ display:'flex', flexDirection:'column', justifyContent:'center', alignItems:'center', height:'100%'}}>
+            <h1>{statusMessage}</h1>
+            {connectionPhase === 'failed' && (
+              <button onClick={handleLeaveServer}>Back to server list</button>
+            )}
+          </div>
       )}
     </div>
   );
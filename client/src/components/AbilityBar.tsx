@@ -0,0 +1,87 @@
+/**
+ * AbilityBar.tsx
+ *
+ * HUD bar with the local player's class abilities, shown next to PlayerUI:
+ *
+ * Key functionality:
+ * - One slot per ability with its key binding, name and mana cost
+ * - Radial cooldown sweep and remaining seconds while an ability is cooling down
+ * - Grays out abilities the player cannot pay for
+ *
+ * Props:
+ * - playerData: Local player row (class and current mana)
+ * - cooldowns: The local player's ability_cooldown rows, keyed by abilityId
+ *
+ * Technical implementation:
+ * - The sweep is a conic-gradient overlay whose angle is the remaining fraction
+ *   of the cooldown (started_at -> ready_at, server clock)
+ * - Re-renders every COOLDOWN_REFRESH_MS only while some cooldown is active
+ *
+ * Related files:
+ * - game/abilities.ts: Ability definitions mirrored from the server
+ * - App.tsx: Tracks ability_cooldown rows and renders this bar
+ * - server/src/ability_logic.rs: Validates cooldowns and inserts the rows
+ */
+
+import React, { useEffect, useState } from 'react';
+import { PlayerData, AbilityCooldown } from '../generated';
+import { getClassAbilities, getSlotLabel, canAfford } from '../game/abilities';
+
+const COOLDOWN_REFRESH_MS = 50;
+
+interface AbilityBarProps {
+  playerData: PlayerData;
+  cooldowns: ReadonlyMap<string, AbilityCooldown>;
+}
+
+// Remaining share of the cooldown (1 = just started, 0 = ready)
+const remainingFraction = (cooldown: AbilityCooldown, now: number): number => {
+  const startedAt = cooldown.startedAt.toDate().getTime();
+  const readyAt = cooldown.readyAt.toDate().getTime();
+  if (readyAt <= startedAt) return 0;
+  return Math.min(1, Math.max(0, (readyAt - now) / (readyAt - startedAt)));
+};
+
+export const AbilityBar: React.FC<AbilityBarProps> = ({ playerData, cooldowns }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (cooldowns.size === 0) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), COOLDOWN_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [cooldowns]);
+
+  const abilities = getClassAbilities(playerData.characterClass);
+
+  return (
+    <div className="ability-bar">
+      {abilities.map((ability) => {
+        const cooldown = cooldowns.get(ability.id);
+        const fraction = cooldown ? remainingFraction(cooldown, now) : 0;
+        const remainingSecs = cooldown ? (cooldown.readyAt.toDate().getTime() - now) / 1000 : 0;
+        const affordable = canAfford(ability, playerData.mana);
+
+        return (
+          <div
+            key={ability.id}
+            className={`ability-slot${affordable ? '' : ' unaffordable'}`}
+          >
+            {fraction > 0 && (
+              <div
+                className="ability-cooldown-sweep"
+                style={{ background: `conic-gradient(rgba(0, 0, 0, 0.7) ${fraction * 360}deg, transparent 0deg)` }}
+              />
+            )}
+            <span className="ability-binding">{getSlotLabel(ability.slot)}</span>
+            <span className="ability-name">{ability.name}</span>
+            {ability.manaCost > 0 && <span className="ability-cost">{ability.manaCost} MP</span>}
+            {fraction > 0 && remainingSecs > 0 && (
+              <span className="ability-cooldown-text">{remainingSecs.toFixed(remainingSecs < 1 ? 1 : 0)}</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+/**
+ * CombatText.tsx
+ *
+ * Floating combat numbers above a player, driven by the server's combat_event
+ * rows (never by local health deltas):
+ *
+ * Key functionality:
+ * - One rising, fading number per damage or heal event on the target
+ * - Colors: white damage, yellow and larger crits, gray blocked hits,
+ *   orange burn ticks, green heals
+ *
+ * Props:
+ * - combatEvents: Recent combat_event rows (App.tsx state)
+ * - target: Identity of the player this text floats above
+ *
+ * Technical implementation:
+ * - Remembers the newest event id it has handled, starting from the newest one
+ *   present at mount, so old events never replay
+ * - A single drei Html element holds every entry; the rise and fade are a CSS
+ *   animation, and each entry is dropped after COMBAT_TEXT_DURATION_MS
+ * - Pending expiry timers are tracked and cleared on unmount
+ *
+ * Related files:
+ * - Player.tsx: Renders this just above the nametag
+ * - game/combatEvents.ts: Event filtering helpers
+ * - server/src/combat_logic.rs: Inserts the events
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Html } from '@react-three/drei';
+import { Identity } from '@clockworklabs/spacetimedb-sdk';
+import { CombatEvent } from '../generated';
+import { latestCombatEventId, getNewEventsOn } from '../game/combatEvents';
+
+// Keep in sync with the combat-text-rise animation in index.css
+const COMBAT_TEXT_DURATION_MS = 1200;
+
+interface CombatTextEntry {
+  id: string;
+  text: string;
+  className: string;
+  offsetX: number; // Pixels, so simultaneous numbers do not overlap
+}
+
+const toEntry = (event: CombatEvent): CombatTextEntry => {
+  const offsetX = (Number(event.id % BigInt(5)) - 2) * 14;
+  const base = { id: event.id.toString(), offsetX };
+  switch (event.kind) {
+    case 'heal':
+      return { ...base, text: `+${event.amount}`, className: 'combat-text heal' };
+    case 'burn':
+      return { ...base, text: `${event.amount}`, className: 'combat-text burn' };
+    default:
+      if (event.critical) return { ...base, text: `${event.amount}!`, className: 'combat-text critical' };
+      if (event.blocked) return { ...base, text: `${event.amount}`, className: 'combat-text blocked' };
+      return { ...base, text: `${event.amount}`, className: 'combat-text damage' };
+  }
+};
+
+interface CombatTextProps {
+  combatEvents?: CombatEvent[];
+  target: Identity;
+}
+
+export const CombatText: React.FC<CombatTextProps> = ({ combatEvents, target }) => {
+  const [entries, setEntries] = useState<CombatTextEntry[]>([]);
+  const lastCombatEventIdRef = useRef<bigint>(latestCombatEventId(combatEvents));
+  const expiryTimersRef = useRef<Set<number>>(new Set());
+
+  useEffect(() => {
+    const timers = expiryTimersRef.current;
+    return () => {
+      timers.forEach(timer => window.clearTimeout(timer));
+      timers.clear();
+    };
+  }, []);
+
+  useEffect(() => {
+    const events = getNewEventsOn(combatEvents, target, lastCombatEventIdRef.current);
+    const newestId = latestCombatEventId(combatEvents);
+    if (newestId > lastCombatEventIdRef.current) lastCombatEventIdRef.current = newestId;
+    // Zero-amount events (a fully absorbed hit, a heal at full health) show nothing
+    const added = events.filter(event => event.amount !== 0).map(toEntry);
+    if (added.length === 0) return;
+
+    setEntries((prev: CombatTextEntry[]) => [...prev, ...added]);
+    const ids = new Set(added.map(entry => entry.id));
+    // Not cleared on re-run: each batch must still expire after newer events arrive.
+    // The unmount effect above clears whatever is still pending.
+    const timer = window.setTimeout(() => {
+      expiryTimersRef.current.delete(timer);
+      setEntries((prev: CombatTextEntry[]) => prev.filter(entry => !ids.has(entry.id)));
+    }, COMBAT_TEXT_DURATION_MS);
+    expiryTimersRef.current.add(timer);
+  }, [combatEvents, target]);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <Html position={[0, 3.1, 0]} center distanceFactor={10}>
+      <div className="combat-text-layer">
+        {entries.map(entry => (
+          <div key={entry.id} className={entry.className} style={{ left: `${entry.offsetX}px` }}>
+            {entry.text}
+          </div>
+        ))}
+      </div>
+    </Html>
+  );
+};
@@ -16,6 +16,7 @@
  * - localPlayer: Data for the current user's player
  * - identity: The player's SpacetimeDB identity
  * - playerMap: Collection of all players in the current session
+ * - snapshotStore: Interpolation buffers, used to show buffer depth per remote player
  * - expanded: Controls panel expansion state (collapsed/expanded)
  * - onToggleExpanded: Callback to toggle expansion state
  * 
@@ -35,12 +36,14 @@ import React, { useState } from 'react';
 import { Identity } from '@clockworklabs/spacetimedb-sdk';
 // Import generated type, assuming path from components dir
 import { PlayerData } from '../generated'; 
+import { SnapshotStore, INTERPOLATION_DELAY_MS } from '../network/interpolation';
 
 interface DebugPanelProps {
   statusMessage: string;
   localPlayer: PlayerData | null;
   identity: Identity | null;
   playerMap: ReadonlyMap<string, PlayerData>; // Pass the whole map
+  snapshotStore?: SnapshotStore; // Remote player interpolation buffers
   expanded: boolean; // Receive expansion state from parent
   onToggleExpanded: () => void; // Receive toggle function from parent
 }
@@ -50,6 +53,7 @@ export const DebugPanel: React.FC<DebugPanelProps> = ({
   localPlayer, 
   identity, 
   playerMap,
+  snapshotStore,
   expanded,         // Use prop
   onToggleExpanded, // Use prop
 }) => {
@@ -162,11 +166,15 @@ export const DebugPanel: React.FC<DebugPanelProps> = ({
           
           <div style={{ marginTop: '10px' }}>
             <strong>Players ({playerMap.size}):</strong>
+            <span style={{color: '#aaa', fontSize: '12px'}}> (interp delay {INTERPOLATION_DELAY_MS} ms)</span>
             <ul style={{ maxHeight: '200px', overflow: 'auto', padding: '0 0 0 20px' }}>
               {Array.from(playerMap.values()).map(player => (
                 <li key={player.identity.toHexString()}>
                   {player.username} ({player.characterClass}) - {player.identity.toHexString().substring(0, 8)}...
                   {player.currentAnimation && <span style={{color: '#a0e0ff'}}> [{player.currentAnimation}]</span>}
+                  {snapshotStore?.get(player.identity.toHexString()) && (
+                    <span style={{color: '#aaa'}}> buf:{snapshotStore.get(player.identity.toHexString())!.size}</span>
+                  )}
                 </li>
               ))}
             </ul>
@@ -200,8 +208,9 @@ export const DebugPanel: React.FC<DebugPanelProps> = ({
                 <li>WASD: Movement</li>
                 <li>Shift: Sprint</li>
                 <li>Space: Jump</li>
-                <li>Left Click: Attack/Cast Spell</li>
-                <li>Right Click: Defense</li>
+                <li>Left Click: Primary Attack</li>
+                <li>1-4: Class Abilities</li>
+                <li>Right Click: Block (Paladin)</li>
                 <li>Mouse Wheel: Zoom</li>
               </ul>
             </div>
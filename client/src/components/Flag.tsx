@@ -0,0 +1,98 @@
+/**
+ * Flag.tsx
+ *
+ * Renders capture the flag flags (flag table):
+ *
+ * Key functionality:
+ * - FlagModel: Pole with a waving cloth in the team color, also carried on a player's back
+ * - Flag: A flag at its base or where it was dropped; dropped flags lean over
+ *   and blink while they wait to return home
+ *
+ * Props (FlagModel):
+ * - color: Cloth color
+ * - scale: Size relative to a standing flag
+ *
+ * Props (Flag):
+ * - flag: Row from the flag table (carried flags are drawn by Player.tsx instead)
+ *
+ * Technical implementation:
+ * - The cloth waves with a sine on its Y rotation, driven by useFrame
+ *
+ * Related files:
+ * - GameScene.tsx: Renders the flags that are not carried
+ * - Player.tsx: Draws a carried flag on its carrier
+ * - game/flags.ts: Flag states
+ * - server/src/flag_logic.rs: Flag positions and states
+ */
+
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import * as moduleBindings from '../generated';
+import { FLAG_STATES } from '../game/flags';
+import { getTeamColor } from '../game/teams';
+
+type FlagData = moduleBindings.Flag;
+
+const POLE_HEIGHT = 3;
+const CLOTH_WIDTH = 1.2;
+const CLOTH_HEIGHT = 0.8;
+const WAVE_SPEED = 3;
+const WAVE_ANGLE = 0.25; // Radians
+const DROPPED_TILT = 0.5; // Radians
+const DROPPED_BLINK_SPEED = 4;
+
+interface FlagModelProps {
+  color: string;
+  scale?: number;
+}
+
+export const FlagModel: React.FC<FlagModelProps> = ({ color, scale = 1 }) => {
+  const cloth = useRef<THREE.Group>(null!);
+
+  useFrame(({ clock }) => {
+    if (!cloth.current) return;
+    cloth.current.rotation.y = Math.sin(clock.elapsedTime * WAVE_SPEED) * WAVE_ANGLE;
+  });
+
+  return (
+    <group scale={scale}>
+      <mesh position={[0, POLE_HEIGHT / 2, 0]}>
+        <cylinderGeometry args={[0.05, 0.05, POLE_HEIGHT, 8]} />
+        <meshStandardMaterial color="#d8d8d8" metalness={0.6} roughness={0.4} />
+      </mesh>
+      <group ref={cloth} position={[0, POLE_HEIGHT - CLOTH_HEIGHT / 2, 0]}>
+        <mesh position={[CLOTH_WIDTH / 2, 0, 0]}>
+          <planeGeometry args={[CLOTH_WIDTH, CLOTH_HEIGHT]} />
+          <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.4} side={THREE.DoubleSide} />
+        </mesh>
+      </group>
+    </group>
+  );
+};
+
+interface FlagProps {
+  flag: FlagData;
+}
+
+export const Flag: React.FC<FlagProps> = ({ flag }) => {
+  const group = useRef<THREE.Group>(null!);
+  const isDropped = flag.state === FLAG_STATES.DROPPED;
+  const color = getTeamColor(flag.team);
+
+  useFrame(({ clock }) => {
+    if (!group.current) return;
+    group.current.visible = !isDropped || Math.sin(clock.elapsedTime * DROPPED_BLINK_SPEED) > -0.6;
+  });
+
+  return (
+    <group
+      ref={group}
+      position={[flag.position.x, flag.position.y, flag.position.z]}
+      rotation={[0, 0, isDropped ? DROPPED_TILT : 0]}
+    >
+      <FlagModel color={color} />
+      {!isDropped && <pointLight color={color} intensity={2} distance={8} position={[0, POLE_HEIGHT, 0]} />}
+    </group>
+  );
+};
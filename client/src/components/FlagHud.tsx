@@ -0,0 +1,78 @@
+/**
+ * FlagHud.tsx
+ *
+ * Capture the flag panel below the match banner:
+ *
+ * Key functionality:
+ * - Captures of each team out of CAPTURES_TO_WIN
+ * - State of each team's flag: at base, carried by whom, or dropped with its return timer
+ * - Pickup prompt while a flag the local player can take or return is in reach
+ *
+ * Props:
+ * - flags: flag rows, keyed by team id
+ * - teamScores: team_score rows (captures), keyed by team id
+ * - players: All active players, for carrier names
+ * - reachableFlag: Flag the E key would act on (game/flags.ts findReachableFlag)
+ * - localTeam: The local player's team, to word the prompt
+ *
+ * Technical implementation:
+ * - Re-renders every TIMER_REFRESH_MS while a flag is dropped, for its return timer
+ *
+ * Related files:
+ * - App.tsx: Tracks the flag rows and handles the E key
+ * - game/flags.ts: Flag states, status text and the pickup key
+ * - server/src/flag_logic.rs: Pickups, drops, returns and captures
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Flag, PlayerData, TeamScore } from '../generated';
+import { CAPTURES_TO_WIN, FLAG_STATES, getFlagStatus } from '../game/flags';
+import { TEAMS, getTeamInfo } from '../game/teams';
+
+const TIMER_REFRESH_MS = 250;
+
+interface FlagHudProps {
+  flags: ReadonlyMap<string, Flag>;
+  teamScores: ReadonlyMap<string, TeamScore>;
+  players: ReadonlyMap<string, PlayerData>;
+  reachableFlag?: Flag;
+  localTeam?: string;
+}
+
+export const FlagHud: React.FC<FlagHudProps> = ({ flags, teamScores, players, reachableFlag, localTeam }) => {
+  const [now, setNow] = useState(() => Date.now());
+  const anyDropped = Array.from(flags.values()).some(flag => flag.state === FLAG_STATES.DROPPED);
+
+  useEffect(() => {
+    if (!anyDropped) return;
+    const interval = window.setInterval(() => setNow(Date.now()), TIMER_REFRESH_MS);
+    return () => window.clearInterval(interval);
+  }, [anyDropped]);
+
+  return (
+    <>
+      <div className="flag-hud">
+        {TEAMS.map(team => {
+          const flag = flags.get(team.id);
+          const captures = teamScores.get(team.id)?.points ?? 0;
+          return (
+            <div key={team.id} className={`flag-team ${flag?.state ?? ''}`}>
+              <span className="flag-team-icon" style={{ color: team.color }}>⚑</span>
+              <span className="flag-team-name" style={{ color: team.color }}>{team.name}</span>
+              <span className="flag-team-status">{flag ? getFlagStatus(flag, players, now) : ''}</span>
+              <span className="flag-team-captures">{captures}/{CAPTURES_TO_WIN}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {reachableFlag && (
+        <div className="flag-prompt">
+          Press <kbd>E</kbd> to {reachableFlag.team === localTeam
+            ? 'return your flag'
+            : `take the ${getTeamInfo(reachableFlag.team).name} flag`}
+        </div>
+      )}
+    </>
+  );
+};
@@ -25,29 +25,63 @@
  * 
  * Related files:
  * - Player.tsx: Individual player entity component
+ * - Projectile.tsx: Spell projectiles and their impact effects
+ * - Flag.tsx: Capture the flag flags
+ * - Npc.tsx: Creep wave minions
+ * - HexGrid.tsx: Hex map drawn from the server's map tiles
+ * - MapGUI.tsx: Map display settings and the map editor button (debug panel only)
+ * - ZoneRing.tsx: Battle royale zone wall (HexGrid darkens the hexes outside it)
  * - JoinGameDialog.tsx: UI for joining a game session
  * - PlayerUI.tsx: In-game user interface elements
  * - Socket handlers for network communication
  */
 
-import React, { useRef, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { Box, Plane, Grid, Sky, PerformanceMonitor } from '@react-three/drei';
 import * as THREE from 'three';
 import { DirectionalLightHelper, CameraHelper } from 'three'; // Import the helper
 // Import generated types
-import { PlayerData, InputState } from '../generated';
+import { PlayerData, InputState, CombatEvent, StatusEffect, Projectile as ProjectileData, Flag as FlagData, ZoneState, Npc as NpcData, MapDefinition, MapTile } from '../generated';
 import { Identity } from '@clockworklabs/spacetimedb-sdk';
 import { Player } from './Player';
+import { Projectile, ProjectileImpact, ProjectileImpactData } from './Projectile';
 import { HexGrid } from './HexGrid';
+import { Flag } from './Flag';
+import { Npc } from './Npc';
+import { ZoneRing } from './ZoneRing';
 import { MapGUI } from './MapGUI';
+import { PredictionBuffer } from '../network/prediction';
+import { SnapshotStore } from '../network/interpolation';
+import { getEffectsOn } from '../game/statusEffects';
+import { FLAG_STATES, getCarriedFlag } from '../game/flags';
+import { getTeamColor } from '../game/teams';
+import { getZoneRadius } from '../game/zone';
+
+const ZONE_REFRESH_MS = 250;
 
 interface GameSceneProps {
   players: ReadonlyMap<string, PlayerData>; // Receive the map
   localPlayerIdentity: Identity | null;
   onPlayerRotation?: (rotation: THREE.Euler) => void; // Optional callback for player rotation
   currentInputRef?: React.MutableRefObject<InputState>; // Add input state ref prop
+  predictionBuffer?: PredictionBuffer; // Local player's unacknowledged inputs
+  snapshotStore?: SnapshotStore; // Interpolation history for remote players
+  combatEvents?: CombatEvent[]; // Recent server-confirmed hits
+  statusEffects?: ReadonlyMap<string, StatusEffect>; // Every player's status effects, keyed by id
+  projectiles?: ReadonlyMap<string, ProjectileData>; // Spell projectiles in flight, keyed by id
+  projectileSnapshots?: SnapshotStore; // Interpolation history for projectiles
+  projectileImpacts?: ProjectileImpactData[]; // Impact effects still playing
+  onProjectileImpactComplete?: (key: string) => void;
+  arenaTint?: string | null; // Color of the team holding the hill in king of the hill
+  flags?: ReadonlyMap<string, FlagData>; // Capture the flag flags, keyed by team; empty in other modes
+  zone?: ZoneState | null; // Battle royale zone; null in other modes
+  npcs?: ReadonlyMap<string, NpcData>; // Creep wave minions, keyed by id
+  npcSnapshots?: SnapshotStore; // Interpolation history for minions
+  mapDefinition?: MapDefinition | null; // Map singleton row; null until the subscription applies
+  mapTiles: ReadonlyMap<string, MapTile>; // Map tiles, keyed by id
   isDebugPanelVisible?: boolean; // Prop to indicate if the debug panel is visible
+  onOpenMapEditor?: () => void; // Opens MapEditor.tsx
 }
 
 export const GameScene: React.FC<GameSceneProps> = ({ 
@@ -55,20 +89,45 @@ export const GameScene: React.FC<GameSceneProps> = ({
   localPlayerIdentity,
   onPlayerRotation,
   currentInputRef, // Receive input state ref
-  isDebugPanelVisible = false // Destructure the new prop
+  predictionBuffer,
+  snapshotStore,
+  combatEvents,
+  statusEffects,
+  projectiles,
+  projectileSnapshots,
+  projectileImpacts,
+  onProjectileImpactComplete,
+  arenaTint = null,
+  flags,
+  zone = null,
+  npcs,
+  npcSnapshots,
+  mapDefinition = null,
+  mapTiles,
+  isDebugPanelVisible = false, // Destructure the new prop
+  onOpenMapEditor
 }) => {
   // Ref for the main directional light
   const directionalLightRef = useRef<THREE.DirectionalLight>(null!); 
 
-  // State for HexGrid parameters
-  const [gridRadius, setGridRadius] = useState<number>(20);
-  const [baseScaleFactor, setBaseScaleFactor] = useState<number>(0.25);
-  const [pathScaleFactor, setPathScaleFactor] = useState<number>(0.02);
-  const [arenaScaleFactor, setArenaScaleFactor] = useState<number>(0.3);
+  // HexGrid display parameters; the map's shape comes from the server (map_logic.rs)
   const [borderColorFactor, setBorderColorFactor] = useState<number>(-0.3);
 
   const [dpr, setDpr] = useState(2)
 
+  // Whole hex steps of the shrinking zone, for HexGrid's darkened tiles; the ring follows every frame
+  const [zoneHexRadius, setZoneHexRadius] = useState<number | null>(null);
+  useEffect(() => {
+    if (!zone) {
+      setZoneHexRadius(null);
+      return;
+    }
+    const update = () => setZoneHexRadius(Math.floor(getZoneRadius(zone, Date.now())));
+    update();
+    const interval = window.setInterval(update, ZONE_REFRESH_MS);
+    return () => window.clearInterval(interval);
+  }, [zone]);
+
   return (
     <>
       <Canvas 
@@ -120,16 +179,19 @@ export const GameScene: React.FC<GameSceneProps> = ({
         /> */}
         <HexGrid 
           position={[0, 0, 0]} 
-          gridRadius={gridRadius}
-          baseScaleFactor={baseScaleFactor}
-          pathScaleFactor={pathScaleFactor}
-          arenaScaleFactor={arenaScaleFactor}
+          tiles={mapTiles}
+          hexSize={mapDefinition?.hexSize}
+          levelHeight={mapDefinition?.levelHeight}
           borderColorFactor={borderColorFactor}
+          arenaTint={arenaTint}
+          zone={zone && zoneHexRadius !== null ? { q: zone.centerQ, r: zone.centerR, radius: zoneHexRadius } : null}
         />
+        {zone && <ZoneRing zone={zone} />}
 
         {/* Render Players */}
         {Array.from(players.values()).map((player) => {
           const isLocal = localPlayerIdentity?.toHexString() === player.identity.toHexString();
+          const carriedFlag = flags ? getCarriedFlag(flags, player.identity) : undefined;
           return (
             <Player 
               key={player.identity.toHexString()} 
@@ -137,26 +199,50 @@ export const GameScene: React.FC<GameSceneProps> = ({
               isLocalPlayer={isLocal}
               onRotationChange={isLocal ? onPlayerRotation : undefined}
               currentInput={isLocal ? currentInputRef?.current : undefined}
+              predictionBuffer={isLocal ? predictionBuffer : undefined}
+              snapshotBuffer={isLocal ? undefined : snapshotStore?.get(player.identity.toHexString())}
+              combatEvents={combatEvents}
+              statusEffects={getEffectsOn(statusEffects, player.identity)}
+              carriedFlagColor={carriedFlag ? getTeamColor(carriedFlag.team) : null}
               isDebugArrowVisible={isLocal ? isDebugPanelVisible : false} // Pass down arrow visibility
               isDebugPanelVisible={isDebugPanelVisible} // Pass down general debug visibility
             />
           );
         })}
 
+        {/* Creep wave minions, interpolated like remote players */}
+        {npcs && Array.from(npcs.entries()).map(([key, npc]) => (
+          <Npc key={key} npc={npc} snapshotBuffer={npcSnapshots?.get(key)} />
+        ))}
+
+        {/* Flags at their base or dropped; carried flags are drawn on the carrier */}
+        {flags && Array.from(flags.values())
+          .filter(flag => flag.state !== FLAG_STATES.CARRIED)
+          .map(flag => <Flag key={flag.team} flag={flag} />)}
+
+        {/* Render Projectiles */}
+        {projectiles && Array.from(projectiles.entries()).map(([key, projectile]) => (
+          <Projectile
+            key={key}
+            projectile={projectile}
+            snapshotBuffer={projectileSnapshots?.get(key)}
+          />
+        ))}
+        {projectileImpacts?.map((impact) => (
+          <ProjectileImpact
+            key={impact.key}
+            impact={impact}
+            onComplete={(key) => onProjectileImpactComplete?.(key)}
+          />
+        ))}
+
         {/* Remove OrbitControls as we're using our own camera controls */}
       </Canvas>
       {isDebugPanelVisible && (
         <MapGUI 
-          onGridRadiusChange={setGridRadius}
-          onBaseScaleFactorChange={setBaseScaleFactor}
-          onPathScaleFactorChange={setPathScaleFactor}
-          onArenaScaleFactorChange={setArenaScaleFactor}
           onBorderColorFactorChange={setBorderColorFactor}
-          initialGridRadius={gridRadius}
-          initialBaseScaleFactor={baseScaleFactor}
-          initialPathScaleFactor={pathScaleFactor}
-          initialArenaScaleFactor={arenaScaleFactor}
           initialBorderColorFactor={borderColorFactor}
+          onOpenMapEditor={onOpenMapEditor}
         />
       )}
     </>
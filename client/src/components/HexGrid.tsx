@@ -1,68 +1,115 @@
 import React, { useEffect, useRef } from 'react';
 import * as THREE from 'three';
 import { useThree } from '@react-three/fiber';
+import * as moduleBindings from '../generated';
+import { HEX_SIZE, LEVEL_HEIGHT, TILE_TYPES, hexDistance, hexToWorld } from '../game/map';
+
+type MapTile = moduleBindings.MapTile;
 
 interface HexGridProps {
-  gridRadius?: number;
+  tiles: ReadonlyMap<string, MapTile>; // Published map tiles (server/src/map_logic.rs); nothing is drawn until they arrive
+  hexSize?: number; // From map_definition
+  levelHeight?: number; // From map_definition; world height of one elevation level
   position?: [number, number, number];
-  baseScaleFactor?: number;
-  pathScaleFactor?: number;
-  arenaScaleFactor?: number;
   borderColorFactor?: number;
-  mapColor?: { r: number; g: number; b: number };
+  mapColor?: { r: number; g: number; b: number }; // Floor tiles
+  wallColor?: { r: number; g: number; b: number };
+  hazardColor?: { r: number; g: number; b: number };
   arenaColor?: { r: number; g: number; b: number };
   pathColor?: { r: number; g: number; b: number };
   baseColors?: Array<{ r: number; g: number; b: number }>;
+  arenaTint?: string | null; // CSS color replacing arenaColor, e.g. the team holding the hill
+  zone?: HexZone | null; // Battle royale safe zone; hexes outside it are darkened
+}
+
+// Hexes farther than `radius` steps from the axial center (q, r) lie outside the zone
+export interface HexZone {
+  q: number;
+  r: number;
+  radius: number;
 }
 
+interface HexCell {
+  q: number;
+  r: number;
+  color: THREE.Color;
+}
+
+const OUTSIDE_ZONE_COLOR = new THREE.Color(0.35, 0, 0);
+const OUTSIDE_ZONE_BLEND = 0.7;
+// Thickness of one hex slab; raised tiles are stretched down to the lowest tile's slab
+const TILE_THICKNESS = 0.5;
+// Walls stand this far above their elevation
+const WALL_HEIGHT = 2.5;
+// Spawn tiles are their base's color, this much lighter
+const SPAWN_LIGHTEN = 0.45;
+
+// Simple stand-ins for the tile props (see PROPS in game/map.ts); `lift` puts them on the tile surface
+const PROP_MODELS: Record<string, { createGeometry: () => THREE.BufferGeometry; color: string; lift: number }> = {
+  rock: { createGeometry: () => new THREE.DodecahedronGeometry(0.8), color: '#7a7a7a', lift: 0.5 },
+  tree: { createGeometry: () => new THREE.ConeGeometry(1, 3, 8), color: '#2f7d32', lift: 1.5 },
+  crate: { createGeometry: () => new THREE.BoxGeometry(1.2, 1.2, 1.2), color: '#a0522d', lift: 0.6 },
+};
+
 export const HexGrid: React.FC<HexGridProps> = ({
-  gridRadius = 25,
+  tiles,
+  hexSize = HEX_SIZE,
+  levelHeight = LEVEL_HEIGHT,
   position = [0, 0, 0],
-  baseScaleFactor = 0.25,
-  pathScaleFactor = 0.02,
-  arenaScaleFactor = 0.3,
   borderColorFactor = -0.3,
   mapColor = { r: 0.533, g: 0.533, b: 0.533 },
+  wallColor = { r: 0.25, g: 0.22, b: 0.2 },
+  hazardColor = { r: 1, g: 0.35, b: 0 },
   arenaColor = { r: 1, g: 1, b: 0 },
   pathColor = { r: 1, g: 1, b: 1 },
+  // One base per team, in the order of TEAMS in game/teams.ts
   baseColors = [
     { r: 1, g: 0, b: 0 },
     { r: 0, g: 1, b: 0 },
     { r: 0, g: 0, b: 1 }
-  ]
+  ],
+  arenaTint = null,
+  zone = null
 }) => {
   const { scene } = useThree();
   const hexGridRef = useRef<any>(null);
+  // Read when the grid is rebuilt, so a rebuild keeps the current tint and zone
+  const arenaTintRef = useRef(arenaTint);
+  arenaTintRef.current = arenaTint;
+  const zoneRef = useRef(zone);
+  zoneRef.current = zone;
 
   useEffect(() => {
     if (!scene) return;
 
     class MapFactory {
       scene: THREE.Scene;
-      gridRadius: number;
-      cellCount: number;
-      baseScaleFactor: number;
-      pathScaleFactor: number;
-      arenaScaleFactor: number;
+      tiles: ReadonlyMap<string, MapTile>;
+      hexSize: number;
+      levelHeight: number;
       borderColorFactor: number;
       arenaColor: { r: number; g: number; b: number };
       pathColor: { r: number; g: number; b: number };
       baseColors: Array<{ r: number; g: number; b: number }>;
       mapColor: { r: number; g: number; b: number };
+      wallColor: { r: number; g: number; b: number };
+      hazardColor: { r: number; g: number; b: number };
       hexMeshes: THREE.InstancedMesh[] = []; // Store references to meshes
+      arenaMesh: THREE.InstancedMesh | null = null; // Recolored with the arena tint
+      meshCells = new Map<THREE.InstancedMesh, HexCell[]>(); // Cells of each mesh, in instance order
 
       constructor(scene: THREE.Scene) {
         this.scene = scene;
-        this.gridRadius = gridRadius;
-        this.cellCount = this._calculateHexGridCellCount(this.gridRadius);
-        this.baseScaleFactor = baseScaleFactor;
-        this.pathScaleFactor = pathScaleFactor;
-        this.arenaScaleFactor = arenaScaleFactor;
+        this.tiles = tiles;
+        this.hexSize = hexSize;
+        this.levelHeight = levelHeight;
         this.borderColorFactor = borderColorFactor;
         this.arenaColor = arenaColor;
         this.pathColor = pathColor;
         this.baseColors = baseColors;
         this.mapColor = mapColor;
+        this.wallColor = wallColor;
+        this.hazardColor = hazardColor;
       }
 
       _createHexGeometry(size: number, borderColor: THREE.Color) {
@@ -72,7 +119,7 @@ export const HexGrid: React.FC<HexGridProps> = ({
         const colors = [];
 
         // Thickness for the land effect (negative to extrude downward)
-        const thickness = 0.5;
+        const thickness = TILE_THICKNESS;
 
         // Outer hex vertices (border) - Top face
         for (let i = 0; i < 6; i++) {
@@ -220,10 +267,6 @@ export const HexGrid: React.FC<HexGridProps> = ({
         return geometry;
       }
 
-      _calculateHexGridCellCount(radius: number) {
-        return 3 * radius * (radius + 1) + 1;
-      }
-
       createHexGrid() {
         // Clear existing meshes before creating new ones
         this.hexMeshes.forEach(mesh => {
@@ -236,14 +279,18 @@ export const HexGrid: React.FC<HexGridProps> = ({
           }
         });
         this.hexMeshes = [];
+        this.arenaMesh = null;
+        this.meshCells.clear();
 
-        const size = 3;
-        const radius = this.gridRadius;
+        const size = this.hexSize;
 
         const gray = new THREE.Color(this.mapColor.r, this.mapColor.g, this.mapColor.b);
         const baseColors = this.baseColors.map(c => new THREE.Color(c.r, c.g, c.b));
         const arenaColor = new THREE.Color(this.arenaColor.r, this.arenaColor.g, this.arenaColor.b);
         const pathColor = new THREE.Color(this.pathColor.r, this.pathColor.g, this.pathColor.b);
+        const wallColor = new THREE.Color(this.wallColor.r, this.wallColor.g, this.wallColor.b);
+        const hazardColor = new THREE.Color(this.hazardColor.r, this.hazardColor.g, this.hazardColor.b);
+        const spawnColors = baseColors.map(color => color.clone().lerp(new THREE.Color(0xffffff), SPAWN_LIGHTEN));
 
         // Calculate border colors for each layer
         const grayBorder = gray.clone();
@@ -271,6 +318,8 @@ export const HexGrid: React.FC<HexGridProps> = ({
         const grayHexGeometry = this._createHexGeometry(size, grayBorder);
         const pathHexGeometry = this._createHexGeometry(size, pathBorder);
         const arenaHexGeometry = this._createHexGeometry(size, arenaBorder);
+        const wallHexGeometry = this._createHexGeometry(size, wallColor.clone().lerp(new THREE.Color(0x000000), 0.3));
+        const hazardHexGeometry = this._createHexGeometry(size, hazardColor.clone().lerp(new THREE.Color(0x000000), 0.3));
         const baseHexGeometries = baseColors.map(color => {
           const borderColor = color.clone();
           if (this.borderColorFactor < 0) {
@@ -281,76 +330,45 @@ export const HexGrid: React.FC<HexGridProps> = ({
           return this._createHexGeometry(size, borderColor);
         });
 
-        const arenaRadius = Math.floor(radius * this.arenaScaleFactor || radius * 0.5);
-        const baseRadius = Math.floor(radius * this.baseScaleFactor || radius * 0.3);
-        const pathWidth = Math.floor(radius * this.pathScaleFactor || 2);
-
-        const isInArena = (q: number, r: number) => {
-          const s = -q - r;
-          return Math.max(Math.abs(q), Math.abs(r), Math.abs(s)) <= arenaRadius;
-        };
-
-        const isInBase = (q: number, r: number) => {
-          const basePositions = [
-            { q: radius, r: -radius },
-            { q: -radius, r: 0 },
-            { q: 0, r: radius }
-          ];
-          for (let i = 0; i < basePositions.length; i++) {
-            const base = basePositions[i];
-            const dq = q - base.q;
-            const dr = r - base.r;
-            const ds = dq + dr;
-            const dist = Math.max(Math.abs(dq), Math.abs(dr), Math.abs(ds));
-            if (dist <= baseRadius) return { isBase: true, baseIndex: i };
-          }
-          return { isBase: false, baseIndex: -1 };
-        };
-
-        const isOnPath = (q: number, r: number) => {
-          const paths = [
-            { start: { q: radius, r: -radius }, step: { dq: -1, dr: 1 } },
-            { start: { q: -radius, r: 0 }, step: { dq: 1, dr: 0 } },
-            { start: { q: 0, r: radius }, step: { dq: 0, dr: -1 } }
-          ];
-          for (const path of paths) {
-            let currentQ = path.start.q;
-            let currentR = path.start.r;
-            while (!(currentQ === 0 && currentR === 0) && Math.abs(currentQ) <= radius && Math.abs(currentR) <= radius) {
-              const dq = q - currentQ;
-              const dr = r - currentR;
-              const ds = dq + dr;
-              const dist = Math.max(Math.abs(dq), Math.abs(dr), Math.abs(ds));
-              if (dist <= pathWidth) return true;
-              currentQ += path.step.dq;
-              currentR += path.step.dr;
-            }
-          }
-          return false;
-        };
-
         const layers = [
           { name: 'paths', color: pathColor, cells: [], geometry: pathHexGeometry },
           { name: 'bases', color: baseColors, cells: [], geometry: baseHexGeometries },
-          { name: 'arena', color: arenaColor, cells: [], geometry: arenaHexGeometry }
+          { name: 'arena', color: arenaColor, cells: [], geometry: arenaHexGeometry },
+          { name: 'floor', color: gray, cells: [], geometry: grayHexGeometry },
+          { name: 'walls', color: wallColor, cells: [], geometry: wallHexGeometry },
+          { name: 'hazards', color: hazardColor, cells: [], geometry: hazardHexGeometry }
         ];
-
-        for (let q = -radius; q <= radius; q++) {
-          for (let r = Math.max(-radius, -q - radius); r <= Math.min(radius, -q + radius); r++) {
-            const x = size * (Math.sqrt(3) * q + Math.sqrt(3) / 2 * r);
-            const z = size * (3 / 2 * r);
-            const position = new THREE.Vector3(x, 0, z);
-
-            const baseCheck = isInBase(q, r);
-            if (baseCheck.isBase && baseCheck.baseIndex >= 0 && baseCheck.baseIndex < baseColors.length) {
-              layers[1].cells.push({ q, r, position, color: baseColors[baseCheck.baseIndex], baseIndex: baseCheck.baseIndex });
-            } else if (isInArena(q, r)) {
-              layers[2].cells.push({ q, r, position, color: arenaColor });
-            } else if (isOnPath(q, r)) {
-              layers[0].cells.push({ q, r, position, color: pathColor });
-            }
+        const props: Array<{ prop: string; position: THREE.Vector3 }> = [];
+
+        // Every tile's column reaches down to the bottom of the lowest tile, so cliffs have no gaps
+        const lowest = Math.min(0, ...Array.from(this.tiles.values(), tile => tile.elevation * this.levelHeight));
+
+        // The server already classified every hex; each tile only picks its layer
+        this.tiles.forEach(({ q, r, tileType, baseIndex, elevation, prop }) => {
+          const { x, z } = hexToWorld(q, r, size);
+          const ground = elevation * this.levelHeight;
+          const height = tileType === TILE_TYPES.WALL ? ground + WALL_HEIGHT : ground;
+          const position = new THREE.Vector3(x, height, z);
+          const depth = (height - lowest + TILE_THICKNESS) / TILE_THICKNESS;
+
+          if (tileType === TILE_TYPES.BASE && baseIndex !== undefined && baseIndex < baseColors.length) {
+            layers[1].cells.push({ q, r, position, depth, color: baseColors[baseIndex], baseIndex });
+          } else if (tileType === TILE_TYPES.SPAWN && baseIndex !== undefined && baseIndex < baseColors.length) {
+            // Drawn with their base, with the base's border
+            layers[1].cells.push({ q, r, position, depth, color: spawnColors[baseIndex], baseIndex });
+          } else if (tileType === TILE_TYPES.ARENA) {
+            layers[2].cells.push({ q, r, position, depth, color: arenaColor });
+          } else if (tileType === TILE_TYPES.PATH) {
+            layers[0].cells.push({ q, r, position, depth, color: pathColor });
+          } else if (tileType === TILE_TYPES.FLOOR) {
+            layers[3].cells.push({ q, r, position, depth, color: gray });
+          } else if (tileType === TILE_TYPES.WALL) {
+            layers[4].cells.push({ q, r, position, depth, color: wallColor });
+          } else if (tileType === TILE_TYPES.HAZARD) {
+            layers[5].cells.push({ q, r, position, depth, color: hazardColor });
           }
-        }
+          if (prop && PROP_MODELS[prop]) props.push({ prop, position });
+        });
 
         const dummy = new THREE.Object3D();
         const material = new THREE.MeshBasicMaterial({ vertexColors: true });
@@ -374,6 +392,7 @@ export const HexGrid: React.FC<HexGridProps> = ({
               baseCells.forEach((cell: any, i: number) => {
                 dummy.position.copy(cell.position);
                 dummy.rotation.x = Math.PI;
+                dummy.scale.set(1, cell.depth, 1);
                 dummy.updateMatrix();
                 hexMesh.setMatrixAt(i, dummy.matrix);
                 hexMesh.setColorAt(i, cell.color);
@@ -383,6 +402,7 @@ export const HexGrid: React.FC<HexGridProps> = ({
               hexMesh.instanceColor.needsUpdate = true;
               this.scene.add(hexMesh);
               this.hexMeshes.push(hexMesh); // Store reference
+              this.meshCells.set(hexMesh, baseCells);
             });
           } else {
             const hexMesh = new THREE.InstancedMesh(layer.geometry as THREE.BufferGeometry, material, layer.cells.length);
@@ -390,6 +410,7 @@ export const HexGrid: React.FC<HexGridProps> = ({
             layer.cells.forEach((cell: any, i: number) => {
               dummy.position.copy(cell.position);
               dummy.rotation.x = Math.PI;
+              dummy.scale.set(1, cell.depth, 1);
               dummy.updateMatrix();
               hexMesh.setMatrixAt(i, dummy.matrix);
               hexMesh.setColorAt(i, cell.color);
@@ -399,23 +420,59 @@ export const HexGrid: React.FC<HexGridProps> = ({
             hexMesh.instanceColor.needsUpdate = true;
             this.scene.add(hexMesh);
             this.hexMeshes.push(hexMesh); // Store reference
+            this.meshCells.set(hexMesh, layer.cells);
+            if (layer.name === 'arena') this.arenaMesh = hexMesh;
           }
         });
+
+        // Props are lit like the characters; one instanced mesh per kind
+        Object.entries(PROP_MODELS).forEach(([prop, model]) => {
+          const placed = props.filter(placedProp => placedProp.prop === prop);
+          if (placed.length === 0) return;
+          const propMesh = new THREE.InstancedMesh(model.createGeometry(), new THREE.MeshStandardMaterial({ color: model.color }), placed.length);
+          placed.forEach(({ position }, i) => {
+            dummy.position.set(position.x, position.y + model.lift, position.z);
+            dummy.rotation.set(0, 0, 0);
+            dummy.scale.set(1, 1, 1);
+            dummy.updateMatrix();
+            propMesh.setMatrixAt(i, dummy.matrix);
+          });
+          propMesh.instanceMatrix.needsUpdate = true;
+          propMesh.castShadow = true;
+          this.scene.add(propMesh);
+          this.hexMeshes.push(propMesh);
+        });
+
+        this.applyOverlays(arenaTintRef.current, zoneRef.current);
+      }
+
+      // Recolor the tiles in place: the arena takes `tint` (arenaColor when null),
+      // and every hex outside `zone` is darkened towards red
+      applyOverlays(tint: string | null, zone: HexZone | null) {
+        const arenaTintColor = tint ? new THREE.Color(tint) : null;
+        const color = new THREE.Color();
+        this.meshCells.forEach((cells, mesh) => {
+          cells.forEach((cell, i) => {
+            color.copy(mesh === this.arenaMesh && arenaTintColor ? arenaTintColor : cell.color);
+            if (zone && hexDistance(cell.q, cell.r, zone.q, zone.r) > zone.radius) {
+              color.lerp(OUTSIDE_ZONE_COLOR, OUTSIDE_ZONE_BLEND);
+            }
+            mesh.setColorAt(i, color);
+          });
+          if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+        });
       }
 
       updateGrid() {
         // Only update if grid parameters have changed significantly
-        if (this.gridRadius !== gridRadius || 
-            this.baseScaleFactor !== baseScaleFactor || 
-            this.pathScaleFactor !== pathScaleFactor || 
-            this.arenaScaleFactor !== arenaScaleFactor || 
+        if (this.tiles !== tiles || 
+            this.hexSize !== hexSize || 
+            this.levelHeight !== levelHeight ||
             this.borderColorFactor !== borderColorFactor) {
-          this.gridRadius = gridRadius;
-          this.baseScaleFactor = baseScaleFactor;
-          this.pathScaleFactor = pathScaleFactor;
-          this.arenaScaleFactor = arenaScaleFactor;
+          this.tiles = tiles;
+          this.hexSize = hexSize;
+          this.levelHeight = levelHeight;
           this.borderColorFactor = borderColorFactor;
-          this.cellCount = this._calculateHexGridCellCount(this.gridRadius);
           this.createHexGrid();
         }
       }
@@ -438,7 +495,18 @@ export const HexGrid: React.FC<HexGridProps> = ({
         });
       }
     };
-  }, [scene, gridRadius, baseScaleFactor, pathScaleFactor, arenaScaleFactor, borderColorFactor, mapColor, arenaColor, pathColor, baseColors]); // Update on prop changes
+  }, [scene, tiles, hexSize, levelHeight, borderColorFactor, mapColor, wallColor, hazardColor, arenaColor, pathColor, baseColors]); // Update on prop changes
+
+  // Recolor in place instead of rebuilding the grid
+  const zoneQ = zone?.q;
+  const zoneR = zone?.r;
+  const zoneRadius = zone?.radius;
+  useEffect(() => {
+    const currentZone = zoneQ === undefined || zoneR === undefined || zoneRadius === undefined
+      ? null
+      : { q: zoneQ, r: zoneR, radius: zoneRadius };
+    hexGridRef.current?.applyOverlays(arenaTint, currentZone);
+  }, [arenaTint, zoneQ, zoneR, zoneRadius]);
 
   return null;
 }; 
\ No newline at end of file
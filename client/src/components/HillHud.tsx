@@ -0,0 +1,61 @@
+/**
+ * HillHud.tsx
+ *
+ * King of the hill panel below the match banner:
+ *
+ * Key functionality:
+ * - One bar per team filling up to HILL_POINTS_TO_WIN
+ * - Control status: neutral, held, being captured or contested
+ * - Capture progress bar in the capturing team's color
+ *
+ * Props:
+ * - hillState: The hill_state singleton row
+ * - teamScores: team_score rows, keyed by team id
+ *
+ * Related files:
+ * - App.tsx: Tracks hill_state and team_score, renders the panel in king of the hill
+ * - game/hill.ts: Status text and the points target
+ * - server/src/hill_logic.rs: Capture and scoring
+ */
+
+import React from 'react';
+import { HillState, TeamScore } from '../generated';
+import { HILL_POINTS_TO_WIN, getHillStatus } from '../game/hill';
+import { TEAMS, getTeamColor } from '../game/teams';
+
+interface HillHudProps {
+  hillState: HillState;
+  teamScores: ReadonlyMap<string, TeamScore>;
+}
+
+export const HillHud: React.FC<HillHudProps> = ({ hillState, teamScores }) => {
+  const showCapture = !!hillState.capturingTeam && hillState.captureProgress > 0;
+
+  return (
+    <div className={`hill-hud${hillState.contested ? ' contested' : ''}`}>
+      <div className="hill-status" style={{ color: hillState.contested ? undefined : getTeamColor(hillState.controllingTeam) }}>
+        {getHillStatus(hillState)}
+      </div>
+      {showCapture && (
+        <div className="hill-capture">
+          <div
+            className="hill-capture-fill"
+            style={{ width: `${Math.min(1, hillState.captureProgress) * 100}%`, background: getTeamColor(hillState.capturingTeam) }}
+          />
+        </div>
+      )}
+      {TEAMS.map(team => {
+        const points = teamScores.get(team.id)?.points ?? 0;
+        return (
+          <div key={team.id} className={`hill-team${hillState.controllingTeam === team.id ? ' controlling' : ''}`}>
+            <span className="hill-team-name" style={{ color: team.color }}>{team.name}</span>
+            <div className="hill-team-bar">
+              <div className="hill-team-fill" style={{ width: `${Math.min(1, points / HILL_POINTS_TO_WIN) * 100}%`, background: team.color }} />
+            </div>
+            <span className="hill-team-points">{points}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+/**
+ * HitMarker.tsx
+ *
+ * Center-screen crosshair that pulses when the local player lands a hit:
+ *
+ * Key functionality:
+ * - Always-visible crosshair while playing
+ * - Pulses on every server-confirmed hit by the local player, bigger and red
+ *   for critical hits; damage-over-time ticks do not pulse
+ *
+ * Props:
+ * - combatEvents: Recent combat_event rows (App.tsx state)
+ * - attacker: The local player's identity
+ *
+ * Technical implementation:
+ * - Remembers the newest event id it has handled (same pattern as PlayerUI)
+ * - The pulse is a CSS animation restarted by changing the element key
+ *
+ * Related files:
+ * - App.tsx: Renders the marker next to PlayerUI
+ * - game/combatEvents.ts: getNewHitsBy
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Identity } from '@clockworklabs/spacetimedb-sdk';
+import { CombatEvent } from '../generated';
+import { latestCombatEventId, getNewHitsBy } from '../game/combatEvents';
+
+interface HitMarkerProps {
+  combatEvents?: CombatEvent[];
+  attacker: Identity;
+}
+
+export const HitMarker: React.FC<HitMarkerProps> = ({ combatEvents, attacker }) => {
+  const [pulse, setPulse] = useState<{ key: number; critical: boolean } | null>(null);
+  const lastCombatEventIdRef = useRef<bigint>(latestCombatEventId(combatEvents));
+
+  useEffect(() => {
+    const hits = getNewHitsBy(combatEvents, attacker, lastCombatEventIdRef.current)
+      .filter(hit => hit.kind !== 'burn' && hit.target.toHexString() !== attacker.toHexString());
+    const newestId = latestCombatEventId(combatEvents);
+    if (newestId > lastCombatEventIdRef.current) lastCombatEventIdRef.current = newestId;
+    if (hits.length === 0) return;
+
+    setPulse((prev) => ({ key: (prev?.key ?? 0) + 1, critical: hits.some(hit => hit.critical) }));
+  }, [combatEvents, attacker]);
+
+  return (
+    <div className="crosshair">
+      <div className="crosshair-dot" />
+      {pulse && (
+        <div key={pulse.key} className={`hit-marker${pulse.critical ? ' critical' : ''}`} />
+      )}
+    </div>
+  );
+};
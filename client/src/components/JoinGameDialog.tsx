@@ -5,6 +5,8 @@
  * 
  * Key functionality:
  * - Provides a UI for player name entry and character selection
+ * - Offers a team choice (or automatic balancing); the server may still move
+ *   the player to a smaller team
  * - Validates user input before allowing game entry
  * - Displays character class options with visual previews
  * - Handles initial connection to the game server
@@ -25,22 +27,25 @@
  * - GameScene.tsx: Main game environment that loads after joining
  * - Player.tsx: Character implementation that uses selected options
  * - PlayerClassPreview.tsx: Visual preview of selectable characters
+ * - game/teams.ts: Team ids and names
  */
 
 import React, { useState, Suspense } from 'react';
+import { TEAMS, AUTO_TEAM } from '../game/teams';
 
 interface JoinGameDialogProps {
-  onJoin: (username: string, characterClass: string) => void;
+  onJoin: (username: string, characterClass: string, team: string) => void;
 }
 
 export const JoinGameDialog: React.FC<JoinGameDialogProps> = ({ onJoin }) => {
   const [username, setUsername] = useState('Adventurer');
   const [characterClass, setCharacterClass] = useState('Wizard');
+  const [team, setTeam] = useState(AUTO_TEAM);
 
   const handleSubmit = (event: React.FormEvent) => {
     event.preventDefault();
     const finalUsername = username.trim() || `Player${Math.floor(Math.random() * 1000)}`;
-    onJoin(finalUsername, characterClass);
+    onJoin(finalUsername, characterClass, team);
   };
 
   return (
@@ -71,6 +76,20 @@ export const JoinGameDialog: React.FC<JoinGameDialogProps> = ({ onJoin }) => {
             {/* Add more classes later */}
           </select>
         </div>
+        <div style={styles.inputGroup}>
+          <label htmlFor="team" style={styles.label}>Team:</label>
+          <select
+            id="team"
+            value={team}
+            onChange={(e) => setTeam(e.target.value)}
+            style={styles.select}
+          >
+            <option value={AUTO_TEAM}>Auto (balance teams)</option>
+            {TEAMS.map(info => (
+              <option key={info.id} value={info.id}>{info.name}</option>
+            ))}
+          </select>
+        </div>
         <button type="submit" style={styles.button}>Join Game</button>
       </form>
     </div>
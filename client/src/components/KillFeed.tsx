@@ -0,0 +1,57 @@
+/**
+ * KillFeed.tsx
+ *
+ * Recent kills in the top-right corner of the screen ("Adventurer ⚔ Player42"):
+ *
+ * Key functionality:
+ * - One line per kill_feed row, newest at the bottom
+ * - Icon of the killing blow's kind (melee, spell, burn, zone, minion, fall, hazard);
+ *   deaths to the zone, a creep minion, a fall or a hazard tile show only the victim
+ * - Highlights lines involving the local player
+ *
+ * Props:
+ * - entries: Recent kill_feed rows (App.tsx state), oldest first
+ * - localPlayerIdentity: Identity of the local player, for highlighting
+ *
+ * Technical implementation:
+ * - The server deletes rows after KILL_FEED_LIFETIME_SECS, which removes the
+ *   lines here; the CSS only fades them in
+ *
+ * Related files:
+ * - App.tsx: Collects kill_feed rows into React state
+ * - game/scoreboard.ts: getKillIcon
+ * - server/src/stats_logic.rs: Inserts and expires the rows
+ */
+
+import React from 'react';
+import { Identity } from '@clockworklabs/spacetimedb-sdk';
+import { KillFeedEntry } from '../generated';
+import { getKillIcon } from '../game/scoreboard';
+
+interface KillFeedProps {
+  entries: KillFeedEntry[];
+  localPlayerIdentity: Identity | null;
+}
+
+export const KillFeed: React.FC<KillFeedProps> = ({ entries, localPlayerIdentity }) => {
+  if (entries.length === 0) return null;
+  const localHex = localPlayerIdentity?.toHexString();
+
+  return (
+    <div className="kill-feed">
+      {entries.map(entry => {
+        const involvesLocal = entry.killer.toHexString() === localHex || entry.victim.toHexString() === localHex;
+        return (
+          <div key={entry.id.toString()} className={`kill-feed-entry${involvesLocal ? ' local' : ''}`}>
+            {/* Deaths without a killer (the battle royale zone, creep minions, falls, hazard tiles) credit the victim */}
+            {entry.killer.toHexString() !== entry.victim.toHexString() && (
+              <span className="kill-feed-killer">{entry.killerName}</span>
+            )}
+            <span className="kill-feed-icon">{getKillIcon(entry.kind)}</span>
+            <span className="kill-feed-victim">{entry.victimName}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,400 @@
+/**
+ * MapEditor.tsx
+ *
+ * Full-screen hex map editor, opened from the Map Controls panel (MapGUI.tsx):
+ *
+ * Key functionality:
+ * - Click or drag to paint hexes. The Tile brush sets type (floor, wall, path,
+ *   arena, base, hazard, spawn), the base of base and spawn tiles and the elevation;
+ *   the Elevation and Prop brushes only change existing tiles, Erase empties hexes
+ * - Brush size in hex rings around the hovered hex
+ * - Undo/redo per brush stroke (panel buttons, Ctrl+Z, Ctrl+Y or Ctrl+Shift+Z)
+ * - Starts from the active map; New starts from scratch, Revert reloads the active map
+ * - Import/export of the versioned JSON map format (game/mapFormat.ts)
+ * - Live validation, including every base reaching every other base; upload to
+ *   the server (accepted from admins between rounds only) waits until no problems are left
+ *
+ * Props:
+ * - tiles / definition: The active map (App.tsx map_tile and map_definition rows)
+ * - uploadStatus: Result of the last upload, reported by App.tsx
+ * - onUpload: Sends a valid map to the server (upload_map reducer)
+ * - onClose: Leaves the editor
+ *
+ * Technical implementation:
+ * - Its own Canvas with HexGrid, so the edited map looks exactly like the game's
+ * - Orbit camera on the right (rotate) and middle (pan) mouse buttons and the wheel;
+ *   the left button paints through an invisible plane at height 0, so hexes are
+ *   picked best from above
+ * - lil-gui panel for the brush and the actions, like MapGUI.tsx
+ *
+ * Related files:
+ * - game/mapFormat.ts: File format, conversion and validation
+ * - game/map.ts: Tile types, props and hex math
+ * - HexGrid.tsx: Draws the edited tiles
+ * - App.tsx: Opens the editor and calls upload_map
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas, ThreeEvent } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { GUI } from 'three/addons/libs/lil-gui.module.min.js';
+import * as moduleBindings from '../generated';
+import { HexGrid } from './HexGrid';
+import { HEX_SIZE, PROPS, TILE_TYPES, hexDistance, hexKey, hexToWorld, worldToHex } from '../game/map';
+import {
+  MapFile, MAP_GRID_RADIUS, MIN_ELEVATION, MAX_ELEVATION, MIN_LEVEL_HEIGHT, MAX_LEVEL_HEIGHT,
+  createEmptyMap, createMapFileTile, mapFileFromTiles, parseMap, serializeMap, toMapTiles, validateMap,
+} from '../game/mapFormat';
+import { TEAMS } from '../game/teams';
+
+type MapDefinition = moduleBindings.MapDefinition;
+type MapTile = moduleBindings.MapTile;
+
+const BRUSH_MODES = {
+  TILE: 'tile',
+  ELEVATION: 'elevation',
+  PROP: 'prop',
+  ERASE: 'erase',
+} as const;
+
+const NO_PROP = 'none';
+const MAX_BRUSH_SIZE = 3;
+const MAX_HISTORY = 100; // Strokes kept for undo
+const MAX_LISTED_PROBLEMS = 5;
+const ACTIVE_MAP_NAME = 'Active map';
+const NEW_MAP_NAME = 'New map';
+const PAINT_PLANE_SIZE = 400;
+const BRUSH_MARKER_COLOR = '#ffffff';
+
+interface Brush {
+  mode: string; // BRUSH_MODES value
+  tileType: string;
+  base: number; // Base and spawn tiles
+  elevation: number;
+  prop: string; // PROPS value or NO_PROP
+  size: number; // Rings around the center hex
+}
+
+// Strokes are the undo steps: `past` holds the map before each one
+interface EditorHistory {
+  past: MapFile[];
+  present: MapFile;
+  future: MapFile[];
+}
+
+interface Hex {
+  q: number;
+  r: number;
+}
+
+interface MapEditorProps {
+  tiles: ReadonlyMap<string, MapTile>;
+  definition: MapDefinition | null;
+  uploadStatus?: string | null;
+  onUpload: (map: MapFile) => void;
+  onClose: () => void;
+}
+
+const hexesAround = ({ q, r }: Hex, radius: number): Hex[] => {
+  const hexes: Hex[] = [];
+  for (let dq = -radius; dq <= radius; dq++) {
+    for (let dr = Math.max(-radius, -dq - radius); dr <= Math.min(radius, -dq + radius); dr++) {
+      hexes.push({ q: q + dq, r: r + dr });
+    }
+  }
+  return hexes;
+};
+
+const applyBrush = (map: MapFile, center: Hex, brush: Brush): MapFile => {
+  const tiles = new Map(map.tiles.map(tile => [hexKey(tile.q, tile.r), tile]));
+  const belongsToBase = brush.tileType === TILE_TYPES.BASE || brush.tileType === TILE_TYPES.SPAWN;
+  hexesAround(center, brush.size)
+    .filter(({ q, r }) => hexDistance(q, r, 0, 0) <= MAP_GRID_RADIUS)
+    .forEach(({ q, r }) => {
+      const key = hexKey(q, r);
+      const tile = tiles.get(key);
+      if (brush.mode === BRUSH_MODES.ERASE) {
+        tiles.delete(key);
+      } else if (brush.mode === BRUSH_MODES.TILE) {
+        // Repainting keeps the tile's prop
+        tiles.set(key, createMapFileTile(q, r, brush.tileType, brush.elevation, belongsToBase ? brush.base : undefined, tile?.prop));
+      } else if (tile && brush.mode === BRUSH_MODES.ELEVATION) {
+        tiles.set(key, { ...tile, elevation: brush.elevation });
+      } else if (tile && brush.mode === BRUSH_MODES.PROP) {
+        tiles.set(key, createMapFileTile(q, r, tile.type, tile.elevation, tile.base, brush.prop === NO_PROP ? undefined : brush.prop));
+      }
+    });
+  return { ...map, tiles: Array.from(tiles.values()) };
+};
+
+const downloadMap = (map: MapFile) => {
+  const blob = new Blob([serializeMap(map)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${map.name.trim().replace(/[^\w-]+/g, '-') || 'map'}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Invisible ground plane that turns left-button drags into painted hexes
+const PaintSurface: React.FC<{
+  hexSize: number;
+  onStroke: (hex: Hex, isStart: boolean) => void;
+  onHover: (hex: Hex | null) => void;
+}> = ({ hexSize, onStroke, onHover }) => {
+  const paintingRef = useRef(false);
+  const lastHexRef = useRef<string | null>(null);
+
+  // A stroke may end outside the canvas
+  useEffect(() => {
+    const endStroke = () => {
+      paintingRef.current = false;
+    };
+    window.addEventListener('pointerup', endStroke);
+    return () => window.removeEventListener('pointerup', endStroke);
+  }, []);
+
+  const toHex = (event: ThreeEvent<PointerEvent>): Hex => worldToHex(event.point.x, event.point.z, hexSize);
+
+  return (
+    <mesh
+      rotation={[-Math.PI / 2, 0, 0]}
+      onPointerDown={(event) => {
+        if (event.button !== 0) return;
+        const hex = toHex(event);
+        paintingRef.current = true;
+        lastHexRef.current = hexKey(hex.q, hex.r);
+        onStroke(hex, true);
+      }}
+      onPointerMove={(event) => {
+        const hex = toHex(event);
+        onHover(hex);
+        const key = hexKey(hex.q, hex.r);
+        if (!paintingRef.current || key === lastHexRef.current) return;
+        lastHexRef.current = key;
+        onStroke(hex, false);
+      }}
+      onPointerLeave={() => onHover(null)}
+    >
+      <planeGeometry args={[PAINT_PLANE_SIZE, PAINT_PLANE_SIZE]} />
+      <meshBasicMaterial visible={false} />
+    </mesh>
+  );
+};
+
+export const MapEditor: React.FC<MapEditorProps> = ({ tiles, definition, uploadStatus = null, onUpload, onClose }) => {
+  const [history, setHistory] = useState<EditorHistory>(() => ({
+    past: [],
+    present: mapFileFromTiles(tiles, definition, ACTIVE_MAP_NAME),
+    future: [],
+  }));
+  const [hoveredHex, setHoveredHex] = useState<Hex | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const brushRef = useRef<Brush>({
+    mode: BRUSH_MODES.TILE,
+    tileType: TILE_TYPES.FLOOR,
+    base: 0,
+    elevation: 0,
+    prop: PROPS[0],
+    size: 0,
+  });
+  const [brushSize, setBrushSize] = useState(0); // Mirrors brushRef for the hover marker
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const guiRef = useRef<GUI | null>(null);
+  const guiParamsRef = useRef({ name: history.present.name, levelHeight: history.present.levelHeight });
+
+  const map = history.present;
+  const hexSize = definition?.hexSize ?? HEX_SIZE;
+  const editedTiles = useMemo(() => toMapTiles(map), [map]);
+  const problems = useMemo(() => validateMap(map), [map]);
+
+  // Every change but a stroke's later hexes is its own undo step
+  const commit = (update: (current: MapFile) => MapFile) => {
+    setHistory(({ past, present }) => ({
+      past: [...past, present].slice(-MAX_HISTORY),
+      present: update(present),
+      future: [],
+    }));
+  };
+
+  const handleStroke = (hex: Hex, isStart: boolean) => {
+    const brush = { ...brushRef.current };
+    if (isStart) {
+      commit(current => applyBrush(current, hex, brush));
+    } else {
+      setHistory(current => ({ ...current, present: applyBrush(current.present, hex, brush) }));
+    }
+  };
+
+  const undo = () => {
+    setHistory(({ past, present, future }) => past.length === 0
+      ? { past, present, future }
+      : { past: past.slice(0, -1), present: past[past.length - 1], future: [present, ...future] });
+  };
+
+  const redo = () => {
+    setHistory(({ past, present, future }) => future.length === 0
+      ? { past, present, future }
+      : { past: [...past, present], present: future[0], future: future.slice(1) });
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // The same file can be imported again
+    if (!file) return;
+    try {
+      const imported = parseMap(await file.text());
+      commit(() => imported);
+      setMessage(`Imported ${file.name}`);
+    } catch (error) {
+      setMessage(`Could not import ${file.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const upload = () => {
+    if (problems.length > 0) {
+      setMessage('Fix the problems below before uploading');
+      return;
+    }
+    setMessage(null);
+    onUpload(map);
+  };
+
+  // The panel is built once; its buttons call the latest actions and read the latest map through this ref
+  const actionsRef = useRef({ undo, redo, upload, onClose, commit, map, tiles, definition });
+  actionsRef.current = { undo, redo, upload, onClose, commit, map, tiles, definition };
+
+  useEffect(() => {
+    const gui = new GUI({ title: 'Map Editor' });
+    guiRef.current = gui;
+    // Left side and above the editor overlay (see .map-editor in index.css)
+    gui.domElement.style.left = '15px';
+    gui.domElement.style.right = 'auto';
+    gui.domElement.style.zIndex = '1901';
+
+    const brush = brushRef.current;
+    const brushFolder = gui.addFolder('Brush');
+    brushFolder.add(brush, 'mode', { Tile: BRUSH_MODES.TILE, Elevation: BRUSH_MODES.ELEVATION, Prop: BRUSH_MODES.PROP, Erase: BRUSH_MODES.ERASE }).name('Mode');
+    brushFolder.add(brush, 'tileType', {
+      Floor: TILE_TYPES.FLOOR,
+      Wall: TILE_TYPES.WALL,
+      Path: TILE_TYPES.PATH,
+      Arena: TILE_TYPES.ARENA,
+      Base: TILE_TYPES.BASE,
+      Hazard: TILE_TYPES.HAZARD,
+      Spawn: TILE_TYPES.SPAWN,
+    }).name('Tile Type');
+    brushFolder.add(brush, 'base', Object.fromEntries(TEAMS.map((team, index) => [team.name, index]))).name('Base (base/spawn)');
+    brushFolder.add(brush, 'elevation', MIN_ELEVATION, MAX_ELEVATION, 1).name('Elevation');
+    brushFolder.add(brush, 'prop', Object.fromEntries([['None', NO_PROP], ...PROPS.map(prop => [prop, prop])])).name('Prop');
+    brushFolder.add(brush, 'size', 0, MAX_BRUSH_SIZE, 1).name('Size').onChange((value: number) => setBrushSize(value));
+
+    const params = guiParamsRef.current;
+    const mapFolder = gui.addFolder('Map');
+    mapFolder.add(params, 'name').name('Name').onFinishChange((value: string) => {
+      actionsRef.current.commit(current => ({ ...current, name: value }));
+    });
+    mapFolder.add(params, 'levelHeight', MIN_LEVEL_HEIGHT, MAX_LEVEL_HEIGHT, 0.1).name('Level Height').onFinishChange((value: number) => {
+      actionsRef.current.commit(current => ({ ...current, levelHeight: value }));
+    });
+
+    const actions = {
+      undo: () => actionsRef.current.undo(),
+      redo: () => actionsRef.current.redo(),
+      newMap: () => actionsRef.current.commit(current => createEmptyMap(NEW_MAP_NAME, current.levelHeight)),
+      revert: () => {
+        const { tiles: activeTiles, definition: activeDefinition } = actionsRef.current;
+        actionsRef.current.commit(() => mapFileFromTiles(activeTiles, activeDefinition, ACTIVE_MAP_NAME));
+      },
+      importJson: () => fileInputRef.current?.click(),
+      exportJson: () => downloadMap(actionsRef.current.map),
+      upload: () => actionsRef.current.upload(),
+      close: () => actionsRef.current.onClose(),
+    };
+    gui.add(actions, 'undo').name('Undo (Ctrl+Z)');
+    gui.add(actions, 'redo').name('Redo (Ctrl+Y)');
+    gui.add(actions, 'newMap').name('New Map');
+    gui.add(actions, 'revert').name('Revert to Active Map');
+    gui.add(actions, 'importJson').name('Import JSON');
+    gui.add(actions, 'exportJson').name('Export JSON');
+    gui.add(actions, 'upload').name('Upload to Server');
+    gui.add(actions, 'close').name('Close Editor');
+
+    return () => {
+      gui.destroy();
+      guiRef.current = null;
+    };
+  }, []);
+
+  // Imports, undo and revert change the name and level height under the panel
+  useEffect(() => {
+    guiParamsRef.current.name = map.name;
+    guiParamsRef.current.levelHeight = map.levelHeight;
+    guiRef.current?.controllersRecursive().forEach(controller => controller.updateDisplay());
+  }, [map.name, map.levelHeight]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.target instanceof HTMLInputElement) return;
+      if (event.code === 'KeyZ' && !event.shiftKey) {
+        event.preventDefault();
+        actionsRef.current.undo();
+      } else if (event.code === 'KeyY' || (event.code === 'KeyZ' && event.shiftKey)) {
+        event.preventDefault();
+        actionsRef.current.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const hoveredTile = hoveredHex ? editedTiles.get(hexKey(hoveredHex.q, hoveredHex.r)) : undefined;
+  const markers = hoveredHex ? hexesAround(hoveredHex, brushSize) : [];
+
+  return (
+    <div className="map-editor" onContextMenu={(event) => event.preventDefault()}>
+      <Canvas camera={{ position: [0, 110, 80], fov: 50 }}>
+        <color attach="background" args={['#1b1f24']} />
+        <ambientLight intensity={0.8} />
+        <directionalLight position={[30, 60, 20]} intensity={1.5} />
+        <HexGrid tiles={editedTiles} hexSize={hexSize} levelHeight={map.levelHeight} />
+        <PaintSurface hexSize={hexSize} onStroke={handleStroke} onHover={setHoveredHex} />
+        {markers.map(({ q, r }) => {
+          const { x, z } = hexToWorld(q, r, hexSize);
+          const tile = editedTiles.get(hexKey(q, r));
+          const y = (tile ? tile.elevation * map.levelHeight : 0) + 0.05;
+          return (
+            <mesh key={hexKey(q, r)} position={[x, y, z]} rotation={[-Math.PI / 2, 0, 0]}>
+              <ringGeometry args={[hexSize * 0.8, hexSize * 0.95, 6, 1, Math.PI / 6]} />
+              <meshBasicMaterial color={BRUSH_MARKER_COLOR} side={THREE.DoubleSide} transparent opacity={0.8} />
+            </mesh>
+          );
+        })}
+        <OrbitControls makeDefault mouseButtons={{ MIDDLE: THREE.MOUSE.PAN, RIGHT: THREE.MOUSE.ROTATE }} />
+      </Canvas>
+
+      <div className="map-editor-status">
+        <div className="map-editor-title">{map.name} · {map.tiles.length} tiles</div>
+        <div>
+          {hoveredHex
+            ? `Hex (${hoveredHex.q}, ${hoveredHex.r})${hoveredTile ? `: ${hoveredTile.tileType}, elevation ${hoveredTile.elevation}${hoveredTile.prop ? `, ${hoveredTile.prop}` : ''}` : ': empty'}`
+            : 'Left mouse paints, right mouse orbits, middle mouse pans'}
+        </div>
+        {message && <div className="map-editor-message">{message}</div>}
+        {uploadStatus && <div className="map-editor-message">{uploadStatus}</div>}
+        {problems.length === 0 ? (
+          <div className="map-editor-valid">Valid map: every base reaches every other base</div>
+        ) : (
+          <ul className="map-editor-problems">
+            {problems.slice(0, MAX_LISTED_PROBLEMS).map(problem => <li key={problem}>{problem}</li>)}
+            {problems.length > MAX_LISTED_PROBLEMS && <li>…and {problems.length - MAX_LISTED_PROBLEMS} more</li>}
+          </ul>
+        )}
+      </div>
+
+      <input ref={fileInputRef} type="file" accept=".json,application/json" style={{ display: 'none' }} onChange={handleImportFile} />
+    </div>
+  );
+};
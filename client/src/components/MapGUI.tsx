@@ -1,30 +1,17 @@
 import React, { useEffect, useRef } from 'react';
 import { GUI } from 'three/addons/libs/lil-gui.module.min.js';
 
+// The map's radius and scale factors are generated by the server (map_definition), so only display settings are here
 interface MapGUIProps {
-  onGridRadiusChange?: (value: number) => void;
-  onBaseScaleFactorChange?: (value: number) => void;
-  onPathScaleFactorChange?: (value: number) => void;
-  onArenaScaleFactorChange?: (value: number) => void;
   onBorderColorFactorChange?: (value: number) => void;
-  initialGridRadius?: number;
-  initialBaseScaleFactor?: number;
-  initialPathScaleFactor?: number;
-  initialArenaScaleFactor?: number;
   initialBorderColorFactor?: number;
+  onOpenMapEditor?: () => void;
 }
 
 export const MapGUI: React.FC<MapGUIProps> = ({
-  onGridRadiusChange,
-  onBaseScaleFactorChange,
-  onPathScaleFactorChange,
-  onArenaScaleFactorChange,
   onBorderColorFactorChange,
-  initialGridRadius = 20,
-  initialBaseScaleFactor = 0.25,
-  initialPathScaleFactor = 0.02,
-  initialArenaScaleFactor = 0.3,
-  initialBorderColorFactor = -0.3
+  initialBorderColorFactor = -0.3,
+  onOpenMapEditor
 }) => {
   const guiRef = useRef<GUI | null>(null);
 
@@ -33,43 +20,19 @@ export const MapGUI: React.FC<MapGUIProps> = ({
       guiRef.current = new GUI({ title: 'Map Controls' });
       
       const params = {
-        gridRadius: initialGridRadius,
-        baseScaleFactor: initialBaseScaleFactor,
-        pathScaleFactor: initialPathScaleFactor,
-        arenaScaleFactor: initialArenaScaleFactor,
         borderColorFactor: initialBorderColorFactor
       };
 
-      guiRef.current.add(params, 'gridRadius', 5, 50, 1)
-        .name('Grid Radius')
-        .onChange((value: number) => {
-          if (onGridRadiusChange) onGridRadiusChange(value);
-        });
-
-      guiRef.current.add(params, 'baseScaleFactor', 0.1, 0.5, 0.01)
-        .name('Base Scale Factor')
-        .onChange((value: number) => {
-          if (onBaseScaleFactorChange) onBaseScaleFactorChange(value);
-        });
-
-      guiRef.current.add(params, 'pathScaleFactor', 0.01, 0.1, 0.01)
-        .name('Path Scale Factor')
-        .onChange((value: number) => {
-          if (onPathScaleFactorChange) onPathScaleFactorChange(value);
-        });
-
-      guiRef.current.add(params, 'arenaScaleFactor', 0.1, 0.5, 0.01)
-        .name('Arena Scale Factor')
-        .onChange((value: number) => {
-          if (onArenaScaleFactorChange) onArenaScaleFactorChange(value);
-        });
-
       guiRef.current.add(params, 'borderColorFactor', -1, 1, 0.1)
         .name('Border Color Factor')
         .onChange((value: number) => {
           if (onBorderColorFactorChange) onBorderColorFactorChange(value);
         });
 
+      if (onOpenMapEditor) {
+        guiRef.current.add({ openMapEditor: onOpenMapEditor }, 'openMapEditor').name('Open Map Editor');
+      }
+
       // Add click handler to prevent propagation
       const guiElement = guiRef.current.domElement;
       const handlePanelClick = (event: MouseEvent) => {
@@ -85,16 +48,9 @@ export const MapGUI: React.FC<MapGUIProps> = ({
       }
     };
   }, [
-    onGridRadiusChange, 
-    onBaseScaleFactorChange, 
-    onPathScaleFactorChange, 
-    onArenaScaleFactorChange, 
     onBorderColorFactorChange,
-    initialGridRadius,
-    initialBaseScaleFactor,
-    initialPathScaleFactor,
-    initialArenaScaleFactor,
-    initialBorderColorFactor
+    initialBorderColorFactor,
+    onOpenMapEditor
   ]);
 
   return null;
@@ -0,0 +1,71 @@
+/**
+ * MatchHud.tsx
+ *
+ * Match phase banner at the top of the screen and the pre-round countdown:
+ *
+ * Key functionality:
+ * - Banner with the game mode, phase, round number and remaining time
+ * - Player count while waiting for enough players to start
+ * - Large centered countdown while movement is frozen before a round
+ *
+ * Props:
+ * - matchState: The match_state singleton row
+ * - playerCount: Active players, for the waiting banner
+ *
+ * Technical implementation:
+ * - Re-renders every TIMER_REFRESH_MS while the phase has an end time
+ *
+ * Related files:
+ * - App.tsx: Tracks the match_state row and renders this HUD
+ * - MatchResults.tsx: Shown instead of the countdown once a round has ended
+ * - game/match.ts: Phase labels and timer helpers
+ */
+
+import React, { useEffect, useState } from 'react';
+import { MatchState } from '../generated';
+import { MATCH_PHASES, MIN_PLAYERS_TO_START, getPhaseLabel, getModeLabel, getSecondsLeft, formatClock } from '../game/match';
+
+const TIMER_REFRESH_MS = 250;
+
+interface MatchHudProps {
+  matchState: MatchState;
+  playerCount: number;
+}
+
+export const MatchHud: React.FC<MatchHudProps> = ({ matchState, playerCount }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!matchState.phaseEndsAt) return;
+    const interval = window.setInterval(() => setNow(Date.now()), TIMER_REFRESH_MS);
+    return () => window.clearInterval(interval);
+  }, [matchState.phaseEndsAt]);
+
+  const secondsLeft = getSecondsLeft(matchState, now);
+  const isWaiting = matchState.phase === MATCH_PHASES.WAITING;
+
+  return (
+    <>
+      <div className={`match-banner ${matchState.phase}`}>
+        <div className="match-detail">{getModeLabel(matchState.mode)}</div>
+        <div className="match-phase">
+          {getPhaseLabel(matchState.phase)}
+          {!isWaiting && matchState.round > 0 && <span className="match-round"> · Round {matchState.round}</span>}
+        </div>
+        {isWaiting && (
+          <div className="match-detail">{playerCount}/{MIN_PLAYERS_TO_START} players</div>
+        )}
+        {matchState.phase === MATCH_PHASES.IN_PROGRESS && secondsLeft !== null && (
+          <div className="match-timer">{formatClock(secondsLeft)}</div>
+        )}
+      </div>
+
+      {matchState.phase === MATCH_PHASES.COUNTDOWN && secondsLeft !== null && (
+        <div className="match-countdown">
+          <div className="match-countdown-label">Round {matchState.round} starts in</div>
+          <div key={secondsLeft} className="match-countdown-number">{secondsLeft}</div>
+        </div>
+      )}
+    </>
+  );
+};
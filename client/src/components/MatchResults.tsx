@@ -0,0 +1,105 @@
+/**
+ * MatchResults.tsx
+ *
+ * End-of-round results screen, shown while the match is in the "ended" phase:
+ *
+ * Key functionality:
+ * - Winning team (or a draw) in the team's color
+ * - Team points in objective modes (king of the hill)
+ * - MVP and the other awards of the round
+ * - Final standings of the players still online
+ * - Time until the next round's countdown
+ *
+ * Props:
+ * - matchState: The match_state singleton row
+ * - awards: match_award rows of the finished round
+ * - players: All active players (App.tsx players map)
+ * - teamScores: team_score rows keyed by team id; empty in deathmatch
+ *
+ * Related files:
+ * - App.tsx: Renders the screen in the "ended" phase
+ * - game/match.ts: Award titles and timer helpers
+ * - game/scoreboard.ts: Standings order
+ * - server/src/match_logic.rs: Picks the winner and the awards
+ */
+
+import React, { useEffect, useState } from 'react';
+import { MatchState, MatchAward, PlayerData, TeamScore } from '../generated';
+import { AWARD_INFO, getAwardInfo, getSecondsLeft } from '../game/match';
+import { getScoreboardRows } from '../game/scoreboard';
+import { TEAMS, getTeamInfo, getTeamColor } from '../game/teams';
+
+const TIMER_REFRESH_MS = 250;
+const MAX_STANDINGS = 8;
+
+interface MatchResultsProps {
+  matchState: MatchState;
+  awards: MatchAward[];
+  players: ReadonlyMap<string, PlayerData>;
+  teamScores: ReadonlyMap<string, TeamScore>;
+}
+
+const awardOrder = (award: MatchAward): number => {
+  const index = Object.keys(AWARD_INFO).indexOf(award.award);
+  return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+};
+
+export const MatchResults: React.FC<MatchResultsProps> = ({ matchState, awards, players, teamScores }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), TIMER_REFRESH_MS);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const secondsLeft = getSecondsLeft(matchState, now);
+  const winner = matchState.winningTeam ? getTeamInfo(matchState.winningTeam) : null;
+  const sortedAwards = [...awards].sort((a, b) => awardOrder(a) - awardOrder(b));
+
+  return (
+    <div className="match-results">
+      <div className="match-results-title">Round {matchState.round} results</div>
+      <div className="match-results-winner" style={{ color: winner?.color }}>
+        {winner ? `${winner.name} team wins!` : 'Draw'}
+      </div>
+
+      {teamScores.size > 0 && (
+        <div className="match-team-points">
+          {TEAMS.map(team => (
+            <span key={team.id} style={{ color: team.color }}>
+              {team.name} {teamScores.get(team.id)?.points ?? 0}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {sortedAwards.length > 0 && (
+        <div className="match-awards">
+          {sortedAwards.map(award => {
+            const info = getAwardInfo(award.award);
+            return (
+              <div key={award.id.toString()} className={`match-award ${award.award}`}>
+                <div className="match-award-title">{info.title}</div>
+                <div className="match-award-player" style={{ color: getTeamColor(award.team) }}>{award.playerName}</div>
+                <div className="match-award-value">{award.value} {info.unit}</div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <ol className="match-standings">
+        {getScoreboardRows(players).slice(0, MAX_STANDINGS).map(player => (
+          <li key={player.identity.toHexString()}>
+            <span style={{ color: getTeamColor(player.team) }}>{player.username}</span>
+            <span className="match-standings-score">{player.stats.score}</span>
+          </li>
+        ))}
+      </ol>
+
+      {secondsLeft !== null && (
+        <div className="match-results-next">Next round in {secondsLeft}s</div>
+      )}
+    </div>
+  );
+};
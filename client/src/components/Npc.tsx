@@ -0,0 +1,160 @@
+/**
+ * Npc.tsx
+ *
+ * Renders one creep wave minion from the server's npc table:
+ *
+ * Key functionality:
+ * - Paladin model scaled down to minion size, with a ring in its team color
+ * - Loops the server's current_animation (walk-forward, idle, death)
+ * - Plays one attack per server attack (lastAttackAt) and a hit reaction when
+ *   its health drops, then returns to the looping animation
+ * - Health bar above the head while alive
+ *
+ * Props:
+ * - npc: Row from the npc table
+ * - snapshotBuffer: Received positions for this minion (network/interpolation.ts)
+ *
+ * Technical implementation:
+ * - Model and clips come from the shared character cache (game/characterAssets.ts),
+ *   so a whole wave loads the files once
+ * - Position and yaw are sampled from the snapshot buffer every frame, like
+ *   remote players, falling back to the raw row
+ * - The server's yaw faces -Z (player convention); the model faces +Z, so it is turned half a turn
+ *
+ * Related files:
+ * - GameScene.tsx: Renders the minions
+ * - App.tsx: Tracks npc rows and snapshots
+ * - server/src/npc_logic.rs: Waves, lanes and minion AI
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Billboard } from '@react-three/drei';
+import * as THREE from 'three';
+import * as moduleBindings from '../generated';
+import { SnapshotBuffer } from '../network/interpolation';
+import { CharacterInstance, createCharacterInstance, loadCharacterAssets } from '../game/characterAssets';
+import { getTeamColor } from '../game/teams';
+
+type NpcData = moduleBindings.Npc;
+
+const NPC_CHARACTER_CLASS = 'Paladin';
+const NPC_MODEL_SCALE = 0.7; // Relative to a paladin player
+const ATTACK_ANIMATION = 'attack1';
+const DAMAGE_ANIMATION = 'damage';
+const HEALTH_BAR_WIDTH = 1.2;
+const HEALTH_BAR_HEIGHT = 1.9;
+
+interface NpcProps {
+  npc: NpcData;
+  snapshotBuffer?: SnapshotBuffer;
+}
+
+export const Npc: React.FC<NpcProps> = ({ npc, snapshotBuffer }) => {
+  const group = useRef<THREE.Group>(null!);
+  const [instance, setInstance] = useState<CharacterInstance | null>(null);
+  const currentActionRef = useRef<THREE.AnimationAction | null>(null);
+  const oneShotPlayingRef = useRef(false);
+  const baseAnimationRef = useRef(npc.currentAnimation);
+  // Starts at the current values so joining mid-fight replays nothing
+  const playedAttackRef = useRef<bigint | null>(npc.lastAttackAt?.microsSinceUnixEpoch ?? null);
+  const lastHealthRef = useRef(npc.health);
+  const teamColor = getTeamColor(npc.team);
+
+  useEffect(() => {
+    let cancelled = false;
+    let created: CharacterInstance | null = null;
+    loadCharacterAssets(NPC_CHARACTER_CLASS)
+      .then((assets) => {
+        if (cancelled || !group.current) return;
+        created = createCharacterInstance(assets, NPC_MODEL_SCALE);
+        group.current.add(created.model);
+        setInstance(created);
+      })
+      .catch((error) => console.error(`[Npc ${npc.id}] Error loading the minion model:`, error));
+
+    return () => {
+      cancelled = true;
+      if (created) {
+        created.mixer.stopAllAction();
+        created.model.removeFromParent();
+      }
+    };
+  }, [npc.id]);
+
+  // `restart` replays a one-shot that is still playing
+  const play = (name: string, crossfadeDuration = 0.2, restart = false) => {
+    const action = instance?.actions[name];
+    if (!action || (action === currentActionRef.current && !restart)) return;
+    if (currentActionRef.current && currentActionRef.current !== action) currentActionRef.current.fadeOut(crossfadeDuration);
+    action.reset().setEffectiveTimeScale(1).setEffectiveWeight(1).fadeIn(crossfadeDuration).play();
+    currentActionRef.current = action;
+  };
+
+  // Back to the looping animation once an attack or hit reaction is over
+  useEffect(() => {
+    if (!instance) return;
+    const onFinished = (event: { action: THREE.AnimationAction }) => {
+      if (event.action !== currentActionRef.current || !oneShotPlayingRef.current) return;
+      oneShotPlayingRef.current = false;
+      play(baseAnimationRef.current, 0.1);
+    };
+    instance.mixer.addEventListener('finished', onFinished);
+    return () => instance.mixer.removeEventListener('finished', onFinished);
+  });
+
+  // Looping animation from the server; death cuts any one-shot short
+  useEffect(() => {
+    baseAnimationRef.current = npc.currentAnimation;
+    if (npc.isDead) oneShotPlayingRef.current = false;
+    if (!oneShotPlayingRef.current) play(npc.currentAnimation);
+  });
+
+  // One attack animation per server attack, and a flinch when health drops
+  useEffect(() => {
+    const attackKey = npc.lastAttackAt?.microsSinceUnixEpoch ?? null;
+    const newAttack = attackKey !== null && attackKey !== playedAttackRef.current;
+    const tookDamage = npc.health < lastHealthRef.current;
+    playedAttackRef.current = attackKey;
+    lastHealthRef.current = npc.health;
+    if (!instance || npc.isDead || (!newAttack && !tookDamage)) return;
+
+    oneShotPlayingRef.current = true;
+    play(newAttack ? ATTACK_ANIMATION : DAMAGE_ANIMATION, 0.1, true);
+  });
+
+  useFrame((_state, delta) => {
+    if (!group.current) return;
+    const interpolated = snapshotBuffer?.sample();
+    const position = interpolated?.position ?? npc.position;
+    const yaw = interpolated?.yaw ?? npc.rotation.y;
+    group.current.position.set(position.x, position.y, position.z);
+    group.current.rotation.set(0, yaw + Math.PI, 0);
+    instance?.mixer.update(Math.min(delta, 1 / 30));
+  });
+
+  const healthRatio = npc.maxHealth > 0 ? Math.max(0, npc.health / npc.maxHealth) : 0;
+
+  return (
+    <group ref={group} position={[npc.position.x, npc.position.y, npc.position.z]}>
+      {/* Team ring under the feet */}
+      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.05, 0]}>
+        <ringGeometry args={[0.45, 0.6, 24]} />
+        <meshBasicMaterial color={teamColor} transparent opacity={npc.isDead ? 0.2 : 0.8} />
+      </mesh>
+
+      {!npc.isDead && (
+        <Billboard position={[0, HEALTH_BAR_HEIGHT, 0]}>
+          <mesh>
+            <planeGeometry args={[HEALTH_BAR_WIDTH, 0.12]} />
+            <meshBasicMaterial color="#1a1a1a" />
+          </mesh>
+          <mesh position={[(healthRatio - 1) * HEALTH_BAR_WIDTH / 2, 0, 0.001]} scale={[Math.max(healthRatio, 0.001), 1, 1]}>
+            <planeGeometry args={[HEALTH_BAR_WIDTH, 0.1]} />
+            <meshBasicMaterial color={teamColor} />
+          </mesh>
+        </Billboard>
+      )}
+    </group>
+  );
+};
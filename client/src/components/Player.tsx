@@ -9,7 +9,20 @@
  * - Manages player state synchronization in multiplayer environment
  * - Processes user input for character control (keyboard/mouse)
  * - Handles different player classes with unique visual appearances
+ *   (models and animations shared with creep minions, game/characterAssets.ts)
  * - Distinguishes between local player (user-controlled) and remote players
+ * - Predicts the local player by replaying unacknowledged inputs (network/prediction.ts)
+ * - Renders remote players from interpolated snapshots (network/interpolation.ts)
+ * - Plays the damage reaction when a server combat event targets this player
+ * - Plays the death animation while the server marks the player dead
+ * - Raises the Paladin shield (block, then block-idle) while blocking
+ * - Plays each server melee swing (combo step) exactly once, then returns to idle
+ * - Plays each server ability activation (abilityAnimation) exactly once
+ * - Shows status effects: an aura around the model and, for remote players,
+ *   effect icons above the nametag
+ * - Floats damage, heal and mana numbers above the nametag (CombatText.tsx)
+ * - Colors the nametag with the player's team color (game/teams.ts)
+ * - Shows a carried capture the flag flag on the back and above the nametag
  * 
  * Props:
  * - playerClass: Determines visual appearance and possibly abilities
@@ -35,8 +48,19 @@ import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react'
 import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
 import { useAnimations, Html, Sphere } from '@react-three/drei';
-import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader.js';
-import { PlayerData, InputState } from '../generated';
+import { PlayerData, InputState, CombatEvent, StatusEffect } from '../generated';
+import { calculateMovement } from '../game/movement';
+import { PredictionBuffer } from '../network/prediction';
+import { SnapshotBuffer } from '../network/interpolation';
+import { INPUT_RATE_HZ } from '../network/inputSampler';
+import { latestCombatEventId, getNewHitsOn } from '../game/combatEvents';
+import { isComboAnimation } from '../game/combo';
+import { getStatusEffectInfo, getStatusTint } from '../game/statusEffects';
+import { getTeamColor } from '../game/teams';
+import { StatusAura } from './StatusAura';
+import { CombatText } from './CombatText';
+import { FlagModel } from './Flag';
+import { CharacterInstance, createCharacterInstance, loadCharacterAssets } from '../game/characterAssets';
 
 // Define animation names for reuse
 const ANIMATIONS = {
@@ -54,18 +78,15 @@ const ANIMATIONS = {
   CAST: 'cast',
   DAMAGE: 'damage',
   DEATH: 'death',
+  BLOCK: 'block',           // Paladin only: raise the shield
+  BLOCK_IDLE: 'block-idle', // Paladin only: hold the shield up
 };
 
-// --- Client-side Constants ---
-const PLAYER_SPEED = 5.0; // Match server logic
-const SPRINT_MULTIPLIER = 1.8; // Match server logic
-
 // --- Client-side Prediction Constants ---
-const SERVER_TICK_RATE = 60; // Assuming server runs at 60Hz
-const SERVER_TICK_DELTA = 1 / SERVER_TICK_RATE; // Use this for prediction
-const POSITION_RECONCILE_THRESHOLD = 0.4;
 const ROTATION_RECONCILE_THRESHOLD = 0.1; // Radians
 const RECONCILE_LERP_FACTOR = 0.15;
+const CORRECTION_DECAY_RATE = 10; // Per second; how fast a prediction error is blended out
+const CORRECTION_SNAP_DISTANCE = 3; // Errors larger than this (teleport, respawn) snap instead of blending
 
 // --- Camera Constants ---
 const CAMERA_MODES = {
@@ -79,6 +100,11 @@ interface PlayerProps {
   currentInput?: InputState; // Prop to receive current input for local player
   isDebugArrowVisible?: boolean; // Prop to control debug arrow visibility
   isDebugPanelVisible?: boolean; // Prop to control general debug helpers visibility
+  predictionBuffer?: PredictionBuffer; // Sent-but-unacknowledged inputs (local player only)
+  snapshotBuffer?: SnapshotBuffer; // Received snapshots to interpolate between (remote players only)
+  combatEvents?: CombatEvent[]; // Recent hits; the ones targeting this player trigger a reaction
+  statusEffects?: StatusEffect[]; // Effects currently on this player
+  carriedFlagColor?: string | null; // Team color of the flag this player carries
 }
 
 export const Player: React.FC<PlayerProps> = ({
@@ -87,7 +113,12 @@ export const Player: React.FC<PlayerProps> = ({
   onRotationChange,
   currentInput, // Receive input state
   isDebugArrowVisible = false, 
-  isDebugPanelVisible = false // Destructure with default false
+  isDebugPanelVisible = false, // Destructure with default false
+  predictionBuffer,
+  snapshotBuffer,
+  combatEvents,
+  statusEffects = [],
+  carriedFlagColor = null
 }) => {
   const group = useRef<THREE.Group>(null!);
   const { camera } = useThree();
@@ -96,14 +127,23 @@ export const Player: React.FC<PlayerProps> = ({
   
   // Model management
   const [modelLoaded, setModelLoaded] = useState(false);
-  const [model, setModel] = useState<THREE.Group | null>(null);
+  const [model, setModel] = useState<THREE.Object3D | null>(null);
   const [mixer, setMixer] = useState<THREE.AnimationMixer | null>(null);
   const [animations, setAnimations] = useState<Record<string, THREE.AnimationAction>>({});
   const [currentAnimation, setCurrentAnimation] = useState<string>(ANIMATIONS.IDLE);
+  // Hit reactions and ability animations override the server animation until they finish
+  const overridePlayingRef = useRef(false);
+  const lastCombatEventIdRef = useRef<bigint>(latestCombatEventId(combatEvents));
+  // swingStartedAt of the last melee swing we played, so a swing never replays
+  const playedSwingRef = useRef<bigint | null>(null);
+  // abilityStartedAt of the last ability animation we played; starts at the current one so joining never replays it
+  const playedAbilityRef = useRef<bigint | null>(playerData.abilityStartedAt?.microsSinceUnixEpoch ?? null);
   
   // --- Client Prediction State ---
   const localPositionRef = useRef<THREE.Vector3>(new THREE.Vector3(playerData.position.x, playerData.position.y, playerData.position.z));
   const localRotationRef = useRef<THREE.Euler>(new THREE.Euler(0, 0, 0, 'YXZ')); // Initialize with zero rotation
+  const reconciledDataRef = useRef<PlayerData | null>(null); // Last server row fed into the prediction buffer
+  const correctionOffsetRef = useRef<THREE.Vector3>(new THREE.Vector3()); // Visual error still being blended out
   const debugArrowRef = useRef<THREE.ArrowHelper | null>(null); // Declare the ref for the debug arrow
   
   // Camera control variables
@@ -111,463 +151,57 @@ export const Player: React.FC<PlayerProps> = ({
   const zoomLevel = useRef(10); // Increased default zoom for overhead view
   const targetZoom = useRef(10);
   
-  // Ref to track if animations have been loaded already to prevent multiple loading attempts
-  const animationsLoadedRef = useRef(false);
-  
-  // Main character model path
-  const mainModelPath = characterClass === 'Paladin' 
-    ? '/models/paladin/paladin.fbx'
-    : '/models/wizard/wizard.fbx';
-
   // --- State variables ---
   const pointLightRef = useRef<THREE.PointLight>(null!); // Ref for the declarative light
 
-  // --- Client-Side Movement Calculation (Matches Server Logic *before* Sign Flip) ---
-  const calculateClientMovement = useCallback((currentPos: THREE.Vector3, currentRot: THREE.Euler, inputState: InputState, delta: number): THREE.Vector3 => {
-    // Skip if no movement input
-    if (!inputState.forward && !inputState.backward && !inputState.left && !inputState.right) {
-      return currentPos;
-    }
-
-    let worldMoveVector = new THREE.Vector3();
-    const speed = inputState.sprint ? PLAYER_SPEED * SPRINT_MULTIPLIER : PLAYER_SPEED;
-    let rotationYaw = 0;
-
-    // 1. Calculate local movement vector based on WASD
-    let localMoveX = 0;
-    let localMoveZ = 0;
-    if (inputState.forward) localMoveZ -= 1;
-    if (inputState.backward) localMoveZ += 1;
-    if (inputState.left) localMoveX -= 1;
-    if (inputState.right) localMoveX += 1;
-    const localMoveVector = new THREE.Vector3(localMoveX, 0, localMoveZ);
-
-    // Normalize if diagonal movement
-    if (localMoveVector.lengthSq() > 1.1) {
-      localMoveVector.normalize();
-    }
-
-    // 2. Determine which rotation to use
-    rotationYaw = currentRot.y;
-
-    // 3. Rotate the LOCAL movement vector by the appropriate YAW to get the WORLD direction
-    worldMoveVector = localMoveVector.clone().applyAxisAngle(new THREE.Vector3(0, 1, 0), rotationYaw);
-
-    // 4. Scale by speed and delta time
-    worldMoveVector.multiplyScalar(speed * delta);
-
-    // 5. Calculate the final position based on the raw world movement
-    // The server-side sign flip is handled during reconciliation, not prediction.
-    const finalPosition = currentPos.clone().add(worldMoveVector);
-
-    return finalPosition;
-  }, []); // No dependency on cameraMode anymore
-
-  // --- Effect for model loading ---
+  // --- Effect for model and animation loading (cached per class, see game/characterAssets.ts) ---
   useEffect(() => {
-    if (!playerData) return; // Guard clause
-    const loader = new FBXLoader();
+    let cancelled = false;
+    let instance: CharacterInstance | null = null;
+
+    loadCharacterAssets(characterClass)
+      .then((assets) => {
+        if (cancelled || !group.current) return;
+        instance = createCharacterInstance(assets);
+        group.current.add(instance.model);
+
+        setModel(instance.model);
+        setMixer(instance.mixer);
+        setAnimations(instance.actions);
+        setModelLoaded(true);
 
-    loader.load(
-      mainModelPath,
-      (fbx) => {
-        
-        // Simplified: Just add the model, setup scale, shadows etc.
-        if (characterClass === 'Paladin') {
-          fbx.scale.setScalar(1.0);
+        const idleAction = instance.actions[ANIMATIONS.IDLE];
+        if (idleAction) {
+          idleAction.reset().setEffectiveTimeScale(1).setEffectiveWeight(1).fadeIn(0.3).play();
+          setCurrentAnimation(ANIMATIONS.IDLE);
         } else {
-          fbx.scale.setScalar(0.02); // Default/Wizard scale
+          console.error('Idle animation not found among loaded animations! Player might not animate initially.');
         }
-        fbx.position.set(0, 0, 0);
-        // REMOVED TRAVERSE for setting castShadow/receiveShadow to avoid potential errors
 
-        setModel(fbx); 
-        
-        if (group.current) {
-          group.current.add(fbx);
-          // Apply position adjustment after adding to group
-          fbx.position.y = -0.1; // Lower the model slightly
-          
-          // --- TRY AGAIN: Traverse to remove embedded lights --- 
-          try { 
-            const lightsToRemove = [];
-            console.log(`[Player Model Effect ${playerData.username}] Traversing loaded FBX to find embedded lights...`);
-            fbx.traverse((child) => {
-              if (child && child instanceof THREE.Light) { 
-                lightsToRemove.push(child);
-              }
-            });
-            
-            // Remove lights outside of traversal
-            lightsToRemove.forEach((light) => {
-              console.log(`[Player Model Effect ${playerData.username}] --- FOUND AND REMOVING EMBEDDED LIGHT --- Name: ${light.name || 'Unnamed'}, Type: ${light.type}`);
-              light.removeFromParent();
-            });
-          } catch (traverseError) {
-             console.error(`[Player Model Effect ${playerData.username}] Error during fbx.traverse for light removal:`, traverseError);
-          }
-          // --- END TRAVERSE ATTEMPT --- 
-
-        } 
-        
-        const newMixer = new THREE.AnimationMixer(fbx);
-        setMixer(newMixer);
-        setModelLoaded(true);
-        
         // Initialize local refs for local player
         if (isLocalPlayer) {
-          localPositionRef.current.set(playerData.position.x, playerData.position.y, playerData.position.z);
-          localRotationRef.current.set(0, playerData.rotation.y, 0, 'YXZ');
+          const { position, rotation } = dataRef.current;
+          localPositionRef.current.set(position.x, position.y, position.z);
+          localRotationRef.current.set(0, rotation.y, 0, 'YXZ');
         }
-      },
-      (progress) => { /* Optional progress log */ },
-      (error: any) => {
-        console.error(`[Player Model Effect ${playerData.username}] Error loading model ${mainModelPath}:`, error);
-      }
-    );
+      })
+      .catch((error) => {
+        console.error(`[Player Model Effect ${dataRef.current.username}] Error loading the ${characterClass} model:`, error);
+      });
 
     // Cleanup for model loading effect
     return () => {
-      if (mixer) mixer.stopAllAction();
-      if (model && group.current) group.current.remove(model);
-      // Dispose geometry/material if needed
+      cancelled = true;
+      if (instance) {
+        instance.mixer.stopAllAction();
+        instance.model.removeFromParent();
+      }
       setModel(null);
       setMixer(null);
+      setAnimations({});
       setModelLoaded(false);
-      animationsLoadedRef.current = false;
-    };
-  }, [mainModelPath, characterClass]); // ONLY depend on model path and class
-
-  // New useEffect to load animations when mixer is ready
-  useEffect(() => {
-    if (mixer && model && !animationsLoadedRef.current) {
-      console.log("Mixer and model are ready, loading animations...");
-      animationsLoadedRef.current = true;
-      loadAnimations(mixer);
-    }
-  }, [mixer, model, characterClass]);
-
-  // Function to load animations
-  const loadAnimations = (mixerInstance: THREE.AnimationMixer) => {
-    if (!mixerInstance) {
-      console.error("Cannot load animations: mixer is not initialized");
-      return;
-    }
-    
-    console.log(`Loading animations for ${characterClass}...`);
-    
-    const animationPaths: Record<string, string> = {};
-    const basePath = characterClass === 'Paladin' ? '/models/paladin/' : '/models/wizard/';
-    
-    // Map animation keys to file paths, ensuring exact matching of key names
-    // Define all animation keys with their exact matching paths
-    const animKeys = {
-      idle: characterClass === 'Wizard' ? 'wizard-standing-idle.fbx' : 'paladin-idle.fbx',
-      'walk-forward': characterClass === 'Wizard' ? 'wizard-standing-walk-forward.fbx' : 'paladin-walk-forward.fbx',
-      'walk-back': characterClass === 'Wizard' ? 'wizard-standing-walk-back.fbx' : 'paladin-walk-back.fbx',
-      'walk-left': characterClass === 'Wizard' ? 'wizard-standing-walk-left.fbx' : 'paladin-walk-left.fbx',
-      'walk-right': characterClass === 'Wizard' ? 'wizard-standing-walk-right.fbx' : 'paladin-walk-right.fbx',
-      'run-forward': characterClass === 'Wizard' ? 'wizard-standing-run-forward.fbx' : 'paladin-run-forward.fbx',
-      'run-back': characterClass === 'Wizard' ? 'wizard-standing-run-back.fbx' : 'paladin-run-back.fbx',
-      'run-left': characterClass === 'Wizard' ? 'wizard-standing-run-left.fbx' : 'paladin-run-left.fbx',
-      'run-right': characterClass === 'Wizard' ? 'wizard-standing-run-right.fbx' : 'paladin-run-right.fbx',
-      jump: characterClass === 'Wizard' ? 'wizard-standing-jump.fbx' : 'paladin-jump.fbx',
-      attack1: characterClass === 'Wizard' ? 'wizard-standing-1h-magic-attack-01.fbx' : 'paladin-attack.fbx',
-      cast: characterClass === 'Wizard' ? 'wizard-standing-2h-magic-area-attack-02.fbx' : 'paladin-cast.fbx',
-      damage: characterClass === 'Wizard' ? 'wizard-standing-react-small-from-front.fbx' : 'paladin-damage.fbx',
-      death: characterClass === 'Wizard' ? 'wizard-standing-react-death-backward.fbx' : 'paladin-death.fbx',
-    };
-    
-    // Create animation paths
-    Object.entries(animKeys).forEach(([key, filename]) => {
-      animationPaths[key] = `${basePath}${filename}`;
-    });
-    
-    console.log('Animation paths:', animationPaths);
-    
-    const loader = new FBXLoader();
-    const newAnimations: Record<string, THREE.AnimationAction> = {};
-    let loadedCount = 0;
-    const totalCount = Object.keys(animationPaths).length;
-    
-    console.log(`Will load ${totalCount} animations`);
-    
-    // Load each animation
-    Object.entries(animationPaths).forEach(([name, path]) => {
-      console.log(`Loading animation "${name}" from ${path}`);
-      
-      // First check if the file exists
-      fetch(path)
-        .then(response => {
-          if (!response.ok) {
-            console.error(`Animation file not found: ${path} (${response.status})`);
-            loadedCount++;
-            checkCompletedLoading();
-            return;
-          }
-          
-          // File exists, proceed with loading
-          loadAnimationFile(name, path, mixerInstance);
-        })
-        .catch(error => {
-          console.error(`Network error checking animation file ${path}:`, error);
-          loadedCount++;
-          checkCompletedLoading();
-        });
-    });
-
-    // Function to check if all animations are loaded
-    const checkCompletedLoading = () => {
-      loadedCount++; // Increment here after load attempt (success or fail)
-      if (loadedCount === totalCount) {
-        const successCount = Object.keys(newAnimations).length;
-        if (successCount === totalCount) {
-          console.log(`✅ All ${totalCount} animations loaded successfully.`);
-        } else {
-           console.warn(`⚠️ Loaded ${successCount}/${totalCount} animations. Some might be missing.`);
-        }
-        
-        // Store all successfully loaded animations in component state
-        setAnimations(newAnimations);
-        
-        // Debug: log all available animations
-        console.log("Available animations: ", Object.keys(newAnimations).join(", "));
-        
-        // Play idle animation if available
-        if (newAnimations['idle']) {
-          // Use setTimeout to ensure state update has propagated and mixer is ready
-          setTimeout(() => {
-             if (animationsLoadedRef.current) { // Check if still relevant
-                 console.log('Playing initial idle animation');
-                 // Use the local newAnimations reference to be sure it's available
-                 const idleAction = newAnimations['idle'];
-                 idleAction.reset()
-                           .setEffectiveTimeScale(1)
-                           .setEffectiveWeight(1)
-                           .fadeIn(0.3)
-                           .play();
-                 setCurrentAnimation('idle');
-             }
-          }, 100); 
-        } else {
-          console.error('Idle animation not found among loaded animations! Player might not animate initially.');
-        }
-      }
-    };
-
-    // Function to load an animation file
-    const loadAnimationFile = (name: string, path: string, mixerInstance: THREE.AnimationMixer) => {
-      if (!mixerInstance) {
-        console.error(`Cannot load animation ${name}: mixer is not initialized`);
-        // loadedCount is incremented in checkCompletedLoading call below
-        checkCompletedLoading();
-        return;
-      }
-      
-      loader.load(
-        path,
-        (animFbx) => {
-          try {
-            if (!animFbx.animations || animFbx.animations.length === 0) {
-              console.error(`No animations found in ${path}`);
-              checkCompletedLoading(); // Call completion even on error
-              return;
-            }
-            
-            const clip = animFbx.animations[0];
-            console.log(`Animation "${name}" loaded. Duration: ${clip.duration}s, Tracks: ${clip.tracks.length}`);
-            
-            // Try to find hierarchy and parent bone
-            let rootBoneName = '';
-            animFbx.traverse((obj) => {
-              if (obj.type === 'Bone' && !rootBoneName && obj.parent && obj.parent.type === 'Object3D') {
-                rootBoneName = obj.name;
-                // console.log(`Found potential root bone for anim ${name}: ${rootBoneName}`);
-              }
-            });
-            
-            // Apply name to the clip
-            clip.name = name;
-            
-            // Retarget the clip if needed
-            const retargetedClip = retargetClip(clip, path);
-            
-            // Make sure we're in place (remove root motion)
-            makeAnimationInPlace(retargetedClip);
-            
-            const action = mixerInstance.clipAction(retargetedClip);
-            newAnimations[name] = action;
-            
-            // Set loop mode based on animation type
-            if (
-              name === 'idle' ||
-              name.startsWith('walk-') ||
-              name.startsWith('run-')
-            ) {
-              action.setLoop(THREE.LoopRepeat, Infinity);
-            } else {
-              action.setLoop(THREE.LoopOnce, 1);
-              action.clampWhenFinished = true;
-            }
-            
-            console.log(`✅ Animation "${name}" processed and ready.`);
-          } catch (e) {
-            console.error(`Error processing animation ${name}:`, e);
-          }
-          
-          checkCompletedLoading(); // Call completion after processing
-        },
-        (progress) => {
-          // Optional: Log animation loading progress for larger files
-          // if (progress.total > 1000000) { // Only for large files
-          //   console.log(`Loading ${name}: ${Math.round(progress.loaded / progress.total * 100)}%`);
-          // }
-        },
-        (error: any) => {
-          console.error(`Error loading animation ${name} from ${path}: ${error.message || 'Unknown error'}`);
-          checkCompletedLoading(); // Call completion even on error
-        }
-      );
     };
-  };
-
-  // Improve root motion removal function
-  const makeAnimationInPlace = (clip: THREE.AnimationClip) => {
-    // console.log(`Making animation "${clip.name}" in-place`);
-    
-    // Get all position tracks
-    const tracks = clip.tracks;
-    const positionTracks = tracks.filter(track => track.name.endsWith('.position'));
-    
-    if (positionTracks.length === 0) {
-      // console.log(`No position tracks found in "${clip.name}"`);
-      return;
-    }
-    
-    // console.log(`Found ${positionTracks.length} position tracks in "${clip.name}"`);
-    
-    // Find the root position track (typically the first bone)
-    // Common root bone names: Hips, mixamorigHips, root, Armature
-    let rootTrack: THREE.KeyframeTrack | undefined;
-    const rootNames = ['Hips.position', 'mixamorigHips.position', 'root.position', 'Armature.position', 'Root.position'];
-    rootTrack = positionTracks.find(track => rootNames.some(name => track.name.toLowerCase().includes(name.toLowerCase())));
-
-    if (!rootTrack) {
-        // If no common root name found, assume the first position track is the root
-        rootTrack = positionTracks[0];
-        // console.warn(`Using first position track "${rootTrack.name}" as root for in-place conversion for anim "${clip.name}".`);
-    } else {
-        // console.log(`Using root bone track "${rootTrack.name}" for in-place conversion for anim "${clip.name}"`);
-    }
-    
-    const rootTrackNameBase = rootTrack.name.split('.')[0];
-
-    // Filter out root position tracks to remove root motion
-    // Keep only the Y component of the root track if needed for jumps, etc.
-    const originalLength = clip.tracks.length;
-    clip.tracks = tracks.filter(track => {
-        if (track.name.startsWith(`${rootTrackNameBase}.position`)) {
-            // Maybe keep Y component in the future if needed, for now remove all XYZ root motion.
-            return false; // Remove X, Y, Z root position tracks
-        }
-        return true; // Keep other tracks
-    });
-    
-    // console.log(`Removed ${originalLength - clip.tracks.length} root motion tracks from "${clip.name}"`);
-  };
-
-  // Add a retargetClip function after makeAnimationInPlace
-  const retargetClip = (clip: THREE.AnimationClip, sourceModelPath: string) => {
-    if (!model) {
-      console.warn("Cannot retarget: model not loaded");
-      return clip;
-    }
-    
-    // console.log(`Retargeting animation "${clip.name}" from ${sourceModelPath}`);
-    
-    // Get source file basename (without extension)
-    const sourceFileName = sourceModelPath.split('/').pop()?.split('.')[0] || '';
-    const targetFileName = mainModelPath.split('/').pop()?.split('.')[0] || '';
-    
-    if (sourceFileName === targetFileName) {
-      // console.log(`Source and target models are the same (${sourceFileName}), no retargeting needed`);
-      return clip;
-    }
-    
-    // console.log(`Retargeting from "${sourceFileName}" to "${targetFileName}"`);
-    
-    // Create a new animation clip
-    const newTracks: THREE.KeyframeTrack[] = [];
-    
-    // Process each track to replace bone names if needed
-    clip.tracks.forEach(track => {
-      // The track name format is usually "boneName.property"
-      const trackNameParts = track.name.split('.');
-      if (trackNameParts.length < 2) {
-        // console.warn(`Strange track name format: ${track.name}`);
-        newTracks.push(track);
-        return;
-      }
-      
-      const boneName = trackNameParts[0];
-      const property = trackNameParts.slice(1).join('.');
-      
-      // Try to find corresponding bone in target model
-      // Check if we need any bone name mappings from source to target
-      let targetBoneName = boneName;
-      
-      // ** Bone Name Mapping (Example) **
-      // If source uses "bip01_" prefix and target uses "mixamorig", map them:
-      // if (boneName.startsWith('bip01_')) {
-      //   targetBoneName = boneName.replace('bip01_', 'mixamorig');
-      // }
-      // Add other mappings as needed based on model skeletons
-      
-      // Add the fixed track
-      const newTrackName = `${targetBoneName}.${property}`;
-      
-      // Only create new track if the name needs to change
-      if (newTrackName !== track.name) {
-        // console.log(`Remapping track: ${track.name} → ${newTrackName}`);
-        
-        // Create a new track with same data but new name
-        let newTrack: THREE.KeyframeTrack;
-        
-        if (track instanceof THREE.QuaternionKeyframeTrack) {
-          newTrack = new THREE.QuaternionKeyframeTrack(
-            newTrackName,
-            Array.from(track.times),
-            Array.from(track.values)
-          );
-        } else if (track instanceof THREE.VectorKeyframeTrack) {
-          newTrack = new THREE.VectorKeyframeTrack(
-            newTrackName,
-            Array.from(track.times),
-            Array.from(track.values)
-          );
-        } else {
-          // Fallback for NumberKeyframeTrack or others
-          newTrack = new THREE.KeyframeTrack(
-            newTrackName,
-            Array.from(track.times),
-            Array.from(track.values)
-          );
-        }
-        
-        newTracks.push(newTrack);
-      } else {
-        newTracks.push(track); // No change needed, push original track
-      }
-    });
-    
-    // Create a new animation clip with the fixed tracks
-    return new THREE.AnimationClip(
-      clip.name,
-      clip.duration,
-      newTracks,
-      clip.blendMode
-    );
-  };
+  }, [characterClass, isLocalPlayer]); // ONLY depend on the class
 
   // Update playAnimation to have better logging
   const playAnimation = useCallback((name: string, crossfadeDuration = 0.3) => {
@@ -605,20 +239,6 @@ export const Player: React.FC<PlayerProps> = ({
     setCurrentAnimation(name);
   }, [animations, currentAnimation, mixer]); // Add mixer to dependencies
 
-  // --- NEW Effect: Explicitly set shadow props when model is loaded ---
-  useEffect(() => {
-    if (model && group.current) {
-      console.log(`[Player Shadow Effect ${playerData.username}] Model loaded, traversing group to set shadow props on meshes.`);
-      group.current.traverse((child) => {
-        if (child instanceof THREE.Mesh) {
-          // Explicitly set both cast and receive, although cast is the primary goal here
-          child.castShadow = true;
-          child.receiveShadow = true; 
-        }
-      });
-    }
-  }, [model]); // Run this effect whenever the model state changes
-
   // Set up pointer lock for camera control if local player
   useEffect(() => {
     if (!isLocalPlayer) return;
@@ -649,8 +269,10 @@ export const Player: React.FC<PlayerProps> = ({
         mixer &&
         animations[currentAnimation] &&
         (currentAnimation === ANIMATIONS.JUMP ||
-         currentAnimation === ANIMATIONS.ATTACK ||
-         currentAnimation === ANIMATIONS.CAST)
+         isComboAnimation(currentAnimation) || // Every combo step, not just ANIMATIONS.ATTACK
+         currentAnimation === ANIMATIONS.CAST ||
+         currentAnimation === ANIMATIONS.DAMAGE ||
+         currentAnimation === ANIMATIONS.BLOCK)
       ) {
         const action = animations[currentAnimation];
         
@@ -664,7 +286,10 @@ export const Player: React.FC<PlayerProps> = ({
           // Only act if the finished action is the one we are tracking
           if (event.action === action) {
              // console.log(`Animation finished: ${currentAnimation}. Playing idle.`);
-             playAnimation(ANIMATIONS.IDLE, 0.1); // Faster transition back to idle
+             overridePlayingRef.current = false;
+             // The raised shield is held until the server animation changes
+             const next = currentAnimation === ANIMATIONS.BLOCK ? ANIMATIONS.BLOCK_IDLE : ANIMATIONS.IDLE;
+             playAnimation(next, 0.1); // Faster transition back to idle
              mixer.removeEventListener('finished', onFinished); // Remove listener
           }
         };
@@ -705,26 +330,36 @@ export const Player: React.FC<PlayerProps> = ({
         if (isLocalPlayer && currentInput) {
           // --- LOCAL PLAYER PREDICTION & RECONCILIATION --- 
 
-          // 1. Calculate predicted position based on current input, rotation, and SERVER_TICK_DELTA
-          const predictedPosition = calculateClientMovement(
-            localPositionRef.current,
-            localRotationRef.current, // Pass current local rotation
-            currentInput,
-            SERVER_TICK_DELTA // Use FIXED delta for prediction to match server
-          );
-          localPositionRef.current.copy(predictedPosition);
-
-          // 2. RECONCILIATION (Position)
-          const serverPosition = new THREE.Vector3(dataRef.current.position.x, dataRef.current.position.y, dataRef.current.position.z);
-          const serverPositionClone = serverPosition.clone();
+          // 1. RECONCILIATION (Position): on every new server row, rewind to the authoritative
+          //    position at lastInputSeq and replay the inputs the server has not processed yet
+          if (predictionBuffer && reconciledDataRef.current !== dataRef.current) {
+            reconciledDataRef.current = dataRef.current;
+            const serverPosition = new THREE.Vector3(dataRef.current.position.x, dataRef.current.position.y, dataRef.current.position.z);
+            const correction = predictionBuffer.reconcile(serverPosition, dataRef.current.lastInputSeq);
+            const offset = correctionOffsetRef.current.add(correction);
+            if (offset.length() > CORRECTION_SNAP_DISTANCE) {
+              offset.set(0, 0, 0); // Teleported: don't drag the model across the map
+            }
+          }
 
-          const positionError = localPositionRef.current.distanceTo(serverPositionClone);
-          
-          if (positionError > POSITION_RECONCILE_THRESHOLD) {
-              localPositionRef.current.lerp(serverPositionClone, RECONCILE_LERP_FACTOR);
-              // console.log(`[Player Frame ${playerData.username}] Position Error: ${positionError.toFixed(2)}`);
+          // 2. PREDICTION: position after the last sent command, plus the sample still being held
+          //    (capped at one sample interval, since the next command will cover it)
+          const predictedBase = predictionBuffer?.predictedPosition;
+          if (predictionBuffer && predictedBase) {
+            // Dead players send no input, so there is no held sample to extrapolate
+            const pendingSampleTime = dataRef.current.isDead ? 0 : Math.min(
+              (performance.now() - predictionBuffer.lastPushTime) / 1000,
+              1 / INPUT_RATE_HZ
+            );
+            localPositionRef.current.copy(
+              calculateMovement(predictedBase, predictionBuffer.lastYaw, currentInput, pendingSampleTime, predictionBuffer.lastSpeedMultiplier, predictionBuffer.bounds)
+            );
           }
 
+          // Blend out any correction instead of rubber-banding to it
+          correctionOffsetRef.current.multiplyScalar(Math.exp(-CORRECTION_DECAY_RATE * dt));
+          localPositionRef.current.add(correctionOffsetRef.current);
+
           // 2.5 RECONCILIATION (Rotation) 
           const serverRotation = new THREE.Euler(0, dataRef.current.rotation.y, 0, 'YXZ');
           const reconcileTargetQuat = new THREE.Quaternion().setFromEuler(serverRotation);
@@ -743,7 +378,7 @@ export const Player: React.FC<PlayerProps> = ({
           let targetVisualYaw = localRotationRef.current.y; // Default: Face movement direction
 
           const { forward, backward, left, right } = currentInput;
-          const isMoving = forward || backward || left || right;
+          const isMoving = !dataRef.current.isDead && (forward || backward || left || right);
 
           if (isMoving) {
               let localMoveX = 0;
@@ -811,17 +446,15 @@ export const Player: React.FC<PlayerProps> = ({
                debugArrowRef.current = null;
           }
           // --- REMOTE PLAYER INTERPOLATION --- 
-          const serverPosition = new THREE.Vector3(playerData.position.x, playerData.position.y, playerData.position.z);
-          const targetRotation = new THREE.Euler(0, playerData.rotation.y, 0, 'YXZ');
-
-          // Interpolate position smoothly
-          group.current.position.lerp(serverPosition, Math.min(1, dt * 10));
-
-          // Interpolate rotation smoothly (using quaternions for better slerp)
-          group.current.quaternion.slerp(
-            new THREE.Quaternion().setFromEuler(targetRotation),
-            Math.min(1, dt * 8)
-          );
+          // Render INTERPOLATION_DELAY_MS in the past, between the two bracketing snapshots
+          const interpolated = snapshotBuffer?.sample();
+          if (interpolated) {
+            group.current.position.copy(interpolated.position);
+            group.current.quaternion.setFromEuler(new THREE.Euler(0, interpolated.yaw, 0, 'YXZ'));
+          } else {
+            group.current.position.set(playerData.position.x, playerData.position.y, playerData.position.z);
+            group.current.quaternion.setFromEuler(new THREE.Euler(0, playerData.rotation.y, 0, 'YXZ'));
+          }
         }
       }
 
@@ -858,6 +491,32 @@ export const Player: React.FC<PlayerProps> = ({
     }
   });
 
+  // --- Hit Reactions from Server Combat Events ---
+  useEffect(() => {
+    const hits = getNewHitsOn(combatEvents, playerData.identity, lastCombatEventIdRef.current);
+    const newestId = latestCombatEventId(combatEvents);
+    if (newestId > lastCombatEventIdRef.current) lastCombatEventIdRef.current = newestId;
+    // Blocked hits land on the shield and do not stagger; neither do damage-over-time ticks
+    if (!hits.some(hit => !hit.blocked && hit.kind !== 'burn') || !mixer || !animations[ANIMATIONS.DAMAGE]) return;
+    if (playerData.isDead) return; // The killing blow goes straight to the death animation
+
+    overridePlayingRef.current = true;
+    playAnimation(ANIMATIONS.DAMAGE, 0.1);
+  }, [combatEvents, playerData.identity, playerData.isDead, animations, mixer, playAnimation]);
+
+  // --- Ability Animations from the Server ---
+  // Each activation (keyed by abilityStartedAt) plays its animation once, on top of the server animation
+  useEffect(() => {
+    const abilityKey = playerData.abilityStartedAt?.microsSinceUnixEpoch ?? null;
+    if (abilityKey === null || abilityKey === playedAbilityRef.current) return;
+    if (!mixer || !animations[playerData.abilityAnimation]) return;
+    playedAbilityRef.current = abilityKey;
+    if (playerData.isDead) return;
+
+    overridePlayingRef.current = true;
+    playAnimation(playerData.abilityAnimation, 0.1);
+  }, [playerData.abilityStartedAt, playerData.abilityAnimation, playerData.isDead, animations, mixer, playAnimation]);
+
   // --- Animation Triggering based on Server State ---
   useEffect(() => {
     // Explicitly wrap hook body
@@ -867,11 +526,20 @@ export const Player: React.FC<PlayerProps> = ({
         return;
       }
 
+      // Death cuts any hit reaction or ability animation short
+      if (playerData.isDead) {
+        overridePlayingRef.current = false;
+      }
+      // A hit reaction or ability animation is playing; the finished listener hands control back
+      if (overridePlayingRef.current) {
+        return;
+      }
+
       const serverAnim = playerData.currentAnimation;
 
       // For local player, override animation to be forward based on movement
-      let finalAnim = serverAnim;
-      if (isLocalPlayer && currentInput) {
+      let finalAnim = playerData.isDead ? ANIMATIONS.DEATH : serverAnim;
+      if (isLocalPlayer && currentInput && !playerData.isDead && !currentInput.block) {
         const isMoving = currentInput.forward || currentInput.backward || currentInput.left || currentInput.right;
         if (isMoving) {
           if (currentInput.sprint && animations[ANIMATIONS.RUN_FORWARD]) {
@@ -884,6 +552,26 @@ export const Player: React.FC<PlayerProps> = ({
 
       // console.log(`[Anim Check] Received ServerAnim: ${serverAnim}, Current LocalAnim: ${currentAnimation}, Is Available: ${!!animations[serverAnim]}`);
 
+      // Melee swings follow the server's swing, not the animation string: each swing
+      // (keyed by swingStartedAt) plays once, and outside a swing the key means nothing
+      if (isComboAnimation(finalAnim)) {
+        const swingKey = playerData.swingStartedAt?.microsSinceUnixEpoch ?? null;
+        if (swingKey === null) {
+          finalAnim = ANIMATIONS.IDLE;
+        } else if (swingKey === playedSwingRef.current) {
+          return;
+        } else if (animations[finalAnim]) {
+          playedSwingRef.current = swingKey;
+          playAnimation(finalAnim, 0.1);
+          return;
+        }
+      }
+
+      // Shield already raised and held: block-idle is the continuation of block
+      if (finalAnim === ANIMATIONS.BLOCK && currentAnimation === ANIMATIONS.BLOCK_IDLE) {
+        return;
+      }
+
       // Play animation if it's different and available
       if (finalAnim && finalAnim !== currentAnimation && animations[finalAnim]) {
          // console.log(`[Anim Play] Server requested animation change to: ${finalAnim}`);
@@ -901,7 +589,7 @@ export const Player: React.FC<PlayerProps> = ({
          // console.warn(`[Anim Warn] Server requested unavailable animation: ${finalAnim}. Available: ${Object.keys(animations).join(', ')}`);
       }
     }
-  }, [playerData.currentAnimation, animations, mixer, playAnimation, currentAnimation, isLocalPlayer, currentInput]); // Dependencies include things that trigger animation changes
+  }, [playerData.currentAnimation, playerData.isDead, playerData.swingStartedAt, animations, mixer, playAnimation, currentAnimation, isLocalPlayer, currentInput]); // Dependencies include things that trigger animation changes
 
   return (
     <group ref={group} castShadow>
@@ -925,12 +613,43 @@ export const Player: React.FC<PlayerProps> = ({
         <meshBasicMaterial color="red" wireframe /> 
       </Sphere>
 
+      {/* Status effect aura */}
+      {model && !playerData.isDead && (
+        <StatusAura
+          color={getStatusTint(statusEffects)}
+          shielded={statusEffects.some(effect => effect.effectType === 'shield')}
+        />
+      )}
+
+      {/* Floating combat numbers from server combat events */}
+      {model && <CombatText combatEvents={combatEvents} target={playerData.identity} />}
+
+      {/* Carried flag on the back */}
+      {model && carriedFlagColor && (
+        <group position={[0, 0.3, -0.4]}>
+          <FlagModel color={carriedFlagColor} scale={0.6} />
+        </group>
+      )}
+
       {/* Model added dynamically */}
       {/* Name tag */}
       {model && (
         <Html position={[0, 2.5, 0]} center distanceFactor={10}>
             <div className="nametag">
-            <div className="nametag-text">{playerData.username}</div>
+            {/* The local player sees its effects in PlayerUI instead */}
+            {!isLocalPlayer && statusEffects.length > 0 && (
+              <div className="nametag-status">
+                {statusEffects.map(effect => (
+                  <span key={effect.id.toString()} title={getStatusEffectInfo(effect.effectType).label}>
+                    {getStatusEffectInfo(effect.effectType).icon}
+                  </span>
+                ))}
+              </div>
+            )}
+            {carriedFlagColor && (
+              <div className="nametag-flag" style={{ color: carriedFlagColor }} title="Flag carrier">⚑</div>
+            )}
+            <div className="nametag-text" style={{ color: getTeamColor(playerData.team) }}>{playerData.username}</div>
             <div className="nametag-class">{characterClass}</div>
             </div>
         </Html>
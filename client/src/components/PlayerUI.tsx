@@ -7,13 +7,21 @@
  * - Displays player health and mana bars with visual indicators
  * - Implements damage feedback effects (screen flash when damaged)
  * - Shows player status information (name, health/mana values)
- * - Tracks health changes to trigger visual feedback
+ * - Flashes when a server combat event targets the local player
+ * - Shows a "Not enough mana" warning after an unaffordable cast attempt
+ * - Lists the status effects currently on the player (stun, slow, burn, ...)
+ * - Shows a death overlay with the respawn countdown while the player is dead
+ *   (battle royale: eliminated until the next round)
+ * - Frames the status text in the player's team color
  * 
  * Props:
  * - playerData: Contains player state information including health, mana, and username
+ * - combatEvents: Recent combat_event rows received from the server
+ * - manaWarningAt: performance.now() of the last cast attempt without enough mana
+ * - statusEffects: status_effect rows targeting the local player
  * 
  * Technical implementation:
- * - Uses React state to track health changes and trigger animations
+ * - Remembers the newest combat event id it has handled so each hit flashes once
  * - Implements CSS-based visual effects for damage feedback
  * - Calculates health/mana percentages for bar visualization
  * - Conditionally renders elements based on player state
@@ -21,28 +29,42 @@
  * Related files:
  * - App.tsx: Parent component that provides player data
  * - Player.tsx: Character component that relates to this UI
+ * - AbilityBar.tsx: Ability slots and cooldowns, rendered next to this HUD
  * - common.css: Contains animation definitions for damage flash
  */
 
-import React, { useState, useEffect } from 'react';
-import { PlayerData } from '../generated';
+import React, { useState, useEffect, useRef } from 'react';
+import { PlayerData, CombatEvent, StatusEffect } from '../generated';
+import { latestCombatEventId, getNewHitsOn } from '../game/combatEvents';
+import { getStatusEffectInfo } from '../game/statusEffects';
+import { getTeamInfo } from '../game/teams';
+
+const MANA_WARNING_DURATION_MS = 1200;
+const RESPAWN_COUNTDOWN_REFRESH_MS = 200;
 
 interface PlayerUIProps {
   playerData: PlayerData | null;
+  combatEvents?: CombatEvent[];
+  manaWarningAt?: number | null;
+  statusEffects?: StatusEffect[];
+  eliminated?: boolean; // Dead in a battle royale round: no respawn until the next round
 }
 
-export const PlayerUI: React.FC<PlayerUIProps> = ({ playerData }) => {
+export const PlayerUI: React.FC<PlayerUIProps> = ({ playerData, combatEvents, manaWarningAt, statusEffects = [], eliminated = false }) => {
   const [showDamageFlash, setShowDamageFlash] = useState(false);
-  const [lastHealth, setLastHealth] = useState(playerData?.health || 0);
+  const [showManaWarning, setShowManaWarning] = useState(false);
+  const [respawnSeconds, setRespawnSeconds] = useState<number | null>(null);
+  const lastCombatEventIdRef = useRef<bigint>(latestCombatEventId(combatEvents));
   
-  // Check for damage taken and trigger damage flash effect
+  // Check for hits on the local player and trigger damage flash effect
   useEffect(() => {
     if (!playerData) return;
     
-    const currentHealth = playerData.health;
+    const hits = getNewHitsOn(combatEvents, playerData.identity, lastCombatEventIdRef.current);
+    const newestId = latestCombatEventId(combatEvents);
+    if (newestId > lastCombatEventIdRef.current) lastCombatEventIdRef.current = newestId;
     
-    // If health decreased, show damage flash
-    if (currentHealth < lastHealth) {
+    if (hits.length > 0) {
       setShowDamageFlash(true);
       
       // Remove flash after animation completes
@@ -52,17 +74,39 @@ export const PlayerUI: React.FC<PlayerUIProps> = ({ playerData }) => {
       
       return () => clearTimeout(timer);
     }
-    
-    // Update last health value
-    setLastHealth(currentHealth);
-  }, [playerData?.health, lastHealth]);
+  }, [combatEvents, playerData?.identity]);
+
+  // Show the mana warning for a moment after each rejected cast attempt
+  useEffect(() => {
+    if (manaWarningAt == null) return;
+    setShowManaWarning(true);
+    const timer = setTimeout(() => setShowManaWarning(false), MANA_WARNING_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [manaWarningAt]);
   
+  // Count down to respawn_at while dead (server clock; small skew only shifts the number)
+  useEffect(() => {
+    const respawnAt = playerData?.isDead ? playerData.respawnAt : undefined;
+    if (!respawnAt) {
+      setRespawnSeconds(null);
+      return;
+    }
+    const update = () => {
+      const remainingMs = respawnAt.toDate().getTime() - Date.now();
+      setRespawnSeconds(Math.max(0, Math.ceil(remainingMs / 1000)));
+    };
+    update();
+    const interval = setInterval(update, RESPAWN_COUNTDOWN_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [playerData?.isDead, playerData?.respawnAt]);
+
   // Don't render if no player data
   if (!playerData) return null;
   
   // Calculate health and mana percentages
   const healthPercent = (playerData.health / playerData.maxHealth) * 100;
   const manaPercent = (playerData.mana / playerData.maxMana) * 100;
+  const team = getTeamInfo(playerData.team);
   
   return (
     <>
@@ -81,14 +125,46 @@ export const PlayerUI: React.FC<PlayerUIProps> = ({ playerData }) => {
         />
       </div>
       
+      {/* Status effects on the local player */}
+      {statusEffects.length > 0 && (
+        <div className="status-effect-list">
+          {statusEffects.map((effect) => {
+            const info = getStatusEffectInfo(effect.effectType);
+            return (
+              <div key={effect.id.toString()} className="status-effect" style={{ borderColor: info.color }}>
+                <span className="status-effect-icon">{info.icon}</span>
+                <span className="status-effect-label">{info.label}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showManaWarning && (
+        <div className="mana-warning">Not enough mana</div>
+      )}
+
       {/* Damage flash overlay */}
       {showDamageFlash && (
         <div className="damage-overlay damage-flash" />
       )}
       
+      {/* Death overlay with respawn countdown */}
+      {playerData.isDead && (
+        <div className="death-overlay">
+          <div className="death-title">{eliminated ? 'Eliminated' : 'You died'}</div>
+          <div className="death-countdown">
+            {eliminated
+              ? 'You will respawn when the round is over'
+              : respawnSeconds && respawnSeconds > 0 ? `Respawning in ${respawnSeconds}...` : 'Respawning...'}
+          </div>
+        </div>
+      )}
+      
       {/* Player status text */}
-      <div className="player-status">
+      <div className="player-status" style={{ borderColor: team.color }}>
         <div className="player-name">{playerData.username}</div>
+        <div className="player-team" style={{ color: team.color }}>{team.name} team</div>
         <div className="player-health">HP: {playerData.health}/{playerData.maxHealth}</div>
         <div className="player-mana">MP: {playerData.mana}/{playerData.maxMana}</div>
       </div>
@@ -0,0 +1,109 @@
+/**
+ * Projectile.tsx
+ *
+ * Renders spell projectiles simulated by the server (projectile table):
+ *
+ * Key functionality:
+ * - Projectile: Glowing bolt that follows its row, interpolated between server ticks
+ * - ProjectileImpact: Short burst shown where a projectile row was deleted
+ *   (hit, expiry or leaving the map)
+ *
+ * Props (Projectile):
+ * - projectile: Row from the projectile table
+ * - snapshotBuffer: Received positions for this projectile (network/interpolation.ts)
+ *
+ * Props (ProjectileImpact):
+ * - impact: Where and which spell ended
+ * - onComplete: Called once the effect has faded so the parent can drop it
+ *
+ * Technical implementation:
+ * - Position is sampled from the snapshot buffer every frame, falling back to the raw row
+ * - Impacts scale up and fade out over IMPACT_DURATION, driven by useFrame
+ *
+ * Related files:
+ * - GameScene.tsx: Renders projectiles and impacts
+ * - App.tsx: Tracks projectile rows, snapshots and impacts
+ * - server/src/projectile_logic.rs: Server-side simulation
+ */
+
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import * as moduleBindings from '../generated';
+import { SnapshotBuffer } from '../network/interpolation';
+
+type ProjectileData = moduleBindings.Projectile;
+
+export interface ProjectileImpactData {
+  key: string;
+  spellType: string;
+  position: { x: number; y: number; z: number };
+}
+
+const SPELL_COLORS: Record<string, string> = {
+  fireball: '#ff7a1a',
+  frostbolt: '#7fd4ff',
+  arcane_orb: '#c77dff',
+};
+const DEFAULT_SPELL_COLOR = '#8ab4ff';
+const IMPACT_DURATION = 0.4; // Seconds
+
+const getSpellColor = (spellType: string): string => SPELL_COLORS[spellType] ?? DEFAULT_SPELL_COLOR;
+
+interface ProjectileProps {
+  projectile: ProjectileData;
+  snapshotBuffer?: SnapshotBuffer;
+}
+
+export const Projectile: React.FC<ProjectileProps> = ({ projectile, snapshotBuffer }) => {
+  const group = useRef<THREE.Group>(null!);
+  const color = getSpellColor(projectile.spellType);
+
+  useFrame(() => {
+    if (!group.current) return;
+    const position = snapshotBuffer?.sample()?.position ?? projectile.position;
+    group.current.position.set(position.x, position.y, position.z);
+  });
+
+  return (
+    <group ref={group} position={[projectile.position.x, projectile.position.y, projectile.position.z]}>
+      <mesh>
+        <sphereGeometry args={[0.3, 16, 16]} />
+        <meshStandardMaterial color={color} emissive={color} emissiveIntensity={2} />
+      </mesh>
+      <pointLight color={color} intensity={3} distance={6} />
+    </group>
+  );
+};
+
+interface ProjectileImpactProps {
+  impact: ProjectileImpactData;
+  onComplete: (key: string) => void;
+}
+
+export const ProjectileImpact: React.FC<ProjectileImpactProps> = ({ impact, onComplete }) => {
+  const mesh = useRef<THREE.Mesh>(null!);
+  const material = useRef<THREE.MeshBasicMaterial>(null!);
+  const elapsed = useRef(0);
+  const completed = useRef(false);
+  const color = getSpellColor(impact.spellType);
+
+  useFrame((_state, delta) => {
+    if (completed.current || !mesh.current || !material.current) return;
+    elapsed.current += delta;
+    const t = Math.min(elapsed.current / IMPACT_DURATION, 1);
+    mesh.current.scale.setScalar(0.4 + t * 1.6);
+    material.current.opacity = 1 - t;
+    if (t >= 1) {
+      completed.current = true;
+      onComplete(impact.key);
+    }
+  });
+
+  return (
+    <mesh ref={mesh} position={[impact.position.x, impact.position.y, impact.position.z]}>
+      <sphereGeometry args={[0.5, 16, 16]} />
+      <meshBasicMaterial ref={material} color={color} transparent opacity={1} depthWrite={false} />
+    </mesh>
+  );
+};
@@ -0,0 +1,75 @@
+/**
+ * Scoreboard.tsx
+ *
+ * Overlay listing every player's stats while Tab is held:
+ *
+ * Key functionality:
+ * - One row per entry of the players map, best score first
+ * - Kills, deaths, assists, K/D, damage dealt, healing done and score
+ * - Highlights the local player's row and dims dead players
+ * - Names are drawn in the player's team color
+ *
+ * Props:
+ * - players: All active players (App.tsx players map)
+ * - localPlayerIdentity: Identity of the local player, for highlighting
+ *
+ * Related files:
+ * - App.tsx: Shows the overlay while Tab is held
+ * - game/scoreboard.ts: Sorting and formatting
+ * - server/src/stats_logic.rs: Where the numbers come from
+ */
+
+import React from 'react';
+import { Identity } from '@clockworklabs/spacetimedb-sdk';
+import { PlayerData } from '../generated';
+import { getScoreboardRows, formatKdRatio } from '../game/scoreboard';
+import { getTeamColor } from '../game/teams';
+
+interface ScoreboardProps {
+  players: ReadonlyMap<string, PlayerData>;
+  localPlayerIdentity: Identity | null;
+}
+
+export const Scoreboard: React.FC<ScoreboardProps> = ({ players, localPlayerIdentity }) => {
+  const localHex = localPlayerIdentity?.toHexString();
+
+  return (
+    <div className="scoreboard">
+      <div className="scoreboard-title">Scoreboard</div>
+      <table className="scoreboard-table">
+        <thead>
+          <tr>
+            <th className="scoreboard-name">Player</th>
+            <th>K</th>
+            <th>D</th>
+            <th>A</th>
+            <th>K/D</th>
+            <th>Damage</th>
+            <th>Healing</th>
+            <th>Score</th>
+          </tr>
+        </thead>
+        <tbody>
+          {getScoreboardRows(players).map(player => {
+            const isLocal = player.identity.toHexString() === localHex;
+            const className = `${isLocal ? 'local' : ''}${player.isDead ? ' dead' : ''}`.trim();
+            return (
+              <tr key={player.identity.toHexString()} className={className}>
+                <td className="scoreboard-name" style={{ color: getTeamColor(player.team), borderLeftColor: getTeamColor(player.team) }}>
+                  {player.username} <span className="scoreboard-class">{player.characterClass}</span>
+                </td>
+                <td>{player.stats.kills}</td>
+                <td>{player.stats.deaths}</td>
+                <td>{player.stats.assists}</td>
+                <td>{formatKdRatio(player.stats.kills, player.stats.deaths)}</td>
+                <td>{player.stats.damageDealt}</td>
+                <td>{player.stats.healingDone}</td>
+                <td className="scoreboard-score">{player.stats.score}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,256 @@
+/**
+ * ServerBrowser.tsx
+ *
+ * Pre-game screen for choosing which SpacetimeDB server to join:
+ *
+ * Key functionality:
+ * - Lists the default endpoint plus every saved server
+ * - Probes each server and shows reachability, latency and player count
+ * - Lets the player add and remove saved servers
+ * - Hands the chosen endpoint back to the parent to connect
+ *
+ * Props:
+ * - onSelect: Callback receiving the endpoint the player wants to connect to
+ *
+ * Technical implementation:
+ * - Probes run in parallel through probeEndpoint (network/serverConfig.ts)
+ * - Saved servers persist in localStorage via saveEndpoints
+ *
+ * Related files:
+ * - App.tsx: Shows this screen before connecting, then JoinGameDialog after
+ * - network/serverConfig.ts: Endpoint resolution, storage and probing
+ */
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  ServerEndpoint,
+  ProbeResult,
+  endpointId,
+  getDefaultEndpoint,
+  getKnownEndpoints,
+  loadSavedEndpoints,
+  saveEndpoints,
+  probeEndpoint,
+} from '../network/serverConfig';
+
+interface ServerBrowserProps {
+  onSelect: (endpoint: ServerEndpoint) => void;
+}
+
+export const ServerBrowser: React.FC<ServerBrowserProps> = ({ onSelect }) => {
+  const [endpoints, setEndpoints] = useState<ServerEndpoint[]>(() => getKnownEndpoints());
+  const [probeResults, setProbeResults] = useState<Record<string, ProbeResult | 'pending'>>({});
+  const [newName, setNewName] = useState('');
+  const [newHost, setNewHost] = useState('');
+  const [newModule, setNewModule] = useState(getDefaultEndpoint().moduleName);
+  const [newSecure, setNewSecure] = useState(false);
+
+  const probe = useCallback((endpoint: ServerEndpoint) => {
+    setProbeResults(prev => ({ ...prev, [endpoint.id]: 'pending' }));
+    probeEndpoint(endpoint).then(result => {
+      setProbeResults(prev => ({ ...prev, [endpoint.id]: result }));
+    });
+  }, []);
+
+  const refreshAll = useCallback(() => {
+    endpoints.forEach(probe);
+  }, [endpoints, probe]);
+
+  // Probe everything once when the browser opens; later endpoint changes probe only the new one
+  const refreshAllRef = useRef(refreshAll);
+  refreshAllRef.current = refreshAll;
+  useEffect(() => {
+    refreshAllRef.current();
+  }, []);
+
+  const handleAdd = (event: React.FormEvent) => {
+    event.preventDefault();
+    const host = newHost.trim();
+    const moduleName = newModule.trim();
+    if (!host || !moduleName) return;
+
+    const endpoint: ServerEndpoint = {
+      id: endpointId(host, moduleName),
+      name: newName.trim() || host,
+      host,
+      moduleName,
+      secure: newSecure,
+    };
+    if (endpoints.some(existing => existing.id === endpoint.id)) return;
+
+    saveEndpoints([...loadSavedEndpoints(), endpoint]);
+    setEndpoints(prev => [...prev, endpoint]);
+    setNewName('');
+    setNewHost('');
+    probe(endpoint);
+  };
+
+  const handleRemove = (endpoint: ServerEndpoint) => {
+    saveEndpoints(loadSavedEndpoints().filter(saved => saved.id !== endpoint.id));
+    setEndpoints(prev => prev.filter(existing => existing.id !== endpoint.id));
+  };
+
+  const defaultId = getDefaultEndpoint().id;
+
+  const renderStatus = (endpoint: ServerEndpoint) => {
+    const result = probeResults[endpoint.id];
+    if (!result || result === 'pending') {
+      return <span style={{ color: '#aaa' }}>Checking...</span>;
+    }
+    if (!result.reachable) {
+      return <span style={{ color: '#FF7B7B' }} title={result.error}>Offline</span>;
+    }
+    return (
+      <span style={{ color: '#4CFF78' }}>
+        Online · {result.latencyMs} ms · {result.playerCount ?? '?'} players
+      </span>
+    );
+  };
+
+  return (
+    <div style={styles.overlay}>
+      <div style={styles.dialog}>
+        <div style={styles.header}>
+          <h2 style={{ margin: 0 }}>Servers</h2>
+          <button type="button" onClick={refreshAll} style={styles.smallButton}>Refresh</button>
+        </div>
+
+        <ul style={styles.list}>
+          {endpoints.map(endpoint => (
+            <li key={endpoint.id} style={styles.row}>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={styles.serverName}>{endpoint.name}</div>
+                <div style={styles.serverAddress}>
+                  {endpoint.secure ? 'wss' : 'ws'}://{endpoint.host} / {endpoint.moduleName}
+                </div>
+                <div style={styles.serverStatus}>{renderStatus(endpoint)}</div>
+              </div>
+              <button type="button" onClick={() => onSelect(endpoint)} style={styles.button}>Connect</button>
+              {endpoint.id !== defaultId && (
+                <button type="button" onClick={() => handleRemove(endpoint)} style={styles.removeButton} title="Remove">✕</button>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <form onSubmit={handleAdd} style={styles.addForm}>
+          <input placeholder="Name" value={newName} onChange={(e) => setNewName(e.target.value)} style={styles.input} />
+          <input placeholder="host:port" value={newHost} onChange={(e) => setNewHost(e.target.value)} style={styles.input} />
+          <input placeholder="Module" value={newModule} onChange={(e) => setNewModule(e.target.value)} style={styles.input} />
+          <label style={styles.checkbox}>
+            <input type="checkbox" checked={newSecure} onChange={(e) => setNewSecure(e.target.checked)} /> wss
+          </label>
+          <button type="submit" style={styles.smallButton}>Add</button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+// Styles for the browser, matching JoinGameDialog
+const styles: { [key: string]: React.CSSProperties } = {
+  overlay: {
+    position: 'fixed',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.75)',
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 1000,
+  },
+  dialog: {
+    backgroundColor: '#2a2a3a',
+    padding: '30px',
+    borderRadius: '8px',
+    border: '1px solid #444',
+    boxShadow: '0 5px 15px rgba(0, 0, 0, 0.5)',
+    color: '#eee',
+    width: '520px',
+  },
+  header: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: '15px',
+  },
+  list: {
+    listStyle: 'none',
+    padding: 0,
+    margin: '0 0 20px 0',
+    maxHeight: '320px',
+    overflowY: 'auto',
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+    padding: '10px',
+    marginBottom: '8px',
+    backgroundColor: '#333',
+    borderRadius: '4px',
+  },
+  serverName: {
+    fontWeight: 'bold',
+  },
+  serverAddress: {
+    fontSize: '12px',
+    color: '#aaa',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  serverStatus: {
+    fontSize: '13px',
+    marginTop: '2px',
+  },
+  addForm: {
+    display: 'flex',
+    gap: '6px',
+    alignItems: 'center',
+  },
+  input: {
+    flex: 1,
+    minWidth: 0,
+    padding: '8px',
+    border: '1px solid #555',
+    borderRadius: '4px',
+    backgroundColor: '#333',
+    color: '#eee',
+    fontSize: '14px',
+  },
+  checkbox: {
+    fontSize: '13px',
+    color: '#aaa',
+    whiteSpace: 'nowrap',
+  },
+  button: {
+    padding: '8px 16px',
+    border: 'none',
+    borderRadius: '4px',
+    backgroundColor: '#4a90e2',
+    color: 'white',
+    fontSize: '14px',
+    cursor: 'pointer',
+  },
+  smallButton: {
+    padding: '6px 12px',
+    border: 'none',
+    borderRadius: '4px',
+    backgroundColor: '#4a54df',
+    color: 'white',
+    fontSize: '13px',
+    cursor: 'pointer',
+  },
+  removeButton: {
+    padding: '6px 10px',
+    border: 'none',
+    borderRadius: '4px',
+    backgroundColor: '#553333',
+    color: '#eee',
+    fontSize: '13px',
+    cursor: 'pointer',
+  },
+};
@@ -0,0 +1,62 @@
+/**
+ * StatusAura.tsx
+ *
+ * Visual feedback for status effects on a character model:
+ *
+ * Key functionality:
+ * - Pulsing ground ring tinted with the most important effect's color
+ * - Translucent bubble around the character while a shield effect is active
+ *
+ * Props:
+ * - color: Tint of the ring (game/statusEffects.ts getStatusTint), or null for none
+ * - shielded: Whether to draw the shield bubble
+ *
+ * Technical implementation:
+ * - Rendered as a child of the Player group, so it follows the model for free
+ * - Ring opacity and scale pulse with useFrame; no state updates per frame
+ *
+ * Related files:
+ * - Player.tsx: Renders the aura for the player's current effects
+ * - game/statusEffects.ts: Effect colors
+ */
+
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+
+const PULSE_SPEED = 4; // Radians per second
+const SHIELD_COLOR = '#f5f0c8';
+
+interface StatusAuraProps {
+  color: string | null;
+  shielded: boolean;
+}
+
+export const StatusAura: React.FC<StatusAuraProps> = ({ color, shielded }) => {
+  const ring = useRef<THREE.Mesh>(null!);
+  const ringMaterial = useRef<THREE.MeshBasicMaterial>(null!);
+
+  useFrame((state) => {
+    if (!ring.current || !ringMaterial.current) return;
+    const pulse = 0.5 + 0.5 * Math.sin(state.clock.elapsedTime * PULSE_SPEED);
+    ring.current.scale.setScalar(1 + pulse * 0.15);
+    ringMaterial.current.opacity = 0.35 + pulse * 0.35;
+  });
+
+  return (
+    <>
+      {color && (
+        <mesh ref={ring} position={[0, 0.05, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+          <ringGeometry args={[0.7, 1.0, 32]} />
+          <meshBasicMaterial ref={ringMaterial} color={color} transparent opacity={0.5} depthWrite={false} side={THREE.DoubleSide} />
+        </mesh>
+      )}
+      {shielded && (
+        <mesh position={[0, 1, 0]}>
+          <sphereGeometry args={[1.2, 24, 16]} />
+          <meshBasicMaterial color={SHIELD_COLOR} transparent opacity={0.18} depthWrite={false} />
+        </mesh>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,76 @@
+/**
+ * ZoneHud.tsx
+ *
+ * Battle royale panel below the match banner:
+ *
+ * Key functionality:
+ * - Zone stage and timer: until the next shrink, until the shrink ends, or closed
+ * - Living players per team
+ * - Warning while the local player stands outside the zone
+ *
+ * Props:
+ * - zone: The zone_state singleton row
+ * - players: All active players, for the survivor counts and the local position
+ * - localPlayer: The local player's row, if registered
+ *
+ * Technical implementation:
+ * - Re-renders every TIMER_REFRESH_MS, since the radius and timer move with the clock
+ *
+ * Related files:
+ * - App.tsx: Tracks zone_state and renders the panel in battle royale
+ * - game/zone.ts: Radius interpolation and timer text
+ * - server/src/zone_logic.rs: Stages and damage
+ */
+
+import React, { useEffect, useState } from 'react';
+import { PlayerData, ZoneState } from '../generated';
+import { getZoneTimer, isOutsideZone } from '../game/zone';
+import { formatClock } from '../game/match';
+import { TEAMS } from '../game/teams';
+
+const TIMER_REFRESH_MS = 250;
+
+interface ZoneHudProps {
+  zone: ZoneState;
+  players: ReadonlyMap<string, PlayerData>;
+  localPlayer: PlayerData | null;
+}
+
+export const ZoneHud: React.FC<ZoneHudProps> = ({ zone, players, localPlayer }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), TIMER_REFRESH_MS);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const timer = getZoneTimer(zone, now);
+  const stage = Math.min(zone.stage + 1, zone.schedule.length);
+  const outside = !!localPlayer && !localPlayer.isDead && isOutsideZone(zone, localPlayer.position, now);
+  const survivors = TEAMS.map(team => ({
+    team,
+    alive: Array.from(players.values()).filter(player => player.team === team.id && !player.isDead).length,
+  }));
+
+  return (
+    <>
+      <div className="zone-hud">
+        <div className="zone-stage">Stage {stage}/{zone.schedule.length}</div>
+        <div className="zone-timer">
+          {timer.label}{timer.seconds !== null && <span className="zone-timer-clock"> {formatClock(timer.seconds)}</span>}
+        </div>
+        <div className="zone-survivors">
+          {survivors.map(({ team, alive }) => (
+            <span key={team.id} className={alive === 0 ? 'eliminated' : ''} style={{ color: team.color }}>
+              {team.name} {alive}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {outside && (
+        <div className="zone-warning">Outside the zone! Taking {zone.damagePerTick} damage per second</div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,59 @@
+/**
+ * ZoneRing.tsx
+ *
+ * Translucent wall around the battle royale safe zone:
+ *
+ * Key functionality:
+ * - Hexagonal wall whose corners sit just outside the outermost safe hexes
+ * - Follows the shrinking radius smoothly between the server's stage updates
+ *
+ * Props:
+ * - zone: The zone_state singleton row
+ *
+ * Technical implementation:
+ * - A unit open-ended cylinder with six radial segments, rotated so a corner
+ *   points along +X like the hex region it encloses, scaled every frame with
+ *   getZoneRadius / getZoneRingRadius
+ *
+ * Related files:
+ * - GameScene.tsx: Renders the ring in battle royale
+ * - game/zone.ts: Radius interpolation and ring size
+ * - server/src/zone_logic.rs: The zone itself
+ */
+
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import * as moduleBindings from '../generated';
+import { getZoneRadius, getZoneRingRadius } from '../game/zone';
+import { hexToWorld } from '../game/map';
+
+type ZoneState = moduleBindings.ZoneState;
+
+const WALL_HEIGHT = 12;
+const WALL_COLOR = '#ff3b3b';
+
+interface ZoneRingProps {
+  zone: ZoneState;
+}
+
+export const ZoneRing: React.FC<ZoneRingProps> = ({ zone }) => {
+  const wall = useRef<THREE.Mesh>(null!);
+  const center = hexToWorld(zone.centerQ, zone.centerR);
+
+  useFrame(() => {
+    if (!wall.current) return;
+    const radius = getZoneRingRadius(Math.max(0, getZoneRadius(zone, Date.now())));
+    wall.current.scale.set(radius, 1, radius);
+  });
+
+  return (
+    <group position={[center.x, WALL_HEIGHT / 2, center.z]}>
+      {/* CylinderGeometry puts its first corner on +Z; a quarter turn moves it to +X */}
+      <mesh ref={wall} rotation={[0, Math.PI / 2, 0]}>
+        <cylinderGeometry args={[1, 1, WALL_HEIGHT, 6, 1, true]} />
+        <meshBasicMaterial color={WALL_COLOR} transparent opacity={0.25} side={THREE.DoubleSide} depthWrite={false} />
+      </mesh>
+    </group>
+  );
+};
@@ -0,0 +1,79 @@
+/**
+ * abilities.ts
+ *
+ * Client-side mirror of the server's class ability definitions, used for the
+ * HUD ability bar, key bindings and for warning the player before the server
+ * rejects an ability:
+ *
+ * Key functionality:
+ * - CLASS_ABILITIES: Abilities per character class (slot, cooldown, mana cost,
+ *   animation key and effect type)
+ * - ABILITY_SLOT_KEYS: Number keys mapped to ability slots 1-4
+ * - getClassAbilities / getPrimaryAbility / getAbilityInSlot: Lookups by class name
+ * - getSlotLabel: Input label shown in the HUD
+ * - canAfford: Whether a mana value covers an ability's cost
+ *
+ * Technical implementation:
+ * - The server is authoritative; entries mirror the AbilityDef tables in
+ *   server/src/ability_logic.rs (same ids, slots, costs and cooldowns)
+ * - Adding an ability means adding an entry here and there; the input only
+ *   carries the slot number, so InputState does not change
+ *
+ * Related files:
+ * - App.tsx: Maps keys to InputState.abilitySlot and shows the "not enough mana" warning
+ * - components/AbilityBar.tsx: Renders the slots with their cooldown sweeps
+ */
+
+// Slot of the ability fired by the left mouse button
+export const PRIMARY_SLOT = 0;
+
+export const ABILITY_SLOT_KEYS: Record<string, number> = {
+  Digit1: 1, Digit2: 2, Digit3: 3, Digit4: 4,
+};
+
+export type AbilityEffect = 'melee_combo' | 'projectile' | 'melee_strike' | 'heal' | 'nova';
+
+export interface AbilityInfo {
+  id: string; // Matches ability_cooldown.abilityId
+  name: string;
+  slot: number; // PRIMARY_SLOT or 1-4
+  manaCost: number;
+  cooldownSecs: number;
+  animation: string; // Played once by Player.tsx; empty for melee_combo (the combo step decides)
+  effect: AbilityEffect;
+}
+
+export const CLASS_ABILITIES: Record<string, AbilityInfo[]> = {
+  Wizard: [
+    { id: 'fireball', name: 'Fireball', slot: PRIMARY_SLOT, manaCost: 10, cooldownSecs: 0.8, animation: 'attack1', effect: 'projectile' },
+    { id: 'frostbolt', name: 'Frostbolt', slot: 1, manaCost: 15, cooldownSecs: 3, animation: 'attack1', effect: 'projectile' },
+    { id: 'arcane_nova', name: 'Arcane Nova', slot: 2, manaCost: 25, cooldownSecs: 8, animation: 'cast', effect: 'nova' },
+    { id: 'mend', name: 'Mend', slot: 3, manaCost: 20, cooldownSecs: 12, animation: 'cast', effect: 'heal' },
+    { id: 'arcane_orb', name: 'Arcane Orb', slot: 4, manaCost: 35, cooldownSecs: 15, animation: 'cast', effect: 'projectile' },
+  ],
+  Paladin: [
+    { id: 'slash', name: 'Slash', slot: PRIMARY_SLOT, manaCost: 0, cooldownSecs: 0, animation: '', effect: 'melee_combo' },
+    { id: 'shield_bash', name: 'Shield Bash', slot: 1, manaCost: 10, cooldownSecs: 6, animation: 'attack4', effect: 'melee_strike' },
+    { id: 'holy_strike', name: 'Holy Strike', slot: 2, manaCost: 20, cooldownSecs: 10, animation: 'slash5', effect: 'melee_strike' },
+    { id: 'lay_on_hands', name: 'Lay on Hands', slot: 3, manaCost: 30, cooldownSecs: 30, animation: 'cast', effect: 'heal' }, // Also shields the paladin
+    { id: 'consecration', name: 'Consecration', slot: 4, manaCost: 25, cooldownSecs: 15, animation: 'cast', effect: 'nova' },
+  ],
+};
+
+const DEFAULT_ABILITIES: AbilityInfo[] = [
+  { id: 'attack', name: 'Attack', slot: PRIMARY_SLOT, manaCost: 0, cooldownSecs: 0, animation: '', effect: 'melee_combo' },
+];
+
+export const getClassAbilities = (characterClass: string): AbilityInfo[] =>
+  CLASS_ABILITIES[characterClass] ?? DEFAULT_ABILITIES;
+
+export const getAbilityInSlot = (characterClass: string, slot: number): AbilityInfo | undefined =>
+  getClassAbilities(characterClass).find(ability => ability.slot === slot);
+
+// The ability bound to the left mouse button
+export const getPrimaryAbility = (characterClass: string): AbilityInfo | undefined =>
+  getAbilityInSlot(characterClass, PRIMARY_SLOT);
+
+export const getSlotLabel = (slot: number): string => (slot === PRIMARY_SLOT ? 'LMB' : String(slot));
+
+export const canAfford = (ability: AbilityInfo, mana: number): boolean => mana >= ability.manaCost;
@@ -0,0 +1,214 @@
+/**
+ * characterAssets.ts
+ *
+ * Character models and animations shared by every animated character: players
+ * (components/Player.tsx) and creep minions (components/Npc.tsx):
+ *
+ * Key functionality:
+ * - loadCharacterAssets: Loads a class's FBX model and animation clips once and
+ *   caches them, so a wave of minions does not download the files again
+ * - createCharacterInstance: Clones the cached model for one character, with its
+ *   own mixer and one action per clip (loop mode set per animation)
+ * - isLoopingAnimation: Idle, walk and run cycles loop; everything else plays once
+ *
+ * Technical implementation:
+ * - Models are cloned with SkeletonUtils so every instance animates its own skeleton
+ * - Lights embedded in the FBX files are removed once, on the cached model
+ * - Clips are made in-place (root position tracks removed): the server moves characters
+ * - Missing or broken animation files are logged and skipped; the character
+ *   falls back to the animations that did load
+ *
+ * Related files:
+ * - components/Player.tsx: Players
+ * - components/Npc.tsx: Creep minions
+ * - server/src/combat_logic.rs / ability_logic.rs: Animation keys the server sends
+ */
+
+import * as THREE from 'three';
+import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader.js';
+import * as SkeletonUtils from 'three/examples/jsm/utils/SkeletonUtils.js';
+
+interface CharacterDef {
+  basePath: string;
+  model: string;
+  scale: number;
+  animations: Record<string, string>; // Animation key -> file name in basePath
+}
+
+const WIZARD: CharacterDef = {
+  basePath: '/models/wizard/',
+  model: 'wizard.fbx',
+  scale: 0.02,
+  animations: {
+    idle: 'wizard-standing-idle.fbx',
+    'walk-forward': 'wizard-standing-walk-forward.fbx',
+    'walk-back': 'wizard-standing-walk-back.fbx',
+    'walk-left': 'wizard-standing-walk-left.fbx',
+    'walk-right': 'wizard-standing-walk-right.fbx',
+    'run-forward': 'wizard-standing-run-forward.fbx',
+    'run-back': 'wizard-standing-run-back.fbx',
+    'run-left': 'wizard-standing-run-left.fbx',
+    'run-right': 'wizard-standing-run-right.fbx',
+    jump: 'wizard-standing-jump.fbx',
+    attack1: 'wizard-standing-1h-magic-attack-01.fbx',
+    cast: 'wizard-standing-2h-magic-area-attack-02.fbx',
+    damage: 'wizard-standing-react-small-from-front.fbx',
+    death: 'wizard-standing-react-death-backward.fbx',
+  },
+};
+
+const PALADIN: CharacterDef = {
+  basePath: '/models/paladin/',
+  model: 'paladin.fbx',
+  scale: 1.0,
+  animations: {
+    idle: 'paladin-idle.fbx',
+    'walk-forward': 'paladin-walk-forward.fbx',
+    'walk-back': 'paladin-walk-back.fbx',
+    'walk-left': 'paladin-walk-left.fbx',
+    'walk-right': 'paladin-walk-right.fbx',
+    'run-forward': 'paladin-run-forward.fbx',
+    'run-back': 'paladin-run-back.fbx',
+    'run-left': 'paladin-run-left.fbx',
+    'run-right': 'paladin-run-right.fbx',
+    jump: 'paladin-jump.fbx',
+    attack1: 'paladin-attack.fbx',
+    cast: 'paladin-cast.fbx',
+    damage: 'paladin-damage.fbx',
+    death: 'paladin-death.fbx',
+    // Only the paladin has a shield and a combo chain (order in game/combo.ts)
+    block: 'paladin-block.fbx',
+    'block-idle': 'paladin-block-idle.fbx',
+    attack2: 'paladin-attack2.fbx',
+    attack3: 'paladin-attack3.fbx',
+    attack4: 'paladin-attack4.fbx',
+    slash: 'paladin-slash.fbx',
+    slash2: 'paladin-slash2.fbx',
+    slash3: 'paladin-slash3.fbx',
+    slash4: 'paladin-slash4.fbx',
+    slash5: 'paladin-slash5.fbx',
+  },
+};
+
+// Lowers the model slightly so the feet touch the ground
+const MODEL_Y_OFFSET = -0.1;
+// Root bones whose position tracks carry root motion; the first position track is used otherwise
+const ROOT_TRACK_NAMES = ['Hips.position', 'mixamorigHips.position', 'root.position', 'Armature.position', 'Root.position'];
+
+export interface CharacterAssets {
+  model: THREE.Group;
+  scale: number;
+  clips: Record<string, THREE.AnimationClip>;
+}
+
+export interface CharacterInstance {
+  model: THREE.Object3D;
+  mixer: THREE.AnimationMixer;
+  actions: Record<string, THREE.AnimationAction>;
+}
+
+// Anything but the paladin uses the wizard model
+const getCharacterDef = (characterClass: string): CharacterDef =>
+  characterClass === 'Paladin' ? PALADIN : WIZARD;
+
+export const isLoopingAnimation = (name: string): boolean =>
+  name === 'idle' || name === 'block-idle' || name.startsWith('walk-') || name.startsWith('run-');
+
+// Remove the root bone's position tracks so the animation plays on the spot
+const makeAnimationInPlace = (clip: THREE.AnimationClip) => {
+  const positionTracks = clip.tracks.filter(track => track.name.endsWith('.position'));
+  if (positionTracks.length === 0) return;
+
+  const rootTrack = positionTracks.find(track =>
+    ROOT_TRACK_NAMES.some(name => track.name.toLowerCase().includes(name.toLowerCase()))
+  ) ?? positionTracks[0];
+  const rootTrackNameBase = rootTrack.name.split('.')[0];
+  clip.tracks = clip.tracks.filter(track => !track.name.startsWith(`${rootTrackNameBase}.position`));
+};
+
+const loadAnimationClip = async (loader: FBXLoader, name: string, path: string): Promise<THREE.AnimationClip | null> => {
+  try {
+    const animFbx = await loader.loadAsync(path);
+    const clip = animFbx.animations[0];
+    if (!clip) {
+      console.error(`No animations found in ${path}`);
+      return null;
+    }
+    clip.name = name;
+    makeAnimationInPlace(clip);
+    return clip;
+  } catch (error) {
+    console.error(`Error loading animation ${name} from ${path}:`, error);
+    return null;
+  }
+};
+
+const loadAssets = async (def: CharacterDef): Promise<CharacterAssets> => {
+  const loader = new FBXLoader();
+  const model = await loader.loadAsync(`${def.basePath}${def.model}`);
+
+  // Lights exported with the model would light up the whole scene around every character
+  const lights: THREE.Light[] = [];
+  model.traverse((child) => {
+    if (child instanceof THREE.Light) lights.push(child);
+  });
+  lights.forEach(light => light.removeFromParent());
+
+  const entries = await Promise.all(
+    Object.entries(def.animations).map(async ([name, file]) =>
+      [name, await loadAnimationClip(loader, name, `${def.basePath}${file}`)] as const
+    )
+  );
+  const clips: Record<string, THREE.AnimationClip> = {};
+  entries.forEach(([name, clip]) => {
+    if (clip) clips[name] = clip;
+  });
+  const total = Object.keys(def.animations).length;
+  if (Object.keys(clips).length < total) {
+    console.warn(`⚠️ Loaded ${Object.keys(clips).length}/${total} animations for ${def.model}. Some might be missing.`);
+  }
+
+  return { model, scale: def.scale, clips };
+};
+
+const assetCache = new Map<CharacterDef, Promise<CharacterAssets>>();
+
+export const loadCharacterAssets = (characterClass: string): Promise<CharacterAssets> => {
+  const def = getCharacterDef(characterClass);
+  let assets = assetCache.get(def);
+  if (!assets) {
+    assets = loadAssets(def);
+    // A failed download may succeed on the next attempt
+    assets.catch(() => assetCache.delete(def));
+    assetCache.set(def, assets);
+  }
+  return assets;
+};
+
+// `scale` multiplies the class's own model scale (e.g. smaller minions)
+export const createCharacterInstance = (assets: CharacterAssets, scale = 1): CharacterInstance => {
+  const model = SkeletonUtils.clone(assets.model);
+  model.scale.setScalar(assets.scale * scale);
+  model.position.set(0, MODEL_Y_OFFSET, 0);
+  model.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.castShadow = true;
+      child.receiveShadow = true;
+    }
+  });
+
+  const mixer = new THREE.AnimationMixer(model);
+  const actions: Record<string, THREE.AnimationAction> = {};
+  Object.entries(assets.clips).forEach(([name, clip]) => {
+    const action = mixer.clipAction(clip);
+    if (isLoopingAnimation(name)) {
+      action.setLoop(THREE.LoopRepeat, Infinity);
+    } else {
+      action.setLoop(THREE.LoopOnce, 1);
+      action.clampWhenFinished = true;
+    }
+    actions[name] = action;
+  });
+
+  return { model, mixer, actions };
+};
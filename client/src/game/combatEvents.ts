@@ -0,0 +1,55 @@
+/**
+ * combatEvents.ts
+ *
+ * Helpers for reacting to rows of the server's combat_event table. The server
+ * decides every hit; clients only play feedback for the rows they receive:
+ *
+ * Key functionality:
+ * - MAX_COMBAT_EVENTS: How many recent events App.tsx keeps in state
+ * - latestCombatEventId: Highest event id in a list (ids are auto-incremented)
+ * - isDamageEvent: Whether an event is a hit ("heal" events are not)
+ * - getNewHitsOn: Damage events for one target that arrived after a given id
+ * - getNewEventsOn: Every event (hits and heals) for one target after a given id
+ * - getNewHitsBy: Damage events dealt by one attacker after a given id
+ *
+ * Technical implementation:
+ * - Consumers remember the newest id they have handled, starting from the
+ *   newest id present when they mount, so old events never replay
+ *
+ * Related files:
+ * - App.tsx: Collects combat_event inserts into React state
+ * - components/Player.tsx: Plays the damage animation on the hit player
+ * - components/PlayerUI.tsx: Flashes the screen when the local player is hit
+ * - components/CombatText.tsx: Floating numbers above the target
+ * - components/HitMarker.tsx: Crosshair pulse when the local player lands a hit
+ * - server/src/combat_logic.rs: Inserts the events
+ */
+
+import { Identity } from '@clockworklabs/spacetimedb-sdk';
+import * as moduleBindings from '../generated';
+
+type CombatEvent = moduleBindings.CombatEvent;
+
+export const MAX_COMBAT_EVENTS = 32;
+
+export const latestCombatEventId = (events: readonly CombatEvent[] | undefined): bigint =>
+  (events ?? []).reduce((max, event) => (event.id > max ? event.id : max), BigInt(0));
+
+const DAMAGE_KINDS = new Set(['melee_hit', 'spell_hit', 'burn', 'minion_hit', 'fall', 'hazard']);
+
+export const isDamageEvent = (event: CombatEvent): boolean => DAMAGE_KINDS.has(event.kind);
+
+export const getNewEventsOn = (events: readonly CombatEvent[] | undefined, target: Identity, afterId: bigint): CombatEvent[] => {
+  if (!events) return [];
+  const targetHex = target.toHexString();
+  return events.filter(event => event.id > afterId && event.target.toHexString() === targetHex);
+};
+
+export const getNewHitsOn = (events: readonly CombatEvent[] | undefined, target: Identity, afterId: bigint): CombatEvent[] =>
+  getNewEventsOn(events, target, afterId).filter(isDamageEvent);
+
+export const getNewHitsBy = (events: readonly CombatEvent[] | undefined, attacker: Identity, afterId: bigint): CombatEvent[] => {
+  if (!events) return [];
+  const attackerHex = attacker.toHexString();
+  return events.filter(event => event.id > afterId && isDamageEvent(event) && event.attacker.toHexString() === attackerHex);
+};
@@ -0,0 +1,34 @@
+/**
+ * combo.ts
+ *
+ * Client view of the server's melee combo chains. The server decides which
+ * step a swing is (PlayerData.comboStep) and writes the step's animation to
+ * currentAnimation; the client only needs to know the animation keys:
+ *
+ * Key functionality:
+ * - COMBO_ANIMATIONS: Animation key for every step, per character class
+ * - getComboAnimation: Animation for a 1-based combo step
+ * - isComboAnimation: Whether an animation key is a melee swing (plays once)
+ *
+ * Related files:
+ * - server/src/combat_logic.rs: PALADIN_COMBO and friends (same order)
+ * - App.tsx: determineAnimation reports the current step while attack is held
+ * - components/Player.tsx: Loads the step animations and returns to idle after each
+ */
+
+export const COMBO_ANIMATIONS: Record<string, string[]> = {
+  Paladin: ['attack1', 'slash', 'slash2', 'attack2', 'slash3', 'attack3', 'slash4', 'attack4', 'slash5'],
+  Wizard: ['attack1'],
+};
+
+const DEFAULT_COMBO = ['attack1'];
+
+const ALL_COMBO_ANIMATIONS = new Set(Object.values(COMBO_ANIMATIONS).flat());
+
+// step is 1-based; 0 (no swing yet) and out-of-range steps map to the first swing
+export const getComboAnimation = (characterClass: string, step: number): string => {
+  const chain = COMBO_ANIMATIONS[characterClass] ?? DEFAULT_COMBO;
+  return chain[step - 1] ?? chain[0];
+};
+
+export const isComboAnimation = (name: string): boolean => ALL_COMBO_ANIMATIONS.has(name);
@@ -0,0 +1,84 @@
+/**
+ * flags.ts
+ *
+ * Client view of the capture the flag mode. The server owns the flag rows and
+ * validates every pickup; the client only draws the flags, offers the pickup
+ * key when one is in reach and shows the captures:
+ *
+ * Key functionality:
+ * - FLAG_STATES: Flag state ids (home, carried, dropped)
+ * - FLAG_PICKUP_RADIUS / CAPTURES_TO_WIN: Mirror the server constants
+ * - isFlagMode: Whether the match runs capture the flag
+ * - getCarriedFlag: The flag a player carries, if any
+ * - findReachableFlag: Flag the local player can take or return right now
+ * - getFlagStatus: One-line state text for the HUD
+ *
+ * Related files:
+ * - components/Flag.tsx: Flag models in the world and on carriers
+ * - components/FlagHud.tsx: Captures, flag states and the pickup prompt
+ * - App.tsx: The E key calls pick_up_flag with findReachableFlag's flag
+ * - server/src/flag_logic.rs: Pickups, drops, returns and captures
+ */
+
+import { Identity } from '@clockworklabs/spacetimedb-sdk';
+import * as moduleBindings from '../generated';
+import { GAME_MODES } from './match';
+
+type Flag = moduleBindings.Flag;
+type MatchState = moduleBindings.MatchState;
+type PlayerData = moduleBindings.PlayerData;
+
+export const FLAG_STATES = {
+  HOME: 'home',
+  CARRIED: 'carried',
+  DROPPED: 'dropped',
+} as const;
+
+// Keep in sync with FLAG_PICKUP_RADIUS and CAPTURES_TO_WIN in server/src/flag_logic.rs
+export const FLAG_PICKUP_RADIUS = 3;
+export const CAPTURES_TO_WIN = 3;
+
+export const FLAG_PICKUP_KEY = 'KeyE';
+
+export const isFlagMode = (matchState: MatchState | null): boolean =>
+  matchState?.mode === GAME_MODES.CAPTURE_THE_FLAG;
+
+export const getCarriedFlag = (flags: ReadonlyMap<string, Flag>, carrier: Identity): Flag | undefined => {
+  const carrierHex = carrier.toHexString();
+  for (const flag of flags.values()) {
+    if (flag.carrier && flag.carrier.toHexString() === carrierHex) return flag;
+  }
+  return undefined;
+};
+
+// Nearest flag in reach that the server would accept: an enemy flag lying
+// anywhere (unless the player already carries one), or the own team's dropped flag
+export const findReachableFlag = (flags: ReadonlyMap<string, Flag>, player: PlayerData): Flag | undefined => {
+  if (player.isDead) return undefined;
+  const carrying = !!getCarriedFlag(flags, player.identity);
+  let nearest: Flag | undefined;
+  let nearestDistance = FLAG_PICKUP_RADIUS;
+  for (const flag of flags.values()) {
+    if (flag.state === FLAG_STATES.CARRIED) continue;
+    const isOwn = flag.team === player.team;
+    if (isOwn ? flag.state !== FLAG_STATES.DROPPED : carrying) continue;
+    const distance = Math.hypot(flag.position.x - player.position.x, flag.position.z - player.position.z);
+    if (distance <= nearestDistance) {
+      nearest = flag;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+};
+
+export const getFlagStatus = (flag: Flag, players: ReadonlyMap<string, PlayerData>, nowMs: number): string => {
+  if (flag.state === FLAG_STATES.CARRIED && flag.carrier) {
+    return `Carried by ${players.get(flag.carrier.toHexString())?.username ?? 'someone'}`;
+  }
+  if (flag.state === FLAG_STATES.DROPPED) {
+    if (!flag.returnsAt) return 'Dropped';
+    const secondsLeft = Math.max(0, Math.ceil((flag.returnsAt.toDate().getTime() - nowMs) / 1000));
+    return `Dropped, returns in ${secondsLeft}s`;
+  }
+  return 'At base';
+};
@@ -0,0 +1,45 @@
+/**
+ * hill.ts
+ *
+ * Client view of the king of the hill mode. The server decides who stands on
+ * the arena (the arena tiles of the published map, map_logic::is_in_arena) and runs
+ * capture and scoring; the client only shows hill_state and team_score:
+ *
+ * Key functionality:
+ * - HILL_POINTS_TO_WIN: Mirrors the server constant for the score bars
+ * - isHillMode: Whether the match runs king of the hill
+ * - getArenaTint: Color of the team holding the hill, for HexGrid
+ * - getHillStatus: One-line control / capture / contested text
+ *
+ * Related files:
+ * - components/HillHud.tsx: Team points and capture progress
+ * - components/HexGrid.tsx: Tints the arena tiles
+ * - server/src/hill_logic.rs: Capture and scoring
+ */
+
+import * as moduleBindings from '../generated';
+import { GAME_MODES } from './match';
+import { getTeamInfo, getTeamColor } from './teams';
+
+type MatchState = moduleBindings.MatchState;
+type HillState = moduleBindings.HillState;
+
+// Keep in sync with HILL_POINTS_TO_WIN in server/src/hill_logic.rs
+export const HILL_POINTS_TO_WIN = 100;
+
+export const isHillMode = (matchState: MatchState | null): boolean =>
+  matchState?.mode === GAME_MODES.KING_OF_THE_HILL;
+
+export const getArenaTint = (matchState: MatchState | null, hillState: HillState | null): string | null => {
+  if (!isHillMode(matchState) || !hillState?.controllingTeam) return null;
+  return getTeamColor(hillState.controllingTeam);
+};
+
+export const getHillStatus = (hillState: HillState): string => {
+  if (hillState.contested) return 'Hill contested!';
+  if (hillState.capturingTeam && hillState.captureProgress > 0) {
+    return `${getTeamInfo(hillState.capturingTeam).name} capturing ${Math.floor(hillState.captureProgress * 100)}%`;
+  }
+  if (hillState.controllingTeam) return `${getTeamInfo(hillState.controllingTeam).name} holds the hill`;
+  return 'Hill is neutral';
+};
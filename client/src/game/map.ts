@@ -0,0 +1,154 @@
+/**
+ * map.ts
+ *
+ * Client view of the hex map. The server generates the map (or takes one from the
+ * map editor) and publishes it in the map_definition and map_tile tables; the
+ * client draws those rows and shares the server's hex math:
+ *
+ * Key functionality:
+ * - TILE_TYPES: Tile type ids; hexes without a tile are empty
+ * - PROPS: Decorations a tile can carry
+ * - HEX_SIZE: Hex size used until map_definition has arrived
+ * - hexToWorld / worldToHex: Axial coordinates to world X/Z and back
+ * - hexDistance: Distance between two axial coordinates in hex steps
+ * - hexKey: Map key of an axial coordinate
+ * - createMapBounds: Tile heights and the lethal edges option of the published map
+ * - getGroundHeight / followTerrain: Terrain height sampling, same as map_logic
+ * - canStep: Step-height rule; small rises are walked, cliffs need a jump
+ * - constrainMovement: Client mirror of map_logic::constrain_movement, used by
+ *   movement.ts so prediction stops, slides, climbs or steps off exactly like the server
+ *
+ * Related files:
+ * - components/HexGrid.tsx: Draws the tiles
+ * - game/mapFormat.ts / components/MapEditor.tsx: Edited maps
+ * - game/zone.ts: Battle royale zone on the same hex grid
+ * - App.tsx: Tracks the map_definition row and the map_tile rows
+ * - game/movement.ts / network/prediction.ts: Movement bounds for prediction
+ * - server/src/map_logic.rs: Map generation and tile classification
+ */
+
+import * as THREE from 'three';
+import * as moduleBindings from '../generated';
+
+type MapDefinition = moduleBindings.MapDefinition;
+type MapTile = moduleBindings.MapTile;
+
+// Keep in sync with the TILE_* constants in server/src/map_logic.rs.
+// The generated map only uses base, arena and path; the rest come from the map editor.
+export const TILE_TYPES = {
+  BASE: 'base',
+  ARENA: 'arena',
+  PATH: 'path',
+  FLOOR: 'floor',
+  WALL: 'wall', // Never entered
+  HAZARD: 'hazard', // Hurts instead of regenerating (server side only)
+  SPAWN: 'spawn', // Spawn point of its base
+} as const;
+
+// Keep in sync with PROPS in server/src/map_logic.rs; decoration only, they do not block
+export const PROPS = ['rock', 'tree', 'crate'] as const;
+
+// Keep in sync with HEX_SIZE, SPAWN_HEIGHT, LEVEL_HEIGHT, MAX_STEP_HEIGHT and MAX_JUMP_HEIGHT in server/src/map_logic.rs
+export const HEX_SIZE = 3;
+export const SPAWN_HEIGHT = 1; // Position of a standing player above the tile surface
+export const LEVEL_HEIGHT = 0.5; // Used until map_definition has arrived
+export const MAX_STEP_HEIGHT = 0.5; // Higher rises need the jump input...
+export const MAX_JUMP_HEIGHT = 1; // ...and cannot be higher than this
+
+// Pointy-top axial layout, same as map_logic::hex_to_world
+export const hexToWorld = (q: number, r: number, hexSize = HEX_SIZE): { x: number; z: number } => ({
+  x: hexSize * (Math.sqrt(3) * q + Math.sqrt(3) / 2 * r),
+  z: hexSize * (3 / 2 * r),
+});
+
+// Inverse of hexToWorld with cube rounding, same as map_logic::world_to_hex
+export const worldToHex = (x: number, z: number, hexSize = HEX_SIZE): { q: number; r: number } => {
+  const q = (Math.sqrt(3) / 3 * x - z / 3) / hexSize;
+  const r = (2 / 3 * z) / hexSize;
+  const s = -q - r;
+  let roundedQ = Math.round(q);
+  let roundedR = Math.round(r);
+  const roundedS = Math.round(s);
+  const qDiff = Math.abs(roundedQ - q);
+  const rDiff = Math.abs(roundedR - r);
+  const sDiff = Math.abs(roundedS - s);
+  if (qDiff > rDiff && qDiff > sDiff) {
+    roundedQ = -roundedR - roundedS;
+  } else if (rDiff > sDiff) {
+    roundedR = -roundedQ - roundedS;
+  }
+  return { q: roundedQ, r: roundedR };
+};
+
+export const hexDistance = (q1: number, r1: number, q2: number, r2: number): number => {
+  const dq = q1 - q2;
+  const dr = r1 - r2;
+  return Math.max(Math.abs(dq), Math.abs(dr), Math.abs(dq + dr));
+};
+
+export const hexKey = (q: number, r: number): string => `${q},${r}`;
+
+export interface MapBounds {
+  groundHeights: ReadonlyMap<string, number>; // Tile surface height by hexKey; hexes without a tile are missing
+  walls: ReadonlySet<string>; // hexKeys of wall tiles
+  hexSize: number;
+  lethalEdges: boolean;
+}
+
+export const createMapBounds = (tiles: ReadonlyMap<string, MapTile>, definition: MapDefinition | null): MapBounds => {
+  const levelHeight = definition?.levelHeight ?? LEVEL_HEIGHT;
+  return {
+    groundHeights: new Map(Array.from(tiles.values(), tile => [hexKey(tile.q, tile.r), tile.elevation * levelHeight] as const)),
+    walls: new Set(Array.from(tiles.values()).filter(tile => tile.tileType === TILE_TYPES.WALL).map(tile => hexKey(tile.q, tile.r))),
+    hexSize: definition?.hexSize ?? HEX_SIZE,
+    lethalEdges: definition?.lethalEdges ?? false,
+  };
+};
+
+// Height of the tile surface under a world position, or null off the tiles (map_logic::ground_height)
+export const getGroundHeight = (bounds: MapBounds, x: number, z: number): number | null => {
+  const { q, r } = worldToHex(x, z, bounds.hexSize);
+  return bounds.groundHeights.get(hexKey(q, r)) ?? null;
+};
+
+// Same step-height rule as map_logic::can_step
+export const canStep = (fromGround: number, toGround: number, jump: boolean): boolean => {
+  const rise = toGround - fromGround;
+  return rise <= MAX_STEP_HEIGHT || (jump && rise <= MAX_JUMP_HEIGHT);
+};
+
+// Standing height on the tile under a position; positions off the tiles keep their height
+export const followTerrain = (bounds: MapBounds, position: THREE.Vector3): THREE.Vector3 => {
+  const ground = getGroundHeight(bounds, position.x, position.z);
+  if (ground !== null) position.y = ground + SPAWN_HEIGHT;
+  return position;
+};
+
+// Same rules and order as map_logic::constrain_movement: off the tiles nobody moves with
+// lethal edges (falling) and anybody may walk back without them; on the tiles a tile is
+// entered if canStep allows it, walls never are, and leaving the tiles steps off only
+// with lethal edges. A refused move slides along the edge, cliff or wall (x first) or
+// stops. Returns a new vector.
+export const constrainMovement = (bounds: MapBounds, from: THREE.Vector3, to: THREE.Vector3, jump: boolean): THREE.Vector3 => {
+  const fromGround = getGroundHeight(bounds, from.x, from.z);
+  const canEnter = (x: number, z: number): boolean => {
+    const { q, r } = worldToHex(x, z, bounds.hexSize);
+    if (bounds.walls.has(hexKey(q, r))) return false;
+    const ground = getGroundHeight(bounds, x, z);
+    return ground === null ? bounds.lethalEdges : canStep(fromGround ?? 0, ground, jump);
+  };
+
+  let constrained: THREE.Vector3;
+  if (fromGround === null) {
+    constrained = bounds.lethalEdges ? from.clone() : to.clone();
+  } else if (canEnter(to.x, to.z)) {
+    constrained = to.clone();
+  } else if (canEnter(to.x, from.z)) {
+    constrained = new THREE.Vector3(to.x, to.y, from.z);
+  } else if (canEnter(from.x, to.z)) {
+    constrained = new THREE.Vector3(from.x, to.y, to.z);
+  } else {
+    constrained = from.clone();
+  }
+  return followTerrain(bounds, constrained);
+};
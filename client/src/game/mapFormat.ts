@@ -0,0 +1,234 @@
+/**
+ * mapFormat.ts
+ *
+ * Versioned JSON file format of the map editor (components/MapEditor.tsx) and the
+ * rules a map must pass before the server accepts it as the active map:
+ *
+ * Key functionality:
+ * - MapFile: Format id, version, name, level height and one entry per non-empty hex
+ * - mapFileFromTiles: The published map (map_tile rows) as a MapFile, to edit it
+ * - serializeMap / parseMap: JSON text and back; parseMap rejects other files,
+ *   newer versions and malformed tiles with a readable Error
+ * - toMapTiles: A MapFile as map_tile-like rows, so HexGrid draws it
+ * - toTileInputs: A MapFile as upload_map reducer arguments
+ * - validateMap: Same rules as map_logic::validate_map, including every base
+ *   reaching every other base on foot; returns every problem (empty when valid)
+ *
+ * Related files:
+ * - components/MapEditor.tsx: Editing, import/export and upload
+ * - game/map.ts: Tile types, props and the step-height rule
+ * - server/src/map_logic.rs: upload_map and validate_map
+ */
+
+import * as moduleBindings from '../generated';
+import { LEVEL_HEIGHT, PROPS, TILE_TYPES, canStep, hexDistance, hexKey } from './map';
+import { TEAMS } from './teams';
+
+type MapDefinition = moduleBindings.MapDefinition;
+type MapTile = moduleBindings.MapTile;
+type MapTileInput = moduleBindings.MapTileInput;
+
+export const MAP_FORMAT = 'vibe-arena-map';
+// Bump when the file layout changes, and teach parseMap to read the older versions
+export const MAP_FORMAT_VERSION = 1;
+
+// Keep in sync with MAP_GRID_RADIUS and the upload limits in server/src/map_logic.rs
+export const MAP_GRID_RADIUS = 20;
+export const MIN_ELEVATION = -8;
+export const MAX_ELEVATION = 16;
+export const MIN_LEVEL_HEIGHT = 0.1;
+export const MAX_LEVEL_HEIGHT = 2;
+
+export interface MapFileTile {
+  q: number;
+  r: number;
+  type: string; // TILE_TYPES value
+  elevation: number;
+  base?: number; // Base and spawn tiles only: base index, in TEAMS order
+  prop?: string; // PROPS value
+}
+
+export interface MapFile {
+  format: typeof MAP_FORMAT;
+  version: number;
+  name: string;
+  levelHeight: number; // World units per elevation level
+  tiles: MapFileTile[];
+}
+
+const HEX_DIRECTIONS = [[1, 0], [1, -1], [0, -1], [-1, 0], [-1, 1], [0, 1]] as const;
+
+// Leaves out the optional fields that are not set, so files stay small
+export const createMapFileTile = (q: number, r: number, type: string, elevation: number, base?: number, prop?: string): MapFileTile => {
+  const tile: MapFileTile = { q, r, type, elevation };
+  if (base !== undefined) tile.base = base;
+  if (prop !== undefined) tile.prop = prop;
+  return tile;
+};
+
+export const createEmptyMap = (name: string, levelHeight = LEVEL_HEIGHT): MapFile => ({
+  format: MAP_FORMAT,
+  version: MAP_FORMAT_VERSION,
+  name,
+  levelHeight,
+  tiles: [],
+});
+
+export const mapFileFromTiles = (tiles: ReadonlyMap<string, MapTile>, definition: MapDefinition | null, name: string): MapFile => ({
+  ...createEmptyMap(name, definition?.levelHeight ?? LEVEL_HEIGHT),
+  tiles: Array.from(tiles.values(), tile => createMapFileTile(tile.q, tile.r, tile.tileType, tile.elevation, tile.baseIndex, tile.prop)),
+});
+
+export const serializeMap = (map: MapFile): string => JSON.stringify(map, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+
+const isOptional = <T>(value: unknown, isValid: (value: unknown) => value is T): value is T | undefined =>
+  value === undefined || isValid(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const parseTile = (tile: unknown, index: number): MapFileTile => {
+  if (!isRecord(tile)) {
+    throw new Error(`Tile ${index + 1} is not an object`);
+  }
+  const { q, r, type, elevation, base, prop } = tile;
+  if (!isInteger(q) || !isInteger(r) || !isInteger(elevation) || !isString(type)) {
+    throw new Error(`Tile ${index + 1} needs whole-number q, r and elevation and a type`);
+  }
+  if (!isOptional(base, isInteger)) {
+    throw new Error(`Tile ${index + 1} has a base that is not a whole number`);
+  }
+  if (!isOptional(prop, isString)) {
+    throw new Error(`Tile ${index + 1} has a prop that is not a name`);
+  }
+  return createMapFileTile(q, r, type, elevation, base, prop);
+};
+
+// Only the file structure is checked here; validateMap reports what the server would refuse
+export const parseMap = (text: string): MapFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!isRecord(data) || data.format !== MAP_FORMAT) {
+    throw new Error('The file is not a map file');
+  }
+  if (!isInteger(data.version) || data.version < 1) {
+    throw new Error('The map file has no format version');
+  }
+  if (data.version > MAP_FORMAT_VERSION) {
+    throw new Error(`The map file has format version ${data.version}; this client reads up to version ${MAP_FORMAT_VERSION}`);
+  }
+  if (!Array.isArray(data.tiles)) {
+    throw new Error('The map file has no tile list');
+  }
+  return {
+    ...createEmptyMap(typeof data.name === 'string' ? data.name : 'Imported map'),
+    levelHeight: typeof data.levelHeight === 'number' ? data.levelHeight : LEVEL_HEIGHT,
+    tiles: data.tiles.map(parseTile),
+  };
+};
+
+// Keyed by hexKey like App's map_tile rows are by id; HexGrid only reads the values
+export const toMapTiles = (map: MapFile): ReadonlyMap<string, MapTile> =>
+  new Map(map.tiles.map((tile, index) => [hexKey(tile.q, tile.r), {
+    id: BigInt(index),
+    q: tile.q,
+    r: tile.r,
+    tileType: tile.type,
+    elevation: tile.elevation,
+    baseIndex: tile.base,
+    prop: tile.prop,
+  }]));
+
+export const toTileInputs = (map: MapFile): MapTileInput[] =>
+  map.tiles.map(tile => ({
+    q: tile.q,
+    r: tile.r,
+    tileType: tile.type,
+    elevation: tile.elevation,
+    baseIndex: tile.base,
+    prop: tile.prop,
+  }));
+
+// Hexes a player can walk or jump to from `start` under canStep; walls and empty hexes block
+const reachableHexes = (byHex: ReadonlyMap<string, MapFileTile>, start: readonly MapFileTile[], levelHeight: number): Set<string> => {
+  const reached = new Set(start.map(tile => hexKey(tile.q, tile.r)));
+  const queue = [...start];
+  for (let next = queue.shift(); next; next = queue.shift()) {
+    const from = next;
+    HEX_DIRECTIONS.forEach(([stepQ, stepR]) => {
+      const key = hexKey(from.q + stepQ, from.r + stepR);
+      const tile = byHex.get(key);
+      if (!tile || tile.type === TILE_TYPES.WALL || reached.has(key)) return;
+      if (canStep(from.elevation * levelHeight, tile.elevation * levelHeight, true)) {
+        reached.add(key);
+        queue.push(tile);
+      }
+    });
+  }
+  return reached;
+};
+
+// Same rules as map_logic::validate_map; the server reports only the first problem it finds
+export const validateMap = (map: MapFile): string[] => {
+  const problems: string[] = [];
+  if (!(map.levelHeight >= MIN_LEVEL_HEIGHT && map.levelHeight <= MAX_LEVEL_HEIGHT)) {
+    problems.push(`The level height must be between ${MIN_LEVEL_HEIGHT} and ${MAX_LEVEL_HEIGHT}`);
+  }
+
+  const tileTypes: readonly string[] = Object.values(TILE_TYPES);
+  const props: readonly string[] = PROPS;
+  const byHex = new Map<string, MapFileTile>();
+  map.tiles.forEach(tile => {
+    const name = `Tile (${tile.q}, ${tile.r})`;
+    if (hexDistance(tile.q, tile.r, 0, 0) > MAP_GRID_RADIUS) {
+      problems.push(`${name} is more than ${MAP_GRID_RADIUS} hexes from the map center`);
+    }
+    if (!tileTypes.includes(tile.type)) {
+      problems.push(`${name} has the unknown type "${tile.type}"`);
+    }
+    if (tile.elevation < MIN_ELEVATION || tile.elevation > MAX_ELEVATION) {
+      problems.push(`${name} must have an elevation between ${MIN_ELEVATION} and ${MAX_ELEVATION}`);
+    }
+    const belongsToBase = tile.type === TILE_TYPES.BASE || tile.type === TILE_TYPES.SPAWN;
+    if (belongsToBase && tile.base === undefined) {
+      problems.push(`${name} is a ${tile.type} tile without a base`);
+    } else if (!belongsToBase && tile.base !== undefined) {
+      problems.push(`${name} is a ${tile.type} tile and cannot belong to a base`);
+    } else if (tile.base !== undefined && (tile.base < 0 || tile.base >= TEAMS.length)) {
+      problems.push(`${name} belongs to base ${tile.base}, which does not exist`);
+    }
+    if (tile.prop !== undefined && !props.includes(tile.prop)) {
+      problems.push(`${name} has the unknown prop "${tile.prop}"`);
+    }
+    const key = hexKey(tile.q, tile.r);
+    if (byHex.has(key)) {
+      problems.push(`${name} is listed twice`);
+    }
+    byHex.set(key, tile);
+  });
+
+  const baseStarts = TEAMS.map((_team, baseIndex) => map.tiles.filter(tile => tile.base === baseIndex));
+  const emptyBases = TEAMS.filter((_team, baseIndex) => baseStarts[baseIndex].length === 0);
+  if (emptyBases.length > 0) {
+    emptyBases.forEach(team => problems.push(`The ${team.id} base has no tiles`));
+    return problems;
+  }
+  // Drops are one way, so each base is checked on its own
+  baseStarts.forEach((start, from) => {
+    const reached = reachableHexes(byHex, start, map.levelHeight);
+    baseStarts.forEach((target, to) => {
+      if (to !== from && !target.some(tile => reached.has(hexKey(tile.q, tile.r)))) {
+        problems.push(`The ${TEAMS[from].id} base cannot reach the ${TEAMS[to].id} base`);
+      }
+    });
+  });
+  return problems;
+};
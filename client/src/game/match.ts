@@ -0,0 +1,82 @@
+/**
+ * match.ts
+ *
+ * Client view of the server's match_state singleton and match_award rows.
+ * The server runs the phases and timers; the client only shows them:
+ *
+ * Key functionality:
+ * - MATCH_PHASES: Phase ids (waiting, countdown, in_progress, ended)
+ * - GAME_MODES / getModeLabel: Game mode ids and display names
+ * - MIN_PLAYERS_TO_START: Mirrors the server constant for the waiting banner
+ * - getPhaseLabel: Banner text per phase
+ * - getSecondsLeft: Whole seconds until phaseEndsAt (server clock)
+ * - formatClock: m:ss for the round timer
+ * - AWARD_INFO / getAwardInfo: Title and unit per award
+ *
+ * Related files:
+ * - components/MatchHud.tsx: Phase banner, round timer and countdown
+ * - components/MatchResults.tsx: End-of-round results screen
+ * - server/src/match_logic.rs: Phases, timers and awards
+ */
+
+import * as moduleBindings from '../generated';
+
+type MatchState = moduleBindings.MatchState;
+
+export const MATCH_PHASES = {
+  WAITING: 'waiting',
+  COUNTDOWN: 'countdown',
+  IN_PROGRESS: 'in_progress',
+  ENDED: 'ended',
+} as const;
+
+export const GAME_MODES = {
+  DEATHMATCH: 'deathmatch',
+  KING_OF_THE_HILL: 'king_of_the_hill',
+  CAPTURE_THE_FLAG: 'capture_the_flag',
+  BATTLE_ROYALE: 'battle_royale',
+} as const;
+
+const MODE_LABELS: Record<string, string> = {
+  [GAME_MODES.DEATHMATCH]: 'Team deathmatch',
+  [GAME_MODES.KING_OF_THE_HILL]: 'King of the hill',
+  [GAME_MODES.CAPTURE_THE_FLAG]: 'Capture the flag',
+  [GAME_MODES.BATTLE_ROYALE]: 'Battle royale',
+};
+
+export const getModeLabel = (mode: string): string => MODE_LABELS[mode] ?? mode;
+
+// Keep in sync with MIN_PLAYERS_TO_START in server/src/match_logic.rs
+export const MIN_PLAYERS_TO_START = 2;
+
+const PHASE_LABELS: Record<string, string> = {
+  [MATCH_PHASES.WAITING]: 'Waiting for players',
+  [MATCH_PHASES.COUNTDOWN]: 'Get ready',
+  [MATCH_PHASES.IN_PROGRESS]: 'Round in progress',
+  [MATCH_PHASES.ENDED]: 'Round over',
+};
+
+export const getPhaseLabel = (phase: string): string => PHASE_LABELS[phase] ?? phase;
+
+export const getSecondsLeft = (state: MatchState, nowMs: number): number | null => {
+  if (!state.phaseEndsAt) return null;
+  return Math.max(0, Math.ceil((state.phaseEndsAt.toDate().getTime() - nowMs) / 1000));
+};
+
+export const formatClock = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+export interface AwardInfo {
+  title: string;
+  unit: string;
+}
+
+// Display order of the results screen
+export const AWARD_INFO: Record<string, AwardInfo> = {
+  mvp: { title: 'MVP', unit: 'points' },
+  most_kills: { title: 'Most kills', unit: 'kills' },
+  most_damage: { title: 'Most damage', unit: 'damage' },
+  most_healing: { title: 'Most healing', unit: 'healing' },
+};
+
+export const getAwardInfo = (award: string): AwardInfo => AWARD_INFO[award] ?? { title: award, unit: '' };
@@ -0,0 +1,69 @@
+/**
+ * movement.ts
+ *
+ * Client copy of the server's movement rules, used for local prediction and
+ * input replay. Must produce exactly what calculate_new_position in
+ * server/src/player_logic.rs produces for the same input, yaw and delta time,
+ * otherwise every reconciliation turns into a visible correction.
+ *
+ * Key functionality:
+ * - PLAYER_SPEED / SPRINT_MULTIPLIER / BLOCK_SPEED_MULTIPLIER: Mirrors of the constants in server/src/common.rs
+ * - calculateMovement: Applies one input command to a position, scaled by the
+ *   player's moveSpeedMultiplier (slows, roots and stuns from server/src/status_logic.rs)
+ *   and kept on the map tiles at the terrain height (game/map.ts constrainMovement)
+ *
+ * Related files:
+ * - network/prediction.ts: Replays unacknowledged commands with this function
+ * - components/Player.tsx: Predicts the in-progress sample between commands
+ */
+
+import * as THREE from 'three';
+import * as moduleBindings from '../generated';
+import { MapBounds, constrainMovement } from './map';
+
+type InputState = moduleBindings.InputState;
+
+// Keep in sync with server/src/common.rs
+export const PLAYER_SPEED = 7.5;
+export const SPRINT_MULTIPLIER = 1.8;
+export const BLOCK_SPEED_MULTIPLIER = 0.5; // Blocking walks slowly and cannot sprint
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+export const hasMovementInput = (input: InputState): boolean =>
+  input.forward || input.backward || input.left || input.right;
+
+// WASD in player space: -Z is forward, +X is right
+export const getLocalMoveVector = (input: InputState, target = new THREE.Vector3()): THREE.Vector3 => {
+  target.set(
+    (input.right ? 1 : 0) - (input.left ? 1 : 0),
+    0,
+    (input.backward ? 1 : 0) - (input.forward ? 1 : 0)
+  );
+  if (target.lengthSq() > 0.0001) target.normalize();
+  return target;
+};
+
+export const getMoveSpeed = (input: InputState, speedMultiplier = 1): number => {
+  if (input.block) return PLAYER_SPEED * BLOCK_SPEED_MULTIPLIER * speedMultiplier;
+  return (input.sprint ? PLAYER_SPEED * SPRINT_MULTIPLIER : PLAYER_SPEED) * speedMultiplier;
+};
+
+// Returns a new position; never mutates the input position.
+// Without bounds (map not received yet) movement is unconstrained.
+export const calculateMovement = (
+  position: THREE.Vector3,
+  yaw: number,
+  input: InputState,
+  delta: number,
+  speedMultiplier = 1,
+  bounds: MapBounds | null = null
+): THREE.Vector3 => {
+  const result = position.clone();
+  if (!hasMovementInput(input) || delta <= 0 || speedMultiplier <= 0) return result;
+
+  const speed = getMoveSpeed(input, speedMultiplier);
+  const worldMove = getLocalMoveVector(input).applyAxisAngle(UP, yaw).multiplyScalar(speed * delta);
+  result.add(worldMove);
+  return bounds ? constrainMovement(bounds, position, result, input.jump) : result;
+};
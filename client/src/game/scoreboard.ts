@@ -0,0 +1,47 @@
+/**
+ * scoreboard.ts
+ *
+ * Client view of the server's per-player stats and kill feed. The server
+ * credits every kill, death, assist, damage and heal; the client only shows them:
+ *
+ * Key functionality:
+ * - getScoreboardRows: Every active player, best score first
+ * - formatKdRatio: Kills per death for the scoreboard
+ * - MAX_KILL_FEED_ENTRIES: How many kill feed rows App.tsx keeps in state
+ * - getKillIcon: Icon between the two names of a kill feed line
+ *
+ * Related files:
+ * - components/Scoreboard.tsx: Tab-held overlay
+ * - components/KillFeed.tsx: Corner list of recent kills
+ * - server/src/stats_logic.rs: Stat rules and score formula
+ */
+
+import * as moduleBindings from '../generated';
+
+type PlayerData = moduleBindings.PlayerData;
+
+export const MAX_KILL_FEED_ENTRIES = 6;
+
+// Icon per CombatEvent.kind of the killing blow
+const KILL_ICONS: Record<string, string> = {
+  melee_hit: '⚔',
+  spell_hit: '✨',
+  burn: '🔥',
+  zone: '☢',
+  minion_hit: '🗡',
+  fall: '🕳',
+  hazard: '♨',
+};
+
+export const getKillIcon = (kind: string): string => KILL_ICONS[kind] ?? '☠';
+
+// Ties keep a stable order: more kills, then fewer deaths, then name
+export const getScoreboardRows = (players: ReadonlyMap<string, PlayerData>): PlayerData[] =>
+  Array.from(players.values()).sort((a, b) =>
+    b.stats.score - a.stats.score
+    || b.stats.kills - a.stats.kills
+    || a.stats.deaths - b.stats.deaths
+    || a.username.localeCompare(b.username));
+
+export const formatKdRatio = (kills: number, deaths: number): string =>
+  (deaths === 0 ? kills : kills / deaths).toFixed(2);
@@ -0,0 +1,56 @@
+/**
+ * statusEffects.ts
+ *
+ * Client view of the server's status_effect table. The server applies, ticks
+ * and expires every effect; the client only shows them:
+ *
+ * Key functionality:
+ * - STATUS_EFFECT_INFO: Icon, label and tint color per effect type
+ * - getEffectsOn: The effects currently on one player, oldest first
+ * - getStatusTint: Color of the most important effect, for the model aura
+ *
+ * Related files:
+ * - App.tsx: Collects status_effect rows into React state
+ * - components/PlayerUI.tsx: Icons for the local player's effects
+ * - components/Player.tsx: Icons above remote nametags and the aura around the model
+ * - server/src/status_logic.rs: Effect types and their rules
+ */
+
+import { Identity } from '@clockworklabs/spacetimedb-sdk';
+import * as moduleBindings from '../generated';
+
+type StatusEffect = moduleBindings.StatusEffect;
+
+export interface StatusEffectInfo {
+  icon: string;
+  label: string;
+  color: string;
+}
+
+// Ordered by importance: the first effect present tints the model
+export const STATUS_EFFECT_INFO: Record<string, StatusEffectInfo> = {
+  stun: { icon: '💫', label: 'Stunned', color: '#ffe066' },
+  root: { icon: '🌿', label: 'Rooted', color: '#6bd66b' },
+  burn: { icon: '🔥', label: 'Burning', color: '#ff6a1a' },
+  slow: { icon: '❄️', label: 'Slowed', color: '#7fd4ff' },
+  shield: { icon: '🛡️', label: 'Shielded', color: '#f5f0c8' },
+};
+
+const UNKNOWN_EFFECT: StatusEffectInfo = { icon: '❔', label: 'Unknown', color: '#ffffff' };
+
+export const getStatusEffectInfo = (effectType: string): StatusEffectInfo =>
+  STATUS_EFFECT_INFO[effectType] ?? UNKNOWN_EFFECT;
+
+export const getEffectsOn = (effects: ReadonlyMap<string, StatusEffect> | undefined, target: Identity): StatusEffect[] => {
+  if (!effects) return [];
+  const targetHex = target.toHexString();
+  return Array.from(effects.values())
+    .filter(effect => effect.target.toHexString() === targetHex)
+    .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+};
+
+export const getStatusTint = (effects: readonly StatusEffect[]): string | null => {
+  const present = new Set(effects.map(effect => effect.effectType));
+  const type = Object.keys(STATUS_EFFECT_INFO).find(effectType => present.has(effectType));
+  return type ? STATUS_EFFECT_INFO[type].color : null;
+};
@@ -0,0 +1,39 @@
+/**
+ * teams.ts
+ *
+ * Client-side mirror of the server's teams. There is one team per hex base,
+ * in the same order as HexGrid's baseColors; the server assigns and balances
+ * teams, the client only offers a choice and shows the colors:
+ *
+ * Key functionality:
+ * - TEAMS: Team id, display name and CSS color per base
+ * - AUTO_TEAM: Join dialog choice that lets the server pick the smallest team
+ * - getTeamInfo / getTeamColor: Lookups by team id
+ *
+ * Related files:
+ * - components/JoinGameDialog.tsx: Team choice
+ * - components/Player.tsx, PlayerUI.tsx, Scoreboard.tsx: Team colors
+ * - server/src/team_logic.rs: Team definitions (same ids and colors) and balancing
+ */
+
+export interface TeamInfo {
+  id: string; // Matches PlayerData.team
+  name: string;
+  color: string;
+}
+
+// Index = base index in HexGrid (red, green, blue)
+export const TEAMS: TeamInfo[] = [
+  { id: 'red', name: 'Red', color: '#ff4d4d' },
+  { id: 'green', name: 'Green', color: '#4dd65c' },
+  { id: 'blue', name: 'Blue', color: '#4d8dff' },
+];
+
+export const AUTO_TEAM = '';
+
+const UNKNOWN_TEAM: TeamInfo = { id: '', name: 'No team', color: '#ffffff' };
+
+export const getTeamInfo = (team: string): TeamInfo =>
+  TEAMS.find(info => info.id === team) ?? UNKNOWN_TEAM;
+
+export const getTeamColor = (team: string): string => getTeamInfo(team).color;
@@ -0,0 +1,67 @@
+/**
+ * zone.ts
+ *
+ * Client view of the battle royale zone. The server advances the stages and
+ * deals the damage; zone_state only changes at stage boundaries, so the client
+ * interpolates the shrinking radius with the same formula as zone_logic.rs:
+ *
+ * Key functionality:
+ * - isZoneMode: Whether the match runs battle royale
+ * - getZoneRadius: Safe radius in hex steps at a given time
+ * - getZoneTimer: What the zone does next and the seconds until then
+ * - isOutsideZone: Whether a world position lies on a hex outside the zone
+ * - getZoneRingRadius: Size of the zone ring (placed with map.ts's hexToWorld)
+ *
+ * Related files:
+ * - components/ZoneRing.tsx: Ring wall around the safe zone
+ * - components/ZoneHud.tsx: Stage, timer and survivors
+ * - components/HexGrid.tsx: Darkens the hexes outside the zone
+ * - game/map.ts: Hex math shared with the map
+ * - server/src/zone_logic.rs: Stages and damage
+ */
+
+import * as moduleBindings from '../generated';
+import { GAME_MODES } from './match';
+import { HEX_SIZE, hexDistance, worldToHex } from './map';
+
+type MatchState = moduleBindings.MatchState;
+type ZoneState = moduleBindings.ZoneState;
+
+export const isZoneMode = (matchState: MatchState | null): boolean =>
+  matchState?.mode === GAME_MODES.BATTLE_ROYALE;
+
+const toMs = (timestamp: { toDate(): Date }): number => timestamp.toDate().getTime();
+
+// Same interpolation as zone_logic::current_radius
+export const getZoneRadius = (zone: ZoneState, nowMs: number): number => {
+  if (!zone.shrinkStartsAt || !zone.shrinkEndsAt) return zone.startRadius;
+  const startsAt = toMs(zone.shrinkStartsAt);
+  const duration = toMs(zone.shrinkEndsAt) - startsAt;
+  const progress = duration <= 0 ? 1 : Math.min(1, Math.max(0, (nowMs - startsAt) / duration));
+  return zone.startRadius + (zone.endRadius - zone.startRadius) * progress;
+};
+
+export interface ZoneTimer {
+  label: string;
+  seconds: number | null;
+}
+
+export const getZoneTimer = (zone: ZoneState, nowMs: number): ZoneTimer => {
+  if (!zone.shrinkStartsAt || !zone.shrinkEndsAt) {
+    return { label: zone.stage >= zone.schedule.length ? 'Zone closed' : 'Zone holding', seconds: null };
+  }
+  const startsAt = toMs(zone.shrinkStartsAt);
+  if (nowMs < startsAt) {
+    return { label: 'Zone shrinks in', seconds: Math.ceil((startsAt - nowMs) / 1000) };
+  }
+  return { label: 'Zone shrinking', seconds: Math.max(0, Math.ceil((toMs(zone.shrinkEndsAt) - nowMs) / 1000)) };
+};
+
+export const isOutsideZone = (zone: ZoneState, position: { x: number; z: number }, nowMs: number): boolean => {
+  const { q, r } = worldToHex(position.x, position.z);
+  return hexDistance(q, r, zone.centerQ, zone.centerR) > getZoneRadius(zone, nowMs);
+};
+
+// Distance from the zone center to the corners of the ring hexagon: half a hex
+// beyond the centers of the outermost safe hexes
+export const getZoneRingRadius = (radius: number): number => (radius + 0.5) * Math.sqrt(3) * HEX_SIZE;
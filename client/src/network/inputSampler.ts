@@ -0,0 +1,127 @@
+/**
+ * inputSampler.ts
+ *
+ * Fixed-rate input pipeline. Instead of sending input every animation frame
+ * (which ties network traffic to the monitor refresh rate), the sampler reads
+ * the current input state at a fixed rate and turns each sample into an input
+ * command:
+ *
+ * Key functionality:
+ * - Samples at INPUT_RATE_HZ (VITE_INPUT_RATE_HZ, default 30 Hz)
+ * - Stamps each command with its own tick number (InputState.sequence)
+ * - Records the real time the sample covers (InputState.deltaTime, seconds)
+ * - Skips idle samples: only the first idle command after activity is sent,
+ *   so the server learns the player stopped
+ * - recordAttackPress / recordAbilityPress: The input handlers report every
+ *   attack click and ability key press, so a tap that starts and ends between
+ *   two samples still reaches the server
+ *
+ * Technical implementation:
+ * - Driven by setInterval, measured with performance.now()
+ * - deltaTime is clamped so a throttled background tab cannot produce one huge step
+ * - The server fires abilities on rising edges, so a recorded press is ORed into
+ *   the next command and cleared once sent; a press that follows a release the
+ *   server never saw (the last command still held it) first sends the release,
+ *   then the press one sample later
+ *
+ * Related files:
+ * - App.tsx: Owns the sampler and forwards commands to updatePlayerInput
+ * - server/src/player_logic.rs: Applies deltaTime in update_input_state
+ */
+
+import * as moduleBindings from '../generated';
+
+type InputState = moduleBindings.InputState;
+
+export const DEFAULT_INPUT_RATE_HZ = 30;
+const MIN_INPUT_RATE_HZ = 10;
+const MAX_INPUT_RATE_HZ = 60;
+// Must not exceed MAX_INPUT_DELTA in server/src/common.rs
+export const MAX_INPUT_DELTA = 0.25;
+
+export const INPUT_RATE_HZ: number = (() => {
+  const configured = Number(import.meta.env.VITE_INPUT_RATE_HZ);
+  if (!Number.isFinite(configured) || configured <= 0) return DEFAULT_INPUT_RATE_HZ;
+  return Math.min(MAX_INPUT_RATE_HZ, Math.max(MIN_INPUT_RATE_HZ, configured));
+})();
+
+export const isIdleInput = (input: InputState): boolean =>
+  !input.forward && !input.backward && !input.left && !input.right &&
+  !input.jump && !input.attack && !input.block && input.abilitySlot === 0;
+
+export class InputSampler {
+  private readonly readInput: () => InputState;
+  private readonly sendCommand: (command: InputState) => void;
+  private readonly intervalMs: number;
+  private intervalId: number | null = null;
+  private lastSampleTime = 0;
+  private lastSentIdle = true;
+  private lastSentAttack = false;
+  private lastSentAbilitySlot = 0;
+  // Presses since they were last delivered as a rising edge
+  private pendingAttack = false;
+  private pendingAbilitySlot = 0;
+  tick = 0;
+
+  constructor(readInput: () => InputState, sendCommand: (command: InputState) => void, rateHz: number = INPUT_RATE_HZ) {
+    this.readInput = readInput;
+    this.sendCommand = sendCommand;
+    this.intervalMs = 1000 / rateHz;
+  }
+
+  get isRunning(): boolean {
+    return this.intervalId !== null;
+  }
+
+  start() {
+    if (this.intervalId !== null) return;
+    this.lastSampleTime = performance.now();
+    this.lastSentIdle = true;
+    this.lastSentAttack = false;
+    this.lastSentAbilitySlot = 0;
+    this.pendingAttack = false;
+    this.pendingAbilitySlot = 0;
+    this.intervalId = window.setInterval(() => this.sample(), this.intervalMs);
+  }
+
+  stop() {
+    if (this.intervalId === null) return;
+    clearInterval(this.intervalId);
+    this.intervalId = null;
+  }
+
+  recordAttackPress() {
+    this.pendingAttack = true;
+  }
+
+  recordAbilityPress(slot: number) {
+    this.pendingAbilitySlot = slot;
+  }
+
+  private sample() {
+    const now = performance.now();
+    const deltaTime = Math.min(MAX_INPUT_DELTA, (now - this.lastSampleTime) / 1000);
+    this.lastSampleTime = now;
+    this.tick += 1; // Every sample owns a tick, even the idle ones we skip
+
+    const input = { ...this.readInput() };
+    if (this.pendingAttack) {
+      // Still held in the last command: release now, press in the next sample
+      input.attack = !this.lastSentAttack;
+      this.pendingAttack = this.lastSentAttack;
+    }
+    if (this.pendingAbilitySlot !== 0) {
+      const slot = this.pendingAbilitySlot;
+      input.abilitySlot = slot === this.lastSentAbilitySlot ? 0 : slot;
+      this.pendingAbilitySlot = slot === this.lastSentAbilitySlot ? slot : 0;
+    }
+
+    const idle = isIdleInput(input);
+    if (idle && this.lastSentIdle) return;
+    this.lastSentIdle = idle;
+    this.lastSentAttack = input.attack;
+    this.lastSentAbilitySlot = input.abilitySlot;
+
+    this.sendCommand({ ...input, sequence: this.tick, deltaTime });
+  }
+}
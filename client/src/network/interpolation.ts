@@ -0,0 +1,148 @@
+/**
+ * interpolation.ts
+ *
+ * Snapshot interpolation for entities the local client does not control.
+ * Instead of chasing the latest server position every frame, each entity keeps
+ * a short history of received states and is rendered slightly in the past,
+ * between the two snapshots that bracket that moment:
+ *
+ * Key functionality:
+ * - SnapshotBuffer: Time-ordered position/yaw history for one entity
+ * - SnapshotBuffer.sample: Interpolates at renderTime, extrapolates for at most
+ *   MAX_EXTRAPOLATION_MS when packets stop, then holds the last state
+ * - SnapshotBuffer.push: Drops the history when the gap since the previous
+ *   snapshot exceeds HISTORY_RESET_GAP_MS (the render delay plus the
+ *   extrapolation window), so the entity snaps to the new state
+ * - SnapshotStore: One buffer per entity key (identity hex string)
+ * - INTERPOLATION_DELAY_MS: Render delay (VITE_INTERPOLATION_DELAY_MS, default 100 ms)
+ *
+ * Technical implementation:
+ * - Snapshots are stamped with their receive time (performance.now()), so the
+ *   delay absorbs irregular update spacing and network jitter
+ * - Yaw is interpolated along the shortest arc
+ *
+ * Related files:
+ * - App.tsx: Records a snapshot for every remote player insert/update
+ * - components/Player.tsx: Samples the buffer for remote players each frame
+ * - components/DebugPanel.tsx: Shows buffer depth per remote player
+ */
+
+import * as THREE from 'three';
+
+interface Snapshot {
+  time: number; // performance.now() when received
+  position: THREE.Vector3;
+  yaw: number;
+}
+
+export interface InterpolatedState {
+  position: THREE.Vector3;
+  yaw: number;
+}
+
+export const DEFAULT_INTERPOLATION_DELAY_MS = 100;
+export const MAX_EXTRAPOLATION_MS = 250;
+const MAX_SNAPSHOTS = 64;
+
+export const INTERPOLATION_DELAY_MS: number = (() => {
+  const configured = Number(import.meta.env.VITE_INTERPOLATION_DELAY_MS);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_INTERPOLATION_DELAY_MS;
+})();
+
+// Longest snapshot gap that is still interpolated across rather than snapped over
+const HISTORY_RESET_GAP_MS = INTERPOLATION_DELAY_MS + MAX_EXTRAPOLATION_MS;
+
+// Shortest signed difference between two angles, in (-PI, PI]
+const angleDelta = (from: number, to: number): number => {
+  let diff = (to - from) % (Math.PI * 2);
+  if (diff > Math.PI) diff -= Math.PI * 2;
+  if (diff <= -Math.PI) diff += Math.PI * 2;
+  return diff;
+};
+
+export class SnapshotBuffer {
+  private snapshots: Snapshot[] = [];
+
+  get size(): number {
+    return this.snapshots.length;
+  }
+
+  push(position: { x: number; y: number; z: number }, yaw: number, time: number = performance.now()) {
+    const last = this.snapshots[this.snapshots.length - 1];
+    // Keep the buffer time-ordered even if two updates land in the same millisecond
+    const stampedTime = last && time <= last.time ? last.time + 0.001 : time;
+    // A gap that outlasts the extrapolation window (lost packets, a backgrounded tab) cannot
+    // be interpolated across without sliding the entity over it, so start over and snap.
+    // Shorter gaps keep the history and blend out of the extrapolation.
+    if (last && stampedTime - last.time > HISTORY_RESET_GAP_MS) {
+      this.snapshots.length = 0;
+    }
+    this.snapshots.push({ time: stampedTime, position: new THREE.Vector3(position.x, position.y, position.z), yaw });
+    if (this.snapshots.length > MAX_SNAPSHOTS) {
+      this.snapshots.splice(0, this.snapshots.length - MAX_SNAPSHOTS);
+    }
+  }
+
+  sample(renderTime: number = performance.now() - INTERPOLATION_DELAY_MS): InterpolatedState | null {
+    const snapshots = this.snapshots;
+    if (snapshots.length === 0) return null;
+
+    const first = snapshots[0];
+    if (snapshots.length === 1 || renderTime <= first.time) {
+      return { position: first.position.clone(), yaw: first.yaw };
+    }
+
+    const last = snapshots[snapshots.length - 1];
+    if (renderTime >= last.time) {
+      // Packets stopped: continue along the last known velocity for a short while, then hold
+      const previous = snapshots[snapshots.length - 2];
+      const span = last.time - previous.time;
+      const ahead = Math.min(renderTime - last.time, MAX_EXTRAPOLATION_MS);
+      const t = span > 0 ? ahead / span : 0;
+      return {
+        position: last.position.clone().add(last.position.clone().sub(previous.position).multiplyScalar(t)),
+        yaw: last.yaw,
+      };
+    }
+
+    // Find the pair bracketing renderTime
+    let index = snapshots.length - 2;
+    while (index > 0 && snapshots[index].time > renderTime) index--;
+    const from = snapshots[index];
+    const to = snapshots[index + 1];
+
+    // Everything before `from` is no longer needed
+    if (index > 0) snapshots.splice(0, index);
+
+    const t = (renderTime - from.time) / (to.time - from.time);
+    return {
+      position: from.position.clone().lerp(to.position, t),
+      yaw: from.yaw + angleDelta(from.yaw, to.yaw) * t,
+    };
+  }
+}
+
+export class SnapshotStore {
+  private buffers = new Map<string, SnapshotBuffer>();
+
+  get(key: string): SnapshotBuffer | undefined {
+    return this.buffers.get(key);
+  }
+
+  record(key: string, position: { x: number; y: number; z: number }, yaw: number) {
+    let buffer = this.buffers.get(key);
+    if (!buffer) {
+      buffer = new SnapshotBuffer();
+      this.buffers.set(key, buffer);
+    }
+    buffer.push(position, yaw);
+  }
+
+  remove(key: string) {
+    this.buffers.delete(key);
+  }
+
+  clear() {
+    this.buffers.clear();
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * prediction.ts
+ *
+ * Client-side prediction buffer for the local player. Every input command sent
+ * to the server is stored by sequence until the server acknowledges it through
+ * PlayerData.lastInputSeq:
+ *
+ * Key functionality:
+ * - push: Records a sent command and advances the predicted position
+ * - reconcile: Rewinds to the authoritative position at lastInputSeq, drops
+ *   acknowledged commands and replays the rest
+ * - The difference between the old and the replayed prediction is returned as a
+ *   correction, which Player.tsx blends out over a few frames instead of snapping
+ *
+ * Technical implementation:
+ * - Replay uses calculateMovement (game/movement.ts), the client mirror of the
+ *   server's calculate_new_position, with each command's own deltaTime, yaw and
+ *   the speed multiplier (status effects) the player had when it was sent, inside
+ *   the current map bounds
+ * - The buffer is bounded; if the server stops acknowledging, old commands are dropped
+ *
+ * Related files:
+ * - App.tsx: Pushes every command handed to updatePlayerInput
+ * - components/Player.tsx: Reconciles on each local player update and renders the result
+ */
+
+import * as THREE from 'three';
+import * as moduleBindings from '../generated';
+import { calculateMovement } from '../game/movement';
+import { MapBounds } from '../game/map';
+
+type InputState = moduleBindings.InputState;
+
+interface PendingInput {
+  sequence: number;
+  input: InputState;
+  yaw: number;
+  speedMultiplier: number;
+}
+
+const MAX_PENDING_INPUTS = 256;
+
+export class PredictionBuffer {
+  private pending: PendingInput[] = [];
+  private predicted: THREE.Vector3 | null = null;
+  private lastAckedSequence = 0;
+  lastYaw = 0;
+  lastSpeedMultiplier = 1;
+  lastPushTime = 0; // performance.now() of the most recent command
+  bounds: MapBounds | null = null; // Walkable tiles of the published map, set by App.tsx
+
+  get size(): number {
+    return this.pending.length;
+  }
+
+  // Position after every sent command, or null before the first server update
+  get predictedPosition(): THREE.Vector3 | null {
+    return this.predicted;
+  }
+
+  push(input: InputState, yaw: number, speedMultiplier = 1) {
+    this.pending.push({ sequence: input.sequence, input, yaw, speedMultiplier });
+    if (this.pending.length > MAX_PENDING_INPUTS) {
+      this.pending.splice(0, this.pending.length - MAX_PENDING_INPUTS);
+    }
+    this.lastYaw = yaw;
+    this.lastSpeedMultiplier = speedMultiplier;
+    this.lastPushTime = performance.now();
+    if (this.predicted) {
+      this.predicted = calculateMovement(this.predicted, yaw, input, input.deltaTime, speedMultiplier, this.bounds);
+    }
+  }
+
+  // Returns how far the previous prediction was off (old - new), so the caller can smooth it
+  reconcile(serverPosition: THREE.Vector3, lastInputSeq: number): THREE.Vector3 {
+    // A lower sequence means the server reset our counter (rejoin): everything pending is void
+    if (lastInputSeq < this.lastAckedSequence) {
+      this.pending = [];
+    }
+    this.lastAckedSequence = lastInputSeq;
+    this.pending = this.pending.filter(entry => entry.sequence > lastInputSeq);
+
+    let replayed = serverPosition.clone();
+    for (const entry of this.pending) {
+      replayed = calculateMovement(replayed, entry.yaw, entry.input, entry.input.deltaTime, entry.speedMultiplier, this.bounds);
+    }
+
+    const correction = this.predicted ? this.predicted.clone().sub(replayed) : new THREE.Vector3();
+    this.predicted = replayed;
+    return correction;
+  }
+
+  reset() {
+    this.pending = [];
+    this.predicted = null;
+    this.lastAckedSequence = 0;
+  }
+}
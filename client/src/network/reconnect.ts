@@ -0,0 +1,44 @@
+/**
+ * reconnect.ts
+ *
+ * Connection lifecycle states and the exponential backoff schedule used when
+ * the WebSocket to SpacetimeDB drops:
+ *
+ * Key functionality:
+ * - ConnectionPhase: idle -> connecting -> connected -> reconnecting -> (connected | failed)
+ * - getReconnectDelay: Exponential backoff with jitter, capped at RECONNECT_MAX_DELAY_MS
+ * - MAX_RECONNECT_ATTEMPTS: After this many failures the client stops retrying
+ * - isAuthError: Whether a connect error means the server refused the saved token
+ *
+ * Related files:
+ * - App.tsx: Drives the state machine from onConnect/onDisconnect/onConnectError
+ * - network/serverConfig.ts: Stores the identity token reused on reconnect
+ */
+
+export type ConnectionPhase = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'failed';
+
+export interface ReconnectStatus {
+  attempt: number; // 1-based attempt number
+  delayMs: number; // Delay before this attempt starts
+}
+
+export const RECONNECT_BASE_DELAY_MS = 1000;
+export const RECONNECT_MAX_DELAY_MS = 30000;
+export const MAX_RECONNECT_ATTEMPTS = 10;
+const RECONNECT_JITTER = 0.2; // +/- 20% to avoid every client retrying in lockstep
+
+// attempt is 0-based: 1s, 2s, 4s, 8s ... capped at 30s
+export const getReconnectDelay = (attempt: number): number => {
+  const exponential = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * Math.pow(2, attempt));
+  const jitter = exponential * RECONNECT_JITTER * (Math.random() * 2 - 1);
+  return Math.round(exponential + jitter);
+};
+
+// The server answers a token it does not accept with 401/403 on the WebSocket upgrade.
+// Anything else (server down, network blip) keeps the token, so the identity survives.
+const AUTH_ERROR_PATTERN = /\b(401|403)\b|unauthori[sz]ed|forbidden|invalid token|token .*(invalid|expired|rejected)/i;
+
+export const isAuthError = (error: unknown): boolean => {
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  return AUTH_ERROR_PATTERN.test(message);
+};
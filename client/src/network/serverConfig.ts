@@ -0,0 +1,204 @@
+/**
+ * serverConfig.ts
+ *
+ * Resolves which SpacetimeDB instance the client talks to and keeps the
+ * player's list of known servers:
+ *
+ * Key functionality:
+ * - Builds the default endpoint from Vite env vars (VITE_SPACETIME_HOST, VITE_SPACETIME_MODULE, VITE_SPACETIME_SECURE)
+ * - Reads a one-off endpoint from URL query parameters (?host=...&module=...&secure=1)
+ * - Persists the saved server list in localStorage
+ * - Persists the identity token issued by each server so a refresh keeps the same Identity
+ * - Probes an endpoint for reachability, connection latency and player count
+ *
+ * Technical implementation:
+ * - Probing opens a throwaway DbConnection without a token, subscribes to the
+ *   player table, counts rows and disconnects again
+ * - Every probe is bounded by a timeout so an unreachable host never hangs the browser
+ *
+ * Related files:
+ * - App.tsx: Connects to the selected endpoint
+ * - components/ServerBrowser.tsx: UI listing saved endpoints and probe results
+ */
+
+import * as moduleBindings from '../generated';
+
+type DbConnection = moduleBindings.DbConnection;
+
+export interface ServerEndpoint {
+  id: string;
+  name: string;
+  host: string; // host:port, without protocol
+  moduleName: string;
+  secure: boolean; // wss:// instead of ws://
+}
+
+export interface ProbeResult {
+  reachable: boolean;
+  latencyMs: number | null;
+  playerCount: number | null;
+  error?: string;
+}
+
+const STORAGE_KEY = 'vibe-arena.servers';
+const TOKEN_STORAGE_PREFIX = 'vibe-arena.token.';
+const PROBE_TIMEOUT_MS = 4000;
+
+const DEFAULT_HOST = 'localhost:3000';
+const DEFAULT_MODULE = 'vibe-arena';
+
+export const endpointId = (host: string, moduleName: string): string => `${host}/${moduleName}`;
+
+export const endpointUri = (endpoint: ServerEndpoint): string =>
+  `${endpoint.secure ? 'wss' : 'ws'}://${endpoint.host}`;
+
+const isTruthyFlag = (value: string | null | undefined): boolean =>
+  value === '1' || value === 'true';
+
+// Endpoint configured at build time (falls back to the local dev server)
+export const getDefaultEndpoint = (): ServerEndpoint => {
+  const host = import.meta.env.VITE_SPACETIME_HOST || DEFAULT_HOST;
+  const moduleName = import.meta.env.VITE_SPACETIME_MODULE || DEFAULT_MODULE;
+  return {
+    id: endpointId(host, moduleName),
+    name: 'Default',
+    host,
+    moduleName,
+    secure: isTruthyFlag(import.meta.env.VITE_SPACETIME_SECURE),
+  };
+};
+
+// Endpoint passed through the page URL, e.g. ?host=192.168.1.20:3000&module=vibe-arena
+export const getQueryEndpoint = (): ServerEndpoint | null => {
+  const params = new URLSearchParams(window.location.search);
+  const host = params.get('host');
+  if (!host) return null;
+  const moduleName = params.get('module') || getDefaultEndpoint().moduleName;
+  return {
+    id: endpointId(host, moduleName),
+    name: host,
+    host,
+    moduleName,
+    secure: isTruthyFlag(params.get('secure')),
+  };
+};
+
+export const loadSavedEndpoints = (): ServerEndpoint[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter((entry): entry is ServerEndpoint =>
+      typeof entry?.host === 'string' && typeof entry?.moduleName === 'string'
+    ).map(entry => ({
+      ...entry,
+      id: endpointId(entry.host, entry.moduleName),
+      name: entry.name || entry.host,
+      secure: !!entry.secure,
+    }));
+  } catch (error) {
+    console.warn('[ServerConfig] Failed to read saved servers:', error);
+    return [];
+  }
+};
+
+export const saveEndpoints = (endpoints: ServerEndpoint[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(endpoints));
+  } catch (error) {
+    console.warn('[ServerConfig] Failed to save servers:', error);
+  }
+};
+
+// Tokens are issued per server, so they are stored per endpoint id
+export const loadToken = (endpoint: ServerEndpoint): string | undefined => {
+  try {
+    return localStorage.getItem(TOKEN_STORAGE_PREFIX + endpoint.id) || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const saveToken = (endpoint: ServerEndpoint, token: string) => {
+  try {
+    localStorage.setItem(TOKEN_STORAGE_PREFIX + endpoint.id, token);
+  } catch (error) {
+    console.warn('[ServerConfig] Failed to save identity token:', error);
+  }
+};
+
+export const clearToken = (endpoint: ServerEndpoint) => {
+  try {
+    localStorage.removeItem(TOKEN_STORAGE_PREFIX + endpoint.id);
+  } catch {
+    // Nothing to clear
+  }
+};
+
+// Default endpoint first, followed by saved entries (deduplicated by id)
+export const getKnownEndpoints = (): ServerEndpoint[] => {
+  const known = [getDefaultEndpoint()];
+  for (const endpoint of loadSavedEndpoints()) {
+    if (!known.some(existing => existing.id === endpoint.id)) {
+      known.push(endpoint);
+    }
+  }
+  return known;
+};
+
+export const probeEndpoint = (endpoint: ServerEndpoint): Promise<ProbeResult> => {
+  return new Promise((resolve) => {
+    const startedAt = performance.now();
+    let probeConn: DbConnection | null = null;
+    let settled = false;
+
+    const finish = (result: ProbeResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeoutId);
+      if (probeConn) {
+        try {
+          probeConn.disconnect();
+        } catch {
+          // Connection may already be closed
+        }
+      }
+      resolve(result);
+    };
+
+    const timeoutId = setTimeout(() => {
+      finish({ reachable: false, latencyMs: null, playerCount: null, error: 'Timed out' });
+    }, PROBE_TIMEOUT_MS);
+
+    try {
+      moduleBindings.DbConnection.builder()
+        .withUri(endpointUri(endpoint))
+        .withModuleName(endpoint.moduleName)
+        .onConnect((connection: DbConnection) => {
+          probeConn = connection;
+          if (settled) {
+            // Connected after the probe already timed out
+            connection.disconnect();
+            return;
+          }
+          const latencyMs = Math.round(performance.now() - startedAt);
+          connection.subscriptionBuilder()
+            .onApplied(() => {
+              finish({ reachable: true, latencyMs, playerCount: connection.db.player.count() });
+            })
+            .onError(() => {
+              // Reachable, but the module does not expose the player table we expect
+              finish({ reachable: true, latencyMs, playerCount: null, error: 'Subscription failed' });
+            })
+            .subscribe('SELECT * FROM player');
+        })
+        .onConnectError((_ctx: moduleBindings.ErrorContext, error: Error) => {
+          finish({ reachable: false, latencyMs: null, playerCount: null, error: error?.message || 'Connection failed' });
+        })
+        .build();
+    } catch (error) {
+      finish({ reachable: false, latencyMs: null, playerCount: null, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+};
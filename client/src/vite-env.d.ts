@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SPACETIME_HOST?: string;
+  readonly VITE_SPACETIME_MODULE?: string;
+  readonly VITE_SPACETIME_SECURE?: string;
+  readonly VITE_INPUT_RATE_HZ?: string;
+  readonly VITE_INTERPOLATION_DELAY_MS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,224 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - ability_logic.rs
+ *
+ * This file contains the data-driven ability system. Every class declares its
+ * abilities in one table: the primary attack on the left mouse button (slot 0)
+ * and up to four abilities on the number keys (slots 1-4).
+ *
+ * Key components:
+ *
+ * 1. Ability Definitions:
+ *    - AbilityDef: Slot, cooldown, mana cost, animation key and effect of one ability
+ *    - AbilityEffect: What the ability does when it fires
+ *    - class_abilities / ability_in_slot: Lookups by character class
+ *
+ * 2. Activation:
+ *    - activate_ability: Called on the rising edge of InputState.attack (slot 0)
+ *      or InputState.ability_slot (slots 1-4); validates death, stun, shield,
+ *      swing, cooldown and mana before applying the effect
+ *    - Instant hits apply the effect's on-hit status (status_logic.rs) to every
+ *      target they land on unblocked; enemy creep minions in range take the
+ *      damage only (npc_logic.rs)
+ *    - The ability's animation is published through PlayerData.ability_animation
+ *      and ability_started_at, so every client plays it exactly once
+ *
+ * 3. Cooldowns:
+ *    - One ability_cooldown row per ability that is cooling down; clients draw
+ *      the HUD cooldown sweep from started_at and ready_at
+ *    - update_cooldowns: Called from game_tick; deletes rows whose ready_at has passed
+ *
+ * When modifying:
+ *    - Adding an ability only needs a new AbilityDef here and the matching entry
+ *      in CLASS_ABILITIES (client/src/game/abilities.ts); InputState stays as is
+ *    - Animation keys must be one-shot animations loaded in client/src/components/Player.tsx
+ *
+ * Related files:
+ *    - lib.rs: ability_cooldown table, update_player_input, game_tick
+ *    - combat_logic.rs: Melee combo, arc test, apply_damage and apply_heal
+ *    - projectile_logic.rs: spawn_projectile for projectile abilities
+ *    - status_logic.rs: StatusSpec and apply_status for on-hit and self effects
+ */
+
+use spacetimedb::{ReducerContext, Identity, Table, Timestamp};
+use crate::common::{Vector3, seconds_between};
+use crate::{PlayerData, AbilityCooldown, Npc, player, ability_cooldown};
+use crate::{combat_logic, projectile_logic, status_logic, stats_logic, team_logic, npc_logic};
+use crate::status_logic::StatusSpec;
+
+pub const PRIMARY_SLOT: u8 = 0;
+
+pub enum AbilityEffect {
+    MeleeCombo,               // The class combo chain (combat_logic::start_swing)
+    Projectile(&'static str), // Spell type passed to spawn_projectile (on-hit effects live in SpellProfile)
+    // Instant hit on everyone in a frontal cone
+    MeleeStrike { damage: i32, range: f32, arc_degrees: f32, on_hit: Option<StatusSpec> },
+    // Restores the caster's health, then optionally puts a status effect on them (e.g. a shield)
+    Heal { amount: i32, self_status: Option<StatusSpec> },
+    // Instant hit on everyone around the caster
+    Nova { damage: i32, radius: f32, on_hit: Option<StatusSpec> },
+}
+
+pub struct AbilityDef {
+    pub id: &'static str,
+    pub slot: u8,            // PRIMARY_SLOT for the left mouse button, 1-4 for the number keys
+    pub cooldown_secs: f32,
+    pub mana_cost: i32,      // MeleeCombo pays per step instead (MeleeProfile.mana_cost)
+    pub animation: &'static str, // Empty for MeleeCombo: the combo step picks the animation
+    pub effect: AbilityEffect,
+}
+
+// Keep in sync with CLASS_ABILITIES in client/src/game/abilities.ts
+static WIZARD_ABILITIES: [AbilityDef; 5] = [
+    AbilityDef { id: "fireball", slot: PRIMARY_SLOT, cooldown_secs: 0.8, mana_cost: 10, animation: "attack1", effect: AbilityEffect::Projectile("fireball") },
+    AbilityDef { id: "frostbolt", slot: 1, cooldown_secs: 3.0, mana_cost: 15, animation: "attack1", effect: AbilityEffect::Projectile("frostbolt") },
+    AbilityDef { id: "arcane_nova", slot: 2, cooldown_secs: 8.0, mana_cost: 25, animation: "cast", effect: AbilityEffect::Nova { damage: 20, radius: 5.0, on_hit: Some(StatusSpec { effect_type: status_logic::ROOT, magnitude: 0.0, duration_secs: 1.5 }) } },
+    AbilityDef { id: "mend", slot: 3, cooldown_secs: 12.0, mana_cost: 20, animation: "cast", effect: AbilityEffect::Heal { amount: 30, self_status: None } },
+    AbilityDef { id: "arcane_orb", slot: 4, cooldown_secs: 15.0, mana_cost: 35, animation: "cast", effect: AbilityEffect::Projectile("arcane_orb") },
+];
+
+static PALADIN_ABILITIES: [AbilityDef; 5] = [
+    AbilityDef { id: "slash", slot: PRIMARY_SLOT, cooldown_secs: 0.0, mana_cost: 0, animation: "", effect: AbilityEffect::MeleeCombo },
+    AbilityDef { id: "shield_bash", slot: 1, cooldown_secs: 6.0, mana_cost: 10, animation: "attack4", effect: AbilityEffect::MeleeStrike { damage: 15, range: 2.5, arc_degrees: 90.0, on_hit: Some(StatusSpec { effect_type: status_logic::STUN, magnitude: 0.0, duration_secs: 1.2 }) } },
+    AbilityDef { id: "holy_strike", slot: 2, cooldown_secs: 10.0, mana_cost: 20, animation: "slash5", effect: AbilityEffect::MeleeStrike { damage: 35, range: 3.0, arc_degrees: 60.0, on_hit: None } },
+    // Heals, then a shield absorbs up to 40 damage for 8 s
+    AbilityDef { id: "lay_on_hands", slot: 3, cooldown_secs: 30.0, mana_cost: 30, animation: "cast", effect: AbilityEffect::Heal { amount: 40, self_status: Some(StatusSpec { effect_type: status_logic::SHIELD, magnitude: 40.0, duration_secs: 8.0 }) } },
+    AbilityDef { id: "consecration", slot: 4, cooldown_secs: 15.0, mana_cost: 25, animation: "cast", effect: AbilityEffect::Nova { damage: 10, radius: 4.5, on_hit: Some(StatusSpec { effect_type: status_logic::BURN, magnitude: 4.0, duration_secs: 4.0 }) } },
+];
+
+static DEFAULT_ABILITIES: [AbilityDef; 1] = [
+    AbilityDef { id: "attack", slot: PRIMARY_SLOT, cooldown_secs: 0.0, mana_cost: 0, animation: "", effect: AbilityEffect::MeleeCombo },
+];
+
+pub fn class_abilities(character_class: &str) -> &'static [AbilityDef] {
+    match character_class {
+        "Wizard" => &WIZARD_ABILITIES,
+        "Paladin" => &PALADIN_ABILITIES,
+        _ => &DEFAULT_ABILITIES,
+    }
+}
+
+pub fn ability_in_slot(character_class: &str, slot: u8) -> Option<&'static AbilityDef> {
+    class_abilities(character_class).iter().find(|ability| ability.slot == slot)
+}
+
+pub fn is_on_cooldown(ctx: &ReducerContext, owner: Identity, ability_id: &str) -> bool {
+    ctx.db.ability_cooldown().owner().filter(&owner).any(|cooldown| cooldown.ability_id == ability_id)
+}
+
+// Fire the ability bound to `slot`; returns false when it is unbound or cannot be used right now.
+// The caller writes the player row.
+pub fn activate_ability(ctx: &ReducerContext, player: &mut PlayerData, slot: u8) -> bool {
+    let Some(ability) = ability_in_slot(&player.character_class, slot) else { return false };
+    if player.is_dead || player.is_stunned || player.is_blocking || is_on_cooldown(ctx, player.identity, ability.id) {
+        return false;
+    }
+    // A melee swing owns the character until its recovery ends; a combo press is buffered for after it
+    if player.swing_started_at.is_some() {
+        if matches!(ability.effect, AbilityEffect::MeleeCombo) {
+            combat_logic::queue_swing(player);
+        }
+        return false;
+    }
+    if player.mana < ability.mana_cost {
+        spacetimedb::log::debug!("[ABILITY] {} rejected for {}: {} mana, needs {}", ability.id, player.username, player.mana, ability.mana_cost);
+        return false;
+    }
+
+    match &ability.effect {
+        AbilityEffect::MeleeCombo => {
+            if !combat_logic::start_swing(player, ctx.timestamp) {
+                return false;
+            }
+        }
+        AbilityEffect::Projectile(spell_type) => projectile_logic::spawn_projectile(ctx, player, spell_type),
+        AbilityEffect::MeleeStrike { damage, range, arc_degrees, on_hit } => {
+            let in_strike = |position: &Vector3| {
+                horizontal_distance(&player.position, position) <= *range
+                    && combat_logic::is_within_arc(&player.position, player.rotation.y, position, *arc_degrees)
+            };
+            let targets = living_enemies(ctx, player, |target| in_strike(&target.position));
+            hit_targets(ctx, player, targets, *damage, "melee_hit", on_hit);
+            hit_npcs(ctx, player, *damage, |npc| in_strike(&npc.position));
+            stats_logic::reload_stats(ctx, player);
+        }
+        AbilityEffect::Heal { amount, self_status } => {
+            combat_logic::apply_heal(ctx, player.identity, player, *amount);
+            if let Some(status) = self_status {
+                status_logic::apply_status(ctx, player.identity, player.identity, status);
+            }
+        }
+        AbilityEffect::Nova { damage, radius, on_hit } => {
+            let targets = living_enemies(ctx, player, |target| {
+                horizontal_distance(&player.position, &target.position) <= *radius
+            });
+            hit_targets(ctx, player, targets, *damage, "spell_hit", on_hit);
+            hit_npcs(ctx, player, *damage, |npc| horizontal_distance(&player.position, &npc.position) <= *radius);
+            stats_logic::reload_stats(ctx, player);
+        }
+    }
+
+    if ability.mana_cost > 0 {
+        player.mana -= ability.mana_cost;
+    }
+    if !ability.animation.is_empty() {
+        player.ability_animation = ability.animation.to_string();
+        player.ability_started_at = Some(ctx.timestamp);
+    }
+    if ability.cooldown_secs > 0.0 {
+        let cooldown_micros = (ability.cooldown_secs * 1_000_000.0) as i64;
+        ctx.db.ability_cooldown().insert(AbilityCooldown {
+            id: 0,
+            owner: player.identity,
+            ability_id: ability.id.to_string(),
+            started_at: ctx.timestamp,
+            ready_at: Timestamp::from_micros_since_unix_epoch(ctx.timestamp.to_micros_since_unix_epoch() + cooldown_micros),
+        });
+    }
+    spacetimedb::log::debug!("[ABILITY] {} used {}", player.username, ability.id);
+    true
+}
+
+// Remove cooldowns that have run out (called from game_tick)
+pub fn update_cooldowns(ctx: &ReducerContext) {
+    let ready: Vec<u64> = ctx.db.ability_cooldown().iter()
+        .filter(|cooldown| seconds_between(ctx.timestamp, cooldown.ready_at) <= 0.0)
+        .map(|cooldown| cooldown.id)
+        .collect();
+    for id in ready {
+        ctx.db.ability_cooldown().id().delete(id);
+    }
+}
+
+fn hit_targets(ctx: &ReducerContext, attacker: &PlayerData, targets: Vec<PlayerData>, damage: i32, kind: &str, on_hit: &Option<StatusSpec>) {
+    for target in targets {
+        let target_identity = target.identity;
+        let landed = combat_logic::apply_damage(ctx, attacker.identity, &attacker.position, target, damage, kind);
+        if landed {
+            if let Some(status) = on_hit {
+                status_logic::apply_status(ctx, target_identity, attacker.identity, status);
+            }
+        }
+    }
+}
+
+// Enemy creep minions only take the damage; status effects are player-only
+fn hit_npcs(ctx: &ReducerContext, attacker: &PlayerData, damage: i32, in_range: impl Fn(&Npc) -> bool) {
+    for minion in npc_logic::living_enemy_npcs(ctx, &attacker.team, in_range) {
+        npc_logic::damage_npc(ctx, minion, damage, &attacker.username);
+    }
+}
+
+// Living players of other teams that pass `in_range`
+fn living_enemies(ctx: &ReducerContext, caster: &PlayerData, in_range: impl Fn(&PlayerData) -> bool) -> Vec<PlayerData> {
+    ctx.db.player().iter()
+        .filter(|target| target.identity != caster.identity && !target.is_dead)
+        .filter(|target| team_logic::is_enemy(&caster.team, target))
+        .filter(|target| in_range(target))
+        .collect()
+}
+
+fn horizontal_distance(a: &Vector3, b: &Vector3) -> f32 {
+    let dx = b.x - a.x;
+    let dz = b.z - a.z;
+    (dx * dx + dz * dz).sqrt()
+}
@@ -0,0 +1,56 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - admin_logic.rs
+ *
+ * This file contains the server admins: identities allowed to change settings
+ * that affect every player (round duration, game mode, zone schedule, lethal
+ * edges, the active map).
+ *
+ * Key components:
+ *
+ * 1. Admins:
+ *    - ensure_owner_admin: init makes the identity that published the module the
+ *      first admin (databases published before this table existed have none until
+ *      the module is published again with a cleared database)
+ *    - grant_admin (lib.rs reducer): An admin makes another identity an admin
+ *
+ * 2. Authorization:
+ *    - require_admin: Err for callers that are not admins; every settings reducer
+ *      calls it before anything else
+ *
+ * Related files:
+ *    - lib.rs: admin table, init and the settings reducers
+ *    - match_logic.rs, zone_logic.rs, map_logic.rs: The settings it guards
+ */
+
+use spacetimedb::{ReducerContext, Identity, Table};
+use crate::{Admin, admin};
+
+pub fn ensure_owner_admin(ctx: &ReducerContext) {
+    if ctx.db.admin().identity().find(ctx.sender).is_none() {
+        ctx.db.admin().insert(Admin { identity: ctx.sender });
+        spacetimedb::log::info!("[ADMIN] {} is the first admin", ctx.sender);
+    }
+}
+
+pub fn is_admin(ctx: &ReducerContext, identity: Identity) -> bool {
+    ctx.db.admin().identity().find(identity).is_some()
+}
+
+// `action` completes "Only admins can ...", e.g. "change the game mode"
+pub fn require_admin(ctx: &ReducerContext, action: &str) -> Result<(), String> {
+    if is_admin(ctx, ctx.sender) {
+        Ok(())
+    } else {
+        spacetimedb::log::warn!("[ADMIN] {} tried to {} without being an admin", ctx.sender, action);
+        Err(format!("Only admins can {}", action))
+    }
+}
+
+pub fn grant_admin(ctx: &ReducerContext, identity: Identity) -> Result<(), String> {
+    require_admin(ctx, "grant admin rights")?;
+    if !is_admin(ctx, identity) {
+        ctx.db.admin().insert(Admin { identity });
+        spacetimedb::log::info!("[ADMIN] {} made {} an admin", ctx.sender, identity);
+    }
+    Ok(())
+}
@@ -0,0 +1,309 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - combat_logic.rs
+ *
+ * This file contains the server-authoritative melee combat logic.
+ * Clients only report that the attack button went down; the server decides
+ * when the swing lands, who it hits and how much damage it deals.
+ *
+ * Key components:
+ *
+ * 1. Class Combos:
+ *    - MeleeProfile: Damage, reach, arc, timing and animation of one combo step
+ *    - melee_combo: The chain of steps for a character class (paladins get a
+ *      nine-step slash chain, other classes a single swing)
+ *    - melee_profile: Looks up one step of a class's chain
+ *
+ * 2. Swing Lifecycle:
+ *    - start_swing: Fired by MeleeCombo abilities (ability_logic.rs); ignored while a swing is in
+ *      progress, while blocking, or when the attacker cannot pay the swing's mana cost
+ *    - queue_swing: A combo press during a swing is buffered (one at most) and
+ *      starts the next swing as soon as the current one ends
+ *    - A press within COMBO_WINDOW_SECS after the previous swing ended advances
+ *      the combo; otherwise (or after the last step) the chain starts over
+ *    - The step's animation is written to current_animation for the whole swing,
+ *      so every client plays the same step
+ *    - update_combat_logic: Called from game_tick; resolves the hit once the wind-up
+ *      has elapsed and ends the swing after its recovery
+ *
+ * 3. Hit Detection:
+ *    - is_in_swing_arc: Cone test in the XZ plane against the attacker's rotation.y
+ *    - is_within_arc: Shared facing test, also used for frontal blocking
+ *    - Every player inside the cone takes damage once per swing; enemy creep
+ *      minions in the cone are hit as well (npc_logic::damage_npc)
+ *
+ * 4. Damage & Combat Events:
+ *    - apply_damage: Shared by melee, projectiles and damage over time; reduces
+ *      damage that a blocking target takes from the front, lets shield effects
+ *      absorb the rest, lowers health, kills the target at 0 and inserts a
+ *      combat_event row
+ *    - Direct hits (not damage over time) crit for CRIT_MULTIPLIER damage in
+ *      CRIT_CHANCE_PERCENT of cases; the roll hashes attacker, target and time
+ *    - apply_heal: Restores health up to max_health and records a "heal" event
+ *    - Hits, heals and kills are reported to stats_logic.rs for the scoreboard
+ *    - Clients use the rows to play the target's damage animation, flash the
+ *      UI of the player that was hit and show floating combat text
+ *    - Events are short-lived and deleted after COMBAT_EVENT_LIFETIME_SECS
+ *
+ * Related files:
+ *    - lib.rs: PlayerData swing fields, combat_event table, game_tick
+ *    - common.rs: seconds_between helper for Timestamp arithmetic
+ *    - player_logic.rs: kill_player death transition
+ *    - ability_logic.rs: Primary attacks and instant melee/area abilities
+ */
+
+use spacetimedb::{ReducerContext, Identity, Table, Timestamp};
+use crate::common::{Vector3, BLOCK_DAMAGE_MULTIPLIER, BLOCK_ARC_DEGREES, seconds_between, fnv_hash};
+use crate::{PlayerData, CombatEvent, player, combat_event};
+use crate::{player_logic, status_logic, stats_logic, team_logic, flag_logic, zone_logic, npc_logic, match_logic};
+
+pub const COMBAT_EVENT_LIFETIME_SECS: f32 = 2.0;
+// Time after a swing's recovery in which the next press continues the combo
+pub const COMBO_WINDOW_SECS: f32 = 0.6;
+pub const CRIT_CHANCE_PERCENT: u64 = 10;
+pub const CRIT_MULTIPLIER: f32 = 1.5;
+
+pub struct MeleeProfile {
+    pub animation: &'static str, // Animation key, see loadAnimations in client/src/components/Player.tsx
+    pub damage: i32,
+    pub mana_cost: i32,    // Basic swings are free; kept per profile for special attacks
+    pub range: f32,        // Reach in world units, measured between player origins
+    pub arc_degrees: f32,  // Full width of the hit cone
+    pub windup_secs: f32,  // Time from swing start until the hit is resolved
+    pub duration_secs: f32, // Recovery: time until the next swing may start
+}
+
+// Keep the animation order in sync with COMBO_ANIMATIONS in client/src/game/combo.ts
+static PALADIN_COMBO: [MeleeProfile; 9] = [
+    MeleeProfile { animation: "attack1", damage: 18, mana_cost: 0, range: 2.5, arc_degrees: 100.0, windup_secs: 0.35, duration_secs: 0.7 },
+    MeleeProfile { animation: "slash", damage: 16, mana_cost: 0, range: 2.5, arc_degrees: 110.0, windup_secs: 0.25, duration_secs: 0.55 },
+    MeleeProfile { animation: "slash2", damage: 18, mana_cost: 0, range: 2.6, arc_degrees: 110.0, windup_secs: 0.25, duration_secs: 0.6 },
+    MeleeProfile { animation: "attack2", damage: 22, mana_cost: 0, range: 2.8, arc_degrees: 90.0, windup_secs: 0.35, duration_secs: 0.7 },
+    MeleeProfile { animation: "slash3", damage: 20, mana_cost: 0, range: 2.6, arc_degrees: 120.0, windup_secs: 0.3, duration_secs: 0.65 },
+    MeleeProfile { animation: "attack3", damage: 26, mana_cost: 0, range: 3.0, arc_degrees: 80.0, windup_secs: 0.4, duration_secs: 0.8 },
+    MeleeProfile { animation: "slash4", damage: 22, mana_cost: 0, range: 2.8, arc_degrees: 130.0, windup_secs: 0.3, duration_secs: 0.7 },
+    MeleeProfile { animation: "attack4", damage: 30, mana_cost: 0, range: 3.2, arc_degrees: 100.0, windup_secs: 0.45, duration_secs: 0.9 },
+    // Finisher: wide, slow and heavy
+    MeleeProfile { animation: "slash5", damage: 40, mana_cost: 0, range: 3.5, arc_degrees: 160.0, windup_secs: 0.5, duration_secs: 1.2 },
+];
+
+// Wizards only have a weak staff swing
+static WIZARD_COMBO: [MeleeProfile; 1] = [
+    MeleeProfile { animation: "attack1", damage: 8, mana_cost: 0, range: 2.0, arc_degrees: 70.0, windup_secs: 0.3, duration_secs: 0.8 },
+];
+
+static DEFAULT_COMBO: [MeleeProfile; 1] = [
+    MeleeProfile { animation: "attack1", damage: 10, mana_cost: 0, range: 2.0, arc_degrees: 80.0, windup_secs: 0.3, duration_secs: 0.8 },
+];
+
+pub fn melee_combo(character_class: &str) -> &'static [MeleeProfile] {
+    match character_class {
+        "Paladin" => &PALADIN_COMBO,
+        "Wizard" => &WIZARD_COMBO,
+        _ => &DEFAULT_COMBO,
+    }
+}
+
+// `step` is 1-based (PlayerData.combo_step); out-of-range steps fall back to the first
+pub fn melee_profile(character_class: &str, step: u8) -> &'static MeleeProfile {
+    let combo = melee_combo(character_class);
+    let index = (step as usize).saturating_sub(1);
+    combo.get(index).unwrap_or(&combo[0])
+}
+
+// Start a swing; returns false when the previous swing has not finished yet or mana is too low
+pub fn start_swing(player: &mut PlayerData, now: Timestamp) -> bool {
+    if player.swing_started_at.is_some() || player.is_blocking {
+        return false;
+    }
+
+    let combo_length = melee_combo(&player.character_class).len();
+    let within_window = player.last_swing_ended_at
+        .map_or(false, |ended_at| seconds_between(ended_at, now) <= COMBO_WINDOW_SECS);
+    let step = if within_window && player.combo_step > 0 && (player.combo_step as usize) < combo_length {
+        player.combo_step + 1
+    } else {
+        1
+    };
+
+    let profile = melee_profile(&player.character_class, step);
+    if player.mana < profile.mana_cost {
+        return false;
+    }
+    player.mana -= profile.mana_cost;
+    player.combo_step = step;
+    player.current_animation = profile.animation.to_string();
+    player.swing_started_at = Some(now);
+    player.swing_resolved = false;
+    player.is_attacking = true;
+    true
+}
+
+// Remember an attack pressed while a swing is in progress; further presses do not stack
+pub fn queue_swing(player: &mut PlayerData) {
+    if player.swing_started_at.is_some() {
+        player.swing_queued = true;
+    }
+}
+
+// Whether `point` lies inside the arc in front of `origin`, in the XZ plane.
+// Forward for a yaw of 0 is -Z, matching calculate_new_position.
+pub fn is_within_arc(origin: &Vector3, yaw: f32, point: &Vector3, arc_degrees: f32) -> bool {
+    let dx = point.x - origin.x;
+    let dz = point.z - origin.z;
+    let distance = (dx * dx + dz * dz).sqrt();
+    if distance < 0.01 {
+        return true; // Overlapping positions count as in front
+    }
+
+    let forward_x = -yaw.sin();
+    let forward_z = -yaw.cos();
+    let cos_angle = (dx * forward_x + dz * forward_z) / distance;
+    let half_arc = (arc_degrees * 0.5).to_radians();
+    cos_angle >= half_arc.cos()
+}
+
+pub fn is_in_swing_arc(attacker_position: &Vector3, attacker_rotation: &Vector3, target_position: &Vector3, profile: &MeleeProfile) -> bool {
+    let dx = target_position.x - attacker_position.x;
+    let dz = target_position.z - attacker_position.z;
+    if (dx * dx + dz * dz).sqrt() > profile.range {
+        return false;
+    }
+    is_within_arc(attacker_position, attacker_rotation.y, target_position, profile.arc_degrees)
+}
+
+// Resolve pending hits, finish swings and expire old combat events (called from game_tick)
+pub fn update_combat_logic(ctx: &ReducerContext) {
+    let now = ctx.timestamp;
+
+    let swinging: Vec<Identity> = ctx.db.player().iter()
+        .filter(|p| p.swing_started_at.is_some())
+        .map(|p| p.identity)
+        .collect();
+
+    for attacker_identity in swinging {
+        // Re-read the row: an earlier hit this tick may have changed it
+        let Some(mut attacker) = ctx.db.player().identity().find(attacker_identity) else { continue };
+        let Some(started_at) = attacker.swing_started_at else { continue };
+        let profile = melee_profile(&attacker.character_class, attacker.combo_step);
+        let elapsed = seconds_between(started_at, now);
+
+        if !attacker.swing_resolved && elapsed >= profile.windup_secs {
+            attacker.swing_resolved = true;
+            resolve_swing(ctx, &attacker, profile);
+            stats_logic::reload_stats(ctx, &mut attacker);
+        }
+
+        if elapsed >= profile.duration_secs {
+            attacker.swing_started_at = None;
+            attacker.last_swing_ended_at = Some(now);
+            attacker.is_attacking = false;
+            // The next input command overrides this if the player is moving
+            attacker.current_animation = "idle".to_string();
+            // The buffered press continues the combo straight away (still subject to stun, shield and mana)
+            if attacker.swing_queued {
+                attacker.swing_queued = false;
+                if !attacker.is_stunned && match_logic::abilities_allowed(ctx) {
+                    start_swing(&mut attacker, now);
+                }
+            }
+        }
+
+        ctx.db.player().identity().update(attacker);
+    }
+
+    let expired: Vec<u64> = ctx.db.combat_event().iter()
+        .filter(|event| seconds_between(event.created_at, now) > COMBAT_EVENT_LIFETIME_SECS)
+        .map(|event| event.id)
+        .collect();
+    for id in expired {
+        ctx.db.combat_event().id().delete(id);
+    }
+}
+
+fn resolve_swing(ctx: &ReducerContext, attacker: &PlayerData, profile: &MeleeProfile) {
+    let targets: Vec<PlayerData> = ctx.db.player().iter()
+        .filter(|target| target.identity != attacker.identity && !target.is_dead)
+        .filter(|target| team_logic::is_enemy(&attacker.team, target))
+        .filter(|target| is_in_swing_arc(&attacker.position, &attacker.rotation, &target.position, profile))
+        .collect();
+
+    for target in targets {
+        apply_damage(ctx, attacker.identity, &attacker.position, target, profile.damage, "melee_hit");
+    }
+
+    let minions = npc_logic::living_enemy_npcs(ctx, &attacker.team, |npc| {
+        is_in_swing_arc(&attacker.position, &attacker.rotation, &npc.position, profile)
+    });
+    for minion in minions {
+        npc_logic::damage_npc(ctx, minion, profile.damage, &attacker.username);
+    }
+}
+
+// Deal damage, record the combat event and kill the target at 0 health. Writes the target row.
+// `source_position` is where the hit comes from (attacker or projectile), used for blocking;
+// damage over time burns and the zone hurt from inside and ignore the shield arm. Shield effects absorb first.
+// Returns true when the hit landed unblocked, i.e. on-hit status effects should apply.
+pub fn apply_damage(ctx: &ReducerContext, attacker: Identity, source_position: &Vector3, mut target: PlayerData, damage: i32, kind: &str) -> bool {
+    // Burns, the battle royale zone, falls and hazard tiles hurt from everywhere and never crit
+    let environmental = kind == status_logic::BURN || kind == zone_logic::ZONE_DAMAGE
+        || kind == player_logic::FALL || kind == player_logic::HAZARD;
+    // Minion damage is flat (see npc_logic.rs); unlike the environment, a shield still blocks it
+    let critical = !environmental && kind != npc_logic::MINION_HIT && rolls_critical(ctx, attacker, target.identity);
+    let damage = if critical { (damage as f32 * CRIT_MULTIPLIER).round() as i32 } else { damage };
+    let blocked = target.is_blocking
+        && !environmental
+        && is_within_arc(&target.position, target.rotation.y, source_position, BLOCK_ARC_DEGREES);
+    let damage = if blocked { (damage as f32 * BLOCK_DAMAGE_MULTIPLIER).round() as i32 } else { damage };
+    let damage = status_logic::absorb_damage(ctx, target.identity, damage);
+    let amount = damage.min(target.health);
+    target.health -= amount;
+    spacetimedb::log::info!(
+        "[COMBAT] {} ({}) hit {} for {}{}{} ({} health left)",
+        attacker, kind, target.username, amount,
+        if critical { " (critical)" } else { "" }, if blocked { " (blocked)" } else { "" }, target.health
+    );
+    ctx.db.combat_event().insert(CombatEvent {
+        id: 0,
+        attacker,
+        target: target.identity,
+        kind: kind.to_string(),
+        amount,
+        blocked,
+        critical,
+        target_health: target.health,
+        created_at: ctx.timestamp,
+    });
+    stats_logic::record_damage(ctx, attacker, &target, amount);
+    if target.health <= 0 {
+        player_logic::kill_player(&mut target, ctx.timestamp);
+        stats_logic::record_kill(ctx, attacker, &mut target, kind);
+        flag_logic::drop_carried_flag(ctx, &target);
+    }
+    ctx.db.player().identity().update(target);
+    !blocked
+}
+
+// Restore health (capped at max_health) and record a "heal" event. The caller writes the target row.
+pub fn apply_heal(ctx: &ReducerContext, source: Identity, target: &mut PlayerData, amount: i32) {
+    let amount = amount.min(target.max_health - target.health).max(0);
+    target.health += amount;
+    spacetimedb::log::info!("[COMBAT] {} healed {} for {} ({} health)", source, target.username, amount, target.health);
+    stats_logic::record_heal(ctx, source, target, amount);
+    ctx.db.combat_event().insert(CombatEvent {
+        id: 0,
+        attacker: source,
+        target: target.identity,
+        kind: "heal".to_string(),
+        amount,
+        blocked: false,
+        critical: false,
+        target_health: target.health,
+        created_at: ctx.timestamp,
+    });
+}
+
+fn rolls_critical(ctx: &ReducerContext, attacker: Identity, target: Identity) -> bool {
+    let micros = ctx.timestamp.to_micros_since_unix_epoch().to_le_bytes();
+    let roll = fnv_hash(&[&attacker.to_byte_array()[..], &target.to_byte_array()[..], &micros[..]]) % 100;
+    roll < CRIT_CHANCE_PERCENT
+}
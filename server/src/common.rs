@@ -5,21 +5,37 @@
  * 
  * Key components:
  * - Vector3: 3D vector struct for positions, rotations and movement
- * - InputState: Player input tracking with all possible input actions
+ * - InputState: One fixed-rate input command (actions + tick number + covered time)
+ * - PlayerStats: Per-player kills, deaths, assists, damage, healing and score
+ * - ZoneStage: One stage of the battle royale zone schedule
+ * - HexCoord / MapTileInput: Axial hex coordinates and the tiles of an edited map
  * - Game constants: Speed values that affect player movement
+ * - Block constants: Movement penalty and frontal damage reduction while blocking
+ * - Regeneration constants: How much health and mana return per REGEN_INTERVAL_SECS
+ * - RESPAWN_DELAY_SECS: Time a dead player waits before respawning
+ * - Fall constants: Gravity, depth and damage of a fall off a lethal map edge
+ * - HAZARD_DAMAGE: Damage per REGEN_INTERVAL_SECS while standing on a hazard tile
+ * - seconds_between: Elapsed time between two Timestamps
+ * - fnv_hash: Deterministic hash used where gameplay needs a random-looking roll
  * 
  * These structures are used by:
  * - lib.rs: For database table definitions
  * - player_logic.rs: For movement calculations and state updates
+ * - combat_logic.rs: For swing timing and combat event expiry
+ * - projectile_logic.rs: For map bounds and projectile expiry
+ * - stats_logic.rs: For updating PlayerStats
+ * - zone_logic.rs: For the zone schedule
+ * - map_logic.rs: For base centers and uploaded maps
  * 
  * When modifying:
  * - Changes to Vector3 or InputState will affect database schema
  * - You may need to run 'spacetime delete <db_name>' after schema changes
  * - Adjust PLAYER_SPEED and SPRINT_MULTIPLIER to change movement feel
  * - Adding new input types requires updates to InputState and UI event handlers
+ *   (new abilities do not: they are bound to a slot in ability_logic.rs)
  */
 
-use spacetimedb::{SpacetimeType};
+use spacetimedb::{SpacetimeType, Timestamp};
 
 // --- Shared Structs ---
 
@@ -32,6 +48,7 @@ pub struct Vector3 {
 }
 
 // Helper struct for player input state
+// Sent by the client's fixed-rate input sampler: one command per sample tick
 #[derive(SpacetimeType, Clone, Debug)]
 pub struct InputState {
     pub forward: bool,
@@ -41,11 +58,102 @@ pub struct InputState {
     pub sprint: bool,
     pub jump: bool,
     pub attack: bool,
-    pub cast_spell: bool,
-    pub sequence: u32,
+    pub block: bool,     // Right mouse button (Paladin shield)
+    pub ability_slot: u8, // Number key 1-4 held this command, 0 for none (see ability_logic.rs)
+    pub sequence: u32,   // Sample tick number (idle ticks are skipped, so gaps are normal)
+    pub delta_time: f32, // Real time in seconds this command covers
+}
+
+// Scoreboard line of one player. Kept on PlayerData and copied to
+// LoggedOutPlayerData on logout, so a reconnecting player keeps it.
+#[derive(SpacetimeType, Clone, Debug, Default)]
+pub struct PlayerStats {
+    pub kills: u32,
+    pub deaths: u32,
+    pub assists: u32,
+    pub damage_dealt: u32,
+    pub healing_done: u32,
+    pub score: u32, // Derived by stats_logic::refresh_score
+}
+
+// One stage of the battle royale zone schedule (see zone_logic.rs): hold the
+// current radius for wait_secs, then shrink to `radius` over shrink_secs
+#[derive(SpacetimeType, Clone, Debug)]
+pub struct ZoneStage {
+    pub radius: u32, // Hex steps from the zone center
+    pub wait_secs: f32,
+    pub shrink_secs: f32,
+    pub damage_per_tick: u32, // Damage every ZONE_DAMAGE_INTERVAL_SECS outside the zone
+}
+
+// Axial hex coordinates (see map_logic.rs)
+#[derive(SpacetimeType, Clone, Copy, Debug, PartialEq)]
+pub struct HexCoord {
+    pub q: i32,
+    pub r: i32,
+}
+
+// One tile of a map made in the client's map editor (upload_map reducer); same fields as MapTile
+#[derive(SpacetimeType, Clone, Debug)]
+pub struct MapTileInput {
+    pub q: i32,
+    pub r: i32,
+    pub tile_type: String,
+    pub elevation: i32,
+    pub base_index: Option<u32>, // Base and spawn tiles only
+    pub prop: Option<String>,
 }
 
 // --- Game Constants ---
 
 pub const PLAYER_SPEED: f32 = 7.5;
 pub const SPRINT_MULTIPLIER: f32 = 1.8;
+// Blocking walks slowly and cannot sprint; keep in sync with client/src/game/movement.ts
+pub const BLOCK_SPEED_MULTIPLIER: f32 = 0.5;
+// Damage taken from the front while blocking is multiplied by this
+pub const BLOCK_DAMAGE_MULTIPLIER: f32 = 0.2;
+// Full width of the frontal arc covered by the shield
+pub const BLOCK_ARC_DEGREES: f32 = 120.0;
+// Upper bound for InputState.delta_time and for the server time a player's commands may
+// still cover; keep in sync with MAX_INPUT_DELTA in client/src/network/inputSampler.ts
+pub const MAX_INPUT_DELTA: f32 = 0.25;
+// Interval of the scheduled game_tick; short enough to resolve melee swings on time
+pub const GAME_TICK_INTERVAL_MS: u64 = 50;
+// Horizontal distance from the map center beyond which projectiles are removed.
+// The client's default HexGrid (radius 20, hex size 3) reaches about 104 units.
+pub const MAP_BOUNDS_RADIUS: f32 = 105.0;
+
+// Regeneration is applied in whole points once per interval, so rows only change when a value does
+pub const REGEN_INTERVAL_SECS: f32 = 1.0;
+pub const HEALTH_REGEN_PER_INTERVAL: i32 = 1;
+pub const MANA_REGEN_PER_INTERVAL: i32 = 4;
+
+pub const RESPAWN_DELAY_SECS: f32 = 5.0;
+
+// Players off the tiles fall with this gravity when the map edges are lethal (see player_logic::fall).
+// Once FALL_DEPTH below the standing height of the lowest tile they take FALL_DAMAGE and, if alive, return to their base.
+pub const FALL_GRAVITY: f32 = 20.0;
+pub const FALL_DEPTH: f32 = 15.0;
+pub const FALL_DAMAGE: i32 = 40;
+
+// Standing on a hazard tile stops regeneration and deals this much damage per REGEN_INTERVAL_SECS instead
+pub const HAZARD_DAMAGE: i32 = 5;
+
+// --- Helpers ---
+
+// Seconds from `earlier` to `later`; negative if `later` is actually before `earlier`
+pub fn seconds_between(earlier: Timestamp, later: Timestamp) -> f32 {
+    let micros = later.to_micros_since_unix_epoch() - earlier.to_micros_since_unix_epoch();
+    micros as f32 / 1_000_000.0
+}
+
+// FNV-1a over the given byte slices. Modules have no OS randomness, so spawn
+// choices and critical hits hash identities and the reducer timestamp instead.
+pub fn fnv_hash(parts: &[&[u8]]) -> u64 {
+    let mut hash: u64 = 0xcbf29ce484222325;
+    for byte in parts.iter().flat_map(|part| part.iter()) {
+        hash ^= *byte as u64;
+        hash = hash.wrapping_mul(0x100000001b3);
+    }
+    hash
+}
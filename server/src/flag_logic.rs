@@ -0,0 +1,197 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - flag_logic.rs
+ *
+ * This file contains the capture the flag game mode. Every team has a flag at
+ * the center of its base; the white paths HexGrid draws lead from each base
+ * through the arena to the others.
+ *
+ * Key components:
+ *
+ * 1. Flags:
+ *    - One flag row per team: home (at its base), carried (by an enemy) or
+ *      dropped (where its carrier died or disconnected)
+ *    - pick_up_flag (lib.rs reducer): The server checks the player is within
+ *      FLAG_PICKUP_RADIUS of the stored flag position. Enemies take the flag;
+ *      its own team touching a dropped flag sends it home
+ *    - A dropped flag returns home on its own after FLAG_RETURN_SECS
+ *    - A carrier falling off the map sends the flag home at once (return_carried_flag)
+ *    - Carriers move at FLAG_CARRIER_SPEED_MULTIPLIER (status_logic movement_modifiers)
+ *      while the round runs; every flag goes home when the round ends (reset_for_round,
+ *      called from match_logic at the end and the start of each round)
+ *
+ * 2. Scoring:
+ *    - A carrier within FLAG_CAPTURE_RADIUS of their own flag's home scores a
+ *      capture (one team point), but only while their own flag is at home
+ *    - CAPTURES_TO_WIN ends the round early (match_logic::points_to_win)
+ *
+ * 3. Game Tick:
+ *    - update_flag_logic: Returns dropped flags and scores captures; only runs
+ *      during a capture the flag round
+ *    - Carried flags are not moved every tick: clients draw them on the carrier,
+ *      and drop_carried_flag stores the carrier's position when the flag falls
+ *
+ * Related files:
+ *    - lib.rs: flag table, pick_up_flag reducer, game_tick, disconnect drop
+ *    - map_logic.rs: Base centers the flags stand on
+ *    - match_logic.rs: Game mode, team points and round resets
+ *    - combat_logic.rs: Drops the flag when its carrier dies
+ *    - status_logic.rs: Carrier slow
+ *    - player_logic.rs: Returns the flag of a carrier who fell off the map
+ */
+
+use spacetimedb::{ReducerContext, Identity, Table, Timestamp};
+use crate::common::{Vector3, seconds_between};
+use crate::{Flag, PlayerData, flag, player};
+use crate::{map_logic, match_logic, team_logic};
+
+pub const HOME: &str = "home";
+pub const CARRIED: &str = "carried";
+pub const DROPPED: &str = "dropped";
+
+// Horizontal distance within which a player can pick up or return a flag
+pub const FLAG_PICKUP_RADIUS: f32 = 3.0;
+// Horizontal distance from the home position within which a carrier scores
+pub const FLAG_CAPTURE_RADIUS: f32 = 4.0;
+pub const FLAG_RETURN_SECS: f32 = 20.0;
+pub const FLAG_CARRIER_SPEED_MULTIPLIER: f32 = 0.7;
+pub const CAPTURES_TO_WIN: u32 = 3;
+
+// Center hex of the team's base, on the ground
+pub fn home_position(ctx: &ReducerContext, team: &str) -> Vector3 {
+    let base_index = team_logic::team_base_index(team).unwrap_or(0);
+    let (q, r) = map_logic::base_center(ctx, base_index);
+    let (x, z) = map_logic::hex_to_world(q, r);
+    Vector3 { x, y: map_logic::ground_height(ctx, x, z).unwrap_or(0.0), z }
+}
+
+fn horizontal_distance(a: &Vector3, b: &Vector3) -> f32 {
+    ((a.x - b.x).powi(2) + (a.z - b.z).powi(2)).sqrt()
+}
+
+fn send_home(ctx: &ReducerContext, flag: &mut Flag) {
+    flag.state = HOME.to_string();
+    flag.position = home_position(ctx, &flag.team);
+    flag.carrier = None;
+    flag.returns_at = None;
+}
+
+// Every flag back at its base for a new round (called from match_logic)
+pub fn reset_for_round(ctx: &ReducerContext) {
+    for team in team_logic::TEAMS.iter() {
+        let flag = Flag {
+            team: team.id.to_string(),
+            state: HOME.to_string(),
+            position: home_position(ctx, team.id),
+            carrier: None,
+            returns_at: None,
+        };
+        if ctx.db.flag().team().find(flag.team.clone()).is_some() {
+            ctx.db.flag().team().update(flag);
+        } else {
+            ctx.db.flag().insert(flag);
+        }
+    }
+}
+
+pub fn is_carrying_flag(ctx: &ReducerContext, identity: Identity) -> bool {
+    ctx.db.flag().iter().any(|flag| flag.carrier == Some(identity))
+}
+
+pub fn pick_up_flag(ctx: &ReducerContext, flag_team: String) -> Result<(), String> {
+    if !match_logic::is_round_running(ctx, match_logic::CAPTURE_THE_FLAG) {
+        return Err("No capture the flag round is running".to_string());
+    }
+    let player = ctx.db.player().identity().find(ctx.sender).ok_or("Player is not active")?;
+    if player.is_dead {
+        return Err("Dead players cannot pick up flags".to_string());
+    }
+    let mut flag = ctx.db.flag().team().find(flag_team.clone()).ok_or(format!("Unknown flag: {}", flag_team))?;
+    if flag.state == CARRIED {
+        return Err("The flag is already carried".to_string());
+    }
+    if horizontal_distance(&player.position, &flag.position) > FLAG_PICKUP_RADIUS {
+        return Err("Too far from the flag".to_string());
+    }
+
+    if flag.team == player.team {
+        if flag.state != DROPPED {
+            return Err("Your flag is already at home".to_string());
+        }
+        spacetimedb::log::info!("[FLAG] {} returned the {} flag", player.username, flag.team);
+        send_home(ctx, &mut flag);
+    } else {
+        if is_carrying_flag(ctx, player.identity) {
+            return Err("You already carry a flag".to_string());
+        }
+        spacetimedb::log::info!("[FLAG] {} took the {} flag", player.username, flag.team);
+        flag.state = CARRIED.to_string();
+        flag.carrier = Some(player.identity);
+        flag.returns_at = None;
+    }
+    ctx.db.flag().team().update(flag);
+    Ok(())
+}
+
+// Drop the flag the player carries where they stand (death, disconnect)
+pub fn drop_carried_flag(ctx: &ReducerContext, carrier: &PlayerData) {
+    let carried: Vec<Flag> = ctx.db.flag().iter().filter(|flag| flag.carrier == Some(carrier.identity)).collect();
+    for mut flag in carried {
+        spacetimedb::log::info!("[FLAG] {} dropped the {} flag", carrier.username, flag.team);
+        flag.state = DROPPED.to_string();
+        let ground = map_logic::ground_height(ctx, carrier.position.x, carrier.position.z).unwrap_or(0.0);
+        flag.position = Vector3 { x: carrier.position.x, y: ground, z: carrier.position.z };
+        flag.carrier = None;
+        flag.returns_at = Some(Timestamp::from_micros_since_unix_epoch(
+            ctx.timestamp.to_micros_since_unix_epoch() + (FLAG_RETURN_SECS * 1_000_000.0) as i64,
+        ));
+        ctx.db.flag().team().update(flag);
+    }
+}
+
+// A carrier who falls off the map loses the flag to the void: it goes straight home
+pub fn return_carried_flag(ctx: &ReducerContext, carrier: &PlayerData) {
+    let carried: Vec<Flag> = ctx.db.flag().iter().filter(|flag| flag.carrier == Some(carrier.identity)).collect();
+    for mut flag in carried {
+        spacetimedb::log::info!("[FLAG] {} fell off the map; the {} flag returns home", carrier.username, flag.team);
+        send_home(ctx, &mut flag);
+        ctx.db.flag().team().update(flag);
+    }
+}
+
+// Return expired dropped flags and score captures (called from game_tick; only runs during a capture the flag round)
+pub fn update_flag_logic(ctx: &ReducerContext) {
+    if !match_logic::is_round_running(ctx, match_logic::CAPTURE_THE_FLAG) {
+        return;
+    }
+
+    let flags: Vec<Flag> = ctx.db.flag().iter().collect();
+    for mut flag in flags {
+        let state = flag.state.clone();
+        match state.as_str() {
+            DROPPED => {
+                if flag.returns_at.is_some_and(|returns_at| seconds_between(ctx.timestamp, returns_at) <= 0.0) {
+                    spacetimedb::log::info!("[FLAG] The {} flag returned home", flag.team);
+                    send_home(ctx, &mut flag);
+                    ctx.db.flag().team().update(flag);
+                }
+            }
+            CARRIED => {
+                let carrier = flag.carrier.and_then(|identity| ctx.db.player().identity().find(identity));
+                let Some(carrier) = carrier else {
+                    // Carrier left without going through drop_carried_flag
+                    send_home(ctx, &mut flag);
+                    ctx.db.flag().team().update(flag);
+                    continue;
+                };
+                let own_flag_home = ctx.db.flag().team().find(carrier.team.clone()).is_some_and(|own| own.state == HOME);
+                if own_flag_home && horizontal_distance(&carrier.position, &home_position(ctx, &carrier.team)) <= FLAG_CAPTURE_RADIUS {
+                    spacetimedb::log::info!("[FLAG] {} captured the {} flag for {}", carrier.username, flag.team, carrier.team);
+                    match_logic::add_team_points(ctx, &carrier.team, 1);
+                    send_home(ctx, &mut flag);
+                    ctx.db.flag().team().update(flag);
+                }
+            }
+            _ => {}
+        }
+    }
+}
@@ -0,0 +1,133 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - hill_logic.rs
+ *
+ * This file contains the king of the hill game mode. The hill is the yellow
+ * central arena: the arena tiles of the published map (map_logic::is_in_arena),
+ * which HexGrid draws from the same rows, so the server decides who stands on it.
+ *
+ * Key components:
+ *
+ * 1. Capture:
+ *    - Every tick counts the living players of each team standing on arena hexes
+ *    - A single team on the hill fills capture_progress and takes control after
+ *      CAPTURE_SECS; another team's progress is lost, an empty hill drains it
+ *    - Players of two or more teams on the hill contest it: capture and scoring pause
+ *
+ * 2. Scoring:
+ *    - The controlling team earns one team point per POINT_INTERVAL_SECS while
+ *      it holds the hill alone; HILL_POINTS_TO_WIN ends the round early
+ *
+ * 3. State:
+ *    - hill_state singleton (public): controlling team, capturing team,
+ *      progress and contested flag, so clients can tint the arena in real time
+ *    - reset_for_round: Neutral hill at every countdown
+ *
+ * Related files:
+ *    - lib.rs: hill_state table, game_tick
+ *    - map_logic.rs: world_to_hex and is_in_arena
+ *    - match_logic.rs: Game mode, team points and round end
+ *    - client/src/components/HexGrid.tsx: Arena tiles tinted with the controlling team's color
+ */
+
+use spacetimedb::{ReducerContext, Table};
+use crate::common::seconds_between;
+use crate::{HillState, hill_state, player};
+use crate::{map_logic, match_logic, team_logic};
+
+pub const HILL_STATE_ID: u32 = 0;
+pub const CAPTURE_SECS: f32 = 5.0;
+pub const POINT_INTERVAL_SECS: f32 = 1.0;
+pub const HILL_POINTS_TO_WIN: u32 = 100;
+
+fn ensure_hill_state(ctx: &ReducerContext) -> HillState {
+    if let Some(state) = ctx.db.hill_state().id().find(HILL_STATE_ID) {
+        return state;
+    }
+    ctx.db.hill_state().insert(HillState {
+        id: HILL_STATE_ID,
+        controlling_team: String::new(),
+        capturing_team: String::new(),
+        capture_progress: 0.0,
+        contested: false,
+        last_point_at: ctx.timestamp,
+    })
+}
+
+// Neutral hill for a new round (called from match_logic)
+pub fn reset_for_round(ctx: &ReducerContext) {
+    let mut state = ensure_hill_state(ctx);
+    state.controlling_team = String::new();
+    state.capturing_team = String::new();
+    state.capture_progress = 0.0;
+    state.contested = false;
+    state.last_point_at = ctx.timestamp;
+    ctx.db.hill_state().id().update(state);
+}
+
+// Capture and score the hill (called from game_tick; only runs during a king of the hill round)
+pub fn update_hill_logic(ctx: &ReducerContext, delta_time: f64) {
+    if !match_logic::is_round_running(ctx, match_logic::KING_OF_THE_HILL) {
+        return;
+    }
+    let delta_time = delta_time as f32;
+    let mut state = ensure_hill_state(ctx);
+
+    let mut counts = [0u32; team_logic::TEAMS.len()];
+    for player in ctx.db.player().iter().filter(|player| !player.is_dead) {
+        let (q, r) = map_logic::world_to_hex(player.position.x, player.position.z);
+        if !map_logic::is_in_arena(ctx, q, r) {
+            continue;
+        }
+        if let Some(index) = team_logic::team_base_index(&player.team) {
+            counts[index] += 1;
+        }
+    }
+    let present: Vec<usize> = (0..counts.len()).filter(|&index| counts[index] > 0).collect();
+    let was = (state.controlling_team.clone(), state.capturing_team.clone(), state.capture_progress, state.contested);
+    state.contested = present.len() > 1;
+
+    match present.as_slice() {
+        [] => {
+            state.capture_progress = (state.capture_progress - delta_time / CAPTURE_SECS).max(0.0);
+            if state.capture_progress == 0.0 {
+                state.capturing_team = String::new();
+            }
+        }
+        [index] => {
+            let team = team_logic::TEAMS[*index].id;
+            if state.controlling_team != team {
+                if state.capturing_team != team {
+                    state.capturing_team = team.to_string();
+                    state.capture_progress = 0.0;
+                }
+                state.capture_progress += delta_time / CAPTURE_SECS;
+                if state.capture_progress >= 1.0 {
+                    spacetimedb::log::info!("[HILL] {} captured the hill", team);
+                    state.controlling_team = team.to_string();
+                    state.capturing_team = String::new();
+                    state.capture_progress = 0.0;
+                    // Scoring starts a full interval after the capture
+                    state.last_point_at = ctx.timestamp;
+                }
+            }
+        }
+        _ => {} // Contested: everything pauses
+    }
+
+    let holding = !state.controlling_team.is_empty()
+        && present.len() == 1
+        && team_logic::TEAMS[present[0]].id == state.controlling_team;
+    let point_due = seconds_between(state.last_point_at, ctx.timestamp) >= POINT_INTERVAL_SECS;
+    if point_due {
+        state.last_point_at = ctx.timestamp;
+        if holding {
+            match_logic::add_team_points(ctx, &state.controlling_team, 1);
+        }
+    }
+
+    // last_point_at only matters on the server; skip writes that would not change what clients see
+    let now = (state.controlling_team.clone(), state.capturing_team.clone(), state.capture_progress, state.contested);
+    if now != was || point_due {
+        ctx.db.hill_state().id().update(state);
+    }
+}
@@ -6,14 +6,46 @@
  * 1. Database Schema:
  *    - PlayerData: Active player information
  *    - LoggedOutPlayerData: Persistent data for disconnected players
+ *    - CombatEvent: Short-lived record of each hit, used by clients for reactions
+ *    - Projectile: Spell projectiles simulated by game_tick
+ *    - AbilityCooldown: Abilities currently cooling down, per player
+ *    - StatusEffect: Stuns, roots, slows, burns and shields on a player
+ *    - KillFeedEntry: Short-lived record of each kill for the kill feed
+ *    - DamageContribution: Who recently damaged whom, for assists (private)
+ *    - MatchState: Singleton with the current match phase and round timer
+ *    - MatchAward: MVP and other awards of the last finished round
+ *    - TeamScore: Team points of objective game modes, reset every round
+ *    - HillState: Singleton with the king of the hill control and capture progress
+ *    - Flag: One capture the flag flag per team
+ *    - ZoneState: Singleton with the battle royale zone center, stage timings and schedule
+ *    - Npc: Creep wave minions marching down the lanes
+ *    - CreepWave: Next wave time per team (private)
+ *    - MapDefinition: Singleton with the hex map's radius, hex size, scale factors,
+ *      base centers and whether its edges are lethal
+ *    - MapTile: Tile type, elevation and prop of every non-empty hex of the map
+ *    - Admin: Identities allowed to change match settings (private)
  *    - GameTickSchedule: Periodic update scheduling
  * 
  * 2. Reducer Functions (Server Endpoints):
- *    - init: Module initialization and game tick scheduling
+ *    - init: Module initialization, map generation, game tick scheduling and the
+ *      publisher becoming the first admin
  *    - identity_connected/disconnected: Connection lifecycle management
- *    - register_player: Player registration with username and character class
+ *    - register_player: Player registration with username, character class and
+ *      requested team (balanced by team_logic.rs), spawning in the team's base
+ *      (also re-claims an active row when the same identity reconnects)
  *    - update_player_input: Processes player movement and state updates
- *    - game_tick: Periodic update for game state (scheduled)
+ *      (the attack input's rising edge fires the class's primary ability, a new
+ *      ability_slot fires the ability bound to that number key)
+ *    - set_round_duration: Round timer used from the next round on (admins only)
+ *    - set_game_mode: Game mode (deathmatch, king of the hill, capture the flag,
+ *      battle royale), only between rounds (admins only)
+ *    - pick_up_flag: Takes an enemy flag or returns the team's dropped flag (distance checked)
+ *    - set_zone_schedule: Battle royale zone stages, only between rounds (admins only)
+ *    - set_lethal_edges: Whether players fall off the map edges, only between rounds (admins only)
+ *    - upload_map: Replaces the map with one from the client's map editor, only between
+ *      rounds (admins only)
+ *    - grant_admin: Makes another identity an admin (admins only)
+ *    - game_tick: Periodic update for game state (scheduled every GAME_TICK_INTERVAL_MS)
  * 
  * 3. Table Structure:
  *    - All tables use Identity as primary keys where appropriate
@@ -29,17 +61,43 @@
  * Related files:
  *    - common.rs: Shared data structures used in table definitions
  *    - player_logic.rs: Player movement and state update calculations
+ *    - combat_logic.rs: Melee swing timing, hit detection and damage
+ *    - projectile_logic.rs: Spell casting, projectile movement and collisions
+ *    - map_logic.rs: Hex map generation, tile lookups and base spawn points
+ *    - ability_logic.rs: Class ability definitions, activation and cooldowns
+ *    - status_logic.rs: Status effect application, ticking and movement modifiers
+ *    - stats_logic.rs: Kills, deaths, assists, score and the kill feed
+ *    - team_logic.rs: Team assignment, team colors and friendly fire
+ *    - match_logic.rs: Match phases, game modes, round resets and end-of-round awards
+ *    - hill_logic.rs: King of the hill capture and scoring on the central arena
+ *    - flag_logic.rs: Capture the flag pickups, drops, returns and captures
+ *    - zone_logic.rs: Battle royale zone stages and damage outside the zone
+ *    - npc_logic.rs: Creep waves, minion AI and damage to minions
+ *    - admin_logic.rs: Admins and the authorization check of the settings reducers
  */
 
 // Declare modules
 mod common;
 mod player_logic;
+mod combat_logic;
+mod projectile_logic;
+mod map_logic;
+mod ability_logic;
+mod status_logic;
+mod stats_logic;
+mod team_logic;
+mod match_logic;
+mod hill_logic;
+mod flag_logic;
+mod zone_logic;
+mod npc_logic;
+mod admin_logic;
 
-use spacetimedb::{ReducerContext, Identity, Table, Timestamp, ScheduleAt};
+use spacetimedb::{ReducerContext, Identity, ConnectionId, Table, Timestamp, ScheduleAt};
 use std::time::Duration; // Import standard Duration
 
 // Use items from common module (structs are needed for table definitions)
-use crate::common::{Vector3, InputState};
+use crate::common::{Vector3, InputState, PlayerStats, ZoneStage, HexCoord, MapTileInput, GAME_TICK_INTERVAL_MS};
 
 // --- Schema Definitions ---
 
@@ -61,9 +119,34 @@ pub struct PlayerData {
     is_running: bool,
     is_attacking: bool,
     is_casting: bool,
+    is_blocking: bool, // Paladin holding the block input (see combat_logic.rs)
     last_input_seq: u32,
+    // Server time movement commands may still cover (see player_logic::update_input_state)
+    last_input_at: Timestamp,
+    input_time_budget: f32,
     input: InputState,
-    color: String,
+    team: String, // "red", "green" or "blue", one per base (see team_logic.rs)
+    color: String, // Team color
+    // Connection that currently owns this row; a stale disconnect from an older
+    // connection of the same identity must not log the player out
+    connection_id: Option<ConnectionId>,
+    // Melee swing in progress (see combat_logic.rs); None when the player can attack again
+    swing_started_at: Option<Timestamp>,
+    swing_resolved: bool, // The current swing already dealt its damage
+    combo_step: u8, // 1-based combo step of the current or last swing, 0 before the first
+    last_swing_ended_at: Option<Timestamp>, // Start of the window for continuing the combo
+    swing_queued: bool, // An attack pressed during the current swing, started when it ends
+    // Last activated ability (see ability_logic.rs); clients play the animation once per start time
+    ability_animation: String,
+    ability_started_at: Option<Timestamp>,
+    last_regen_at: Timestamp, // Last health/mana regeneration step (see player_logic.rs)
+    is_dead: bool,
+    respawn_at: Option<Timestamp>, // Set while dead; game_tick respawns the player after this time
+    fall_speed: f32, // Downward speed while falling off a lethal map edge (see player_logic.rs); 0.0 otherwise
+    // Derived from status_effect rows by game_tick (see status_logic.rs)
+    move_speed_multiplier: f32, // 1.0 normally, lower while slowed, 0.0 while rooted or stunned
+    is_stunned: bool,
+    stats: PlayerStats, // Scoreboard line (see stats_logic.rs)
 }
 
 #[spacetimedb::table(name = logged_out_player)]
@@ -79,9 +162,256 @@ pub struct LoggedOutPlayerData {
     max_health: i32,
     mana: i32,
     max_mana: i32,
+    stats: PlayerStats,
     last_seen: Timestamp,
 }
 
+// One row per hit, heal or mana change. Clients react to inserts; game_tick deletes rows after a short lifetime.
+#[spacetimedb::table(name = combat_event, public)]
+#[derive(Clone)]
+pub struct CombatEvent {
+    #[primary_key]
+    #[auto_inc]
+    id: u64,
+    attacker: Identity,
+    target: Identity,
+    kind: String, // "melee_hit", "spell_hit", "burn", "zone", "minion_hit", "fall", "hazard" or "heal"
+    amount: i32, // Damage dealt, or health restored for "heal"
+    blocked: bool, // Reduced by a frontal block
+    critical: bool, // Rolled a critical hit (see combat_logic.rs)
+    target_health: i32, // Target health after the event
+    created_at: Timestamp,
+}
+
+// Spell projectile in flight. game_tick moves it and deletes it on hit, expiry or leaving the map.
+#[spacetimedb::table(name = projectile, public)]
+#[derive(Clone)]
+pub struct Projectile {
+    #[primary_key]
+    #[auto_inc]
+    id: u64,
+    owner: Identity,
+    team: String, // Owner's team; the projectile passes through teammates
+    spell_type: String, // "fireball", "frostbolt" or "arcane_orb"
+    position: Vector3,
+    velocity: Vector3, // World units per second
+    created_at: Timestamp,
+    expires_at: Timestamp,
+}
+
+// Ability cooling down for one player. Activation inserts the row; game_tick deletes it once ready_at has passed.
+#[spacetimedb::table(name = ability_cooldown, public)]
+#[derive(Clone)]
+pub struct AbilityCooldown {
+    #[primary_key]
+    #[auto_inc]
+    id: u64,
+    #[index(btree)]
+    owner: Identity,
+    ability_id: String, // AbilityDef.id, e.g. "frostbolt"
+    started_at: Timestamp,
+    ready_at: Timestamp,
+}
+
+// Status effect on one player. game_tick ticks damage over time and deletes the row after expires_at.
+#[spacetimedb::table(name = status_effect, public)]
+#[derive(Clone)]
+pub struct StatusEffect {
+    #[primary_key]
+    #[auto_inc]
+    id: u64,
+    #[index(btree)]
+    target: Identity,
+    effect_type: String, // "stun", "root", "slow", "burn" or "shield"
+    magnitude: f32, // slow: share of speed removed, burn: damage per tick, shield: damage left to absorb
+    source: Identity,
+    applied_at: Timestamp,
+    expires_at: Timestamp,
+    last_tick_at: Timestamp, // Last damage-over-time tick
+}
+
+// One row per kill. Names are copied so the feed can show players that have since left.
+// game_tick deletes rows after KILL_FEED_LIFETIME_SECS (see stats_logic.rs).
+#[spacetimedb::table(name = kill_feed, public)]
+#[derive(Clone)]
+pub struct KillFeedEntry {
+    #[primary_key]
+    #[auto_inc]
+    id: u64,
+    killer: Identity,
+    killer_name: String,
+    victim: Identity,
+    victim_name: String,
+    kind: String, // CombatEvent.kind of the killing blow
+    created_at: Timestamp,
+}
+
+// Last time `attacker` damaged `target`; a kill within ASSIST_WINDOW_SECS credits an assist
+#[spacetimedb::table(name = damage_contribution)]
+#[derive(Clone)]
+pub struct DamageContribution {
+    #[primary_key]
+    #[auto_inc]
+    id: u64,
+    #[index(btree)]
+    target: Identity,
+    attacker: Identity,
+    last_damage_at: Timestamp,
+}
+
+// Singleton (id = MATCH_STATE_ID) holding the match phase. game_tick advances it (see match_logic.rs).
+#[spacetimedb::table(name = match_state, public)]
+#[derive(Clone)]
+pub struct MatchState {
+    #[primary_key]
+    id: u32,
+    phase: String, // "waiting", "countdown", "in_progress" or "ended"
+    round: u32, // Number of the current or last round, 0 before the first
+    round_duration_secs: u32, // Length of the next round
+    mode: String, // "deathmatch", "king_of_the_hill", "capture_the_flag" or "battle_royale"
+    phase_started_at: Timestamp,
+    phase_ends_at: Option<Timestamp>, // None while waiting for players
+    winning_team: String, // Team with the most points in the last round; empty for a draw
+}
+
+// One award of the last finished round; cleared when the next countdown starts
+#[spacetimedb::table(name = match_award, public)]
+#[derive(Clone)]
+pub struct MatchAward {
+    #[primary_key]
+    #[auto_inc]
+    id: u64,
+    round: u32,
+    award: String, // "mvp", "most_kills", "most_damage" or "most_healing"
+    player: Identity,
+    player_name: String,
+    team: String,
+    value: u32, // Score, kills, damage or healing that won the award
+}
+
+// Team points of the current round in objective game modes (see match_logic::add_team_points)
+#[spacetimedb::table(name = team_score, public)]
+#[derive(Clone)]
+pub struct TeamScore {
+    #[primary_key]
+    team: String,
+    points: u32,
+}
+
+// Singleton (id = HILL_STATE_ID) for king of the hill. Clients tint the arena with the controlling team's color.
+#[spacetimedb::table(name = hill_state, public)]
+#[derive(Clone)]
+pub struct HillState {
+    #[primary_key]
+    id: u32,
+    controlling_team: String, // Empty while the hill is neutral
+    capturing_team: String, // Team filling capture_progress; empty if none
+    capture_progress: f32, // 0.0 to 1.0; control switches at 1.0
+    contested: bool, // Players of several teams on the hill: capture and scoring pause
+    last_point_at: Timestamp,
+}
+
+// A team's flag in capture the flag; reset at its base every round (see flag_logic.rs)
+#[spacetimedb::table(name = flag, public)]
+#[derive(Clone)]
+pub struct Flag {
+    #[primary_key]
+    team: String, // Team the flag belongs to
+    state: String, // "home", "carried" or "dropped"
+    position: Vector3, // Home or drop position; not updated while carried
+    carrier: Option<Identity>,
+    returns_at: Option<Timestamp>, // When a dropped flag goes home on its own
+}
+
+// Singleton (id = ZONE_STATE_ID) for the battle royale zone. Only changes at stage
+// boundaries and damage ticks; clients interpolate the radius themselves (see zone_logic.rs).
+#[spacetimedb::table(name = zone_state, public)]
+#[derive(Clone)]
+pub struct ZoneState {
+    #[primary_key]
+    id: u32,
+    center_q: i32, // Axial coordinates of the center hex
+    center_r: i32,
+    stage: u32, // Index into schedule; schedule.len() once the zone has closed
+    start_radius: f32, // Radius in hex steps while holding and at the start of the shrink
+    end_radius: f32, // Radius once the current stage's shrink is over
+    shrink_starts_at: Option<Timestamp>, // None while the zone is not shrinking any more (or yet)
+    shrink_ends_at: Option<Timestamp>,
+    damage_per_tick: u32,
+    last_damage_at: Timestamp,
+    schedule: Vec<ZoneStage>,
+}
+
+// Creep wave minion (see npc_logic.rs). Moves on the server every game tick; deleted a few seconds after dying.
+#[spacetimedb::table(name = npc, public)]
+#[derive(Clone)]
+pub struct Npc {
+    #[primary_key]
+    #[auto_inc]
+    id: u64,
+    team: String, // Team and base the minion came from
+    kind: String, // "melee"
+    position: Vector3,
+    rotation: Vector3, // Only y (yaw) is used
+    health: i32,
+    max_health: i32,
+    current_animation: String, // "walk-forward", "idle" or "death"
+    target_team: String, // Base at the end of the minion's lane
+    waypoint_index: u32, // Next hex of map_logic::Lanes::lane_hexes to walk to
+    last_attack_at: Option<Timestamp>, // Clients play one attack animation per value
+    is_dead: bool,
+    died_at: Option<Timestamp>,
+}
+
+// Wave timer of one team's base (see npc_logic.rs)
+#[spacetimedb::table(name = creep_wave)]
+#[derive(Clone)]
+pub struct CreepWave {
+    #[primary_key]
+    team: String,
+    wave_number: u32, // Waves sent this round; picks the target lane
+    next_wave_at: Timestamp,
+}
+
+// Singleton (id = MAP_DEFINITION_ID) describing the active hex map, generated or uploaded (see map_logic.rs)
+#[spacetimedb::table(name = map_definition, public)]
+#[derive(Clone)]
+pub struct MapDefinition {
+    #[primary_key]
+    id: u32,
+    grid_radius: i32, // Hex steps from the center to the map edge
+    hex_size: f32, // Center-to-corner size of a hex in world units
+    base_scale_factor: f32, // Base radius = floor(grid_radius * factor)
+    path_scale_factor: f32, // Hexes on either side of a path = floor(grid_radius * factor)
+    arena_scale_factor: f32, // Arena radius = floor(grid_radius * factor)
+    level_height: f32, // World units per elevation level of a tile
+    lethal_edges: bool, // Off the tiles players fall instead of being stopped at the edge
+    base_centers: Vec<HexCoord>, // Flag and lane start of each base, in team order
+}
+
+// One non-empty hex of the map; hexes without a row are not drawn
+#[spacetimedb::table(name = map_tile, public)]
+#[derive(Clone)]
+pub struct MapTile {
+    #[primary_key]
+    #[auto_inc]
+    id: u64,
+    #[index(btree)]
+    q: i32, // Axial coordinates
+    r: i32,
+    tile_type: String, // "base", "arena", "path", "floor", "wall", "hazard" or "spawn"
+    elevation: i32, // Height of the tile surface in levels (level_height each); negative for pits
+    base_index: Option<u32>, // Base of a base or spawn tile, in team order (see team_logic.rs)
+    prop: Option<String>, // Decoration drawn on the tile ("rock", "tree" or "crate"); does not block
+}
+
+// Identity allowed to change settings that affect every player (see admin_logic.rs)
+#[spacetimedb::table(name = admin)]
+pub struct Admin {
+    #[primary_key]
+    identity: Identity,
+}
+
 #[spacetimedb::table(name = game_tick_schedule, public, scheduled(game_tick))]
 pub struct GameTickSchedule {
     #[primary_key]
@@ -95,9 +425,9 @@ pub struct GameTickSchedule {
 #[spacetimedb::reducer(init)]
 pub fn init(ctx: &ReducerContext) -> Result<(), String> {
     spacetimedb::log::info!("[INIT] Initializing Vibe Multiplayer module...");
+    let loop_duration = Duration::from_millis(GAME_TICK_INTERVAL_MS);
     if ctx.db.game_tick_schedule().count() == 0 {
-        spacetimedb::log::info!("[INIT] Scheduling initial game tick (every 1 second)...");
-        let loop_duration = Duration::from_secs(1);
+        spacetimedb::log::info!("[INIT] Scheduling initial game tick (every {} ms)...", GAME_TICK_INTERVAL_MS);
         let schedule = GameTickSchedule {
             scheduled_id: 0,
             scheduled_at: ScheduleAt::Interval(loop_duration.into()),
@@ -107,8 +437,24 @@ pub fn init(ctx: &ReducerContext) -> Result<(), String> {
             Err(e) => spacetimedb::log::error!("[INIT] FAILED to insert game tick schedule: {}", e),
         }
     } else {
-        spacetimedb::log::info!("[INIT] Game tick already scheduled.");
+        // A schedule left over from a build with a different tick rate would keep its old
+        // interval while game_tick assumes GAME_TICK_INTERVAL_MS, so bring it in line
+        let wanted = spacetimedb::TimeDuration::from(loop_duration);
+        let stale: Vec<GameTickSchedule> = ctx.db.game_tick_schedule().iter()
+            .filter(|schedule| !matches!(schedule.scheduled_at, ScheduleAt::Interval(interval) if interval == wanted))
+            .collect();
+        if stale.is_empty() {
+            spacetimedb::log::info!("[INIT] Game tick already scheduled.");
+        }
+        for mut schedule in stale {
+            spacetimedb::log::info!("[INIT] Rescheduling game tick {} to every {} ms", schedule.scheduled_id, GAME_TICK_INTERVAL_MS);
+            schedule.scheduled_at = ScheduleAt::Interval(wanted);
+            ctx.db.game_tick_schedule().scheduled_id().update(schedule);
+        }
     }
+    map_logic::ensure_map(ctx);
+    match_logic::ensure_match_state(ctx);
+    admin_logic::ensure_owner_admin(ctx);
     Ok(())
 }
 
@@ -125,6 +471,10 @@ pub fn identity_disconnected(ctx: &ReducerContext) {
     let logout_time: Timestamp = ctx.timestamp;
 
     if let Some(player) = ctx.db.player().identity().find(player_identity) {
+        if player.connection_id.is_some() && player.connection_id != ctx.connection_id {
+            spacetimedb::log::info!("Ignoring stale disconnect for player {}; a newer connection owns the row.", player_identity);
+            return;
+        }
         spacetimedb::log::info!("Moving player {} to logged_out_player table.", player_identity);
         let logged_out_player = LoggedOutPlayerData {
             identity: player.identity,
@@ -136,10 +486,13 @@ pub fn identity_disconnected(ctx: &ReducerContext) {
             max_health: player.max_health,
             mana: player.mana,
             max_mana: player.max_mana,
+            stats: player.stats.clone(),
             last_seen: logout_time,
         };
         ctx.db.logged_out_player().insert(logged_out_player);
+        flag_logic::drop_carried_flag(ctx, &player);
         ctx.db.player().identity().delete(player_identity);
+        stats_logic::forget_player(ctx, player_identity);
     } else {
         spacetimedb::log::warn!("Disconnect by player {} not found in active player table.", player_identity);
         if let Some(mut logged_out_player) = ctx.db.logged_out_player().identity().find(player_identity) {
@@ -153,33 +506,36 @@ pub fn identity_disconnected(ctx: &ReducerContext) {
 // --- Game Specific Reducers ---
 
 #[spacetimedb::reducer]
-pub fn register_player(ctx: &ReducerContext, username: String, character_class: String) {
+pub fn register_player(ctx: &ReducerContext, username: String, character_class: String, team: String) {
     let player_identity: Identity = ctx.sender;
     spacetimedb::log::info!(
-        "Registering player {} ({}) with class {}",
+        "Registering player {} ({}) with class {} (requested team: {})",
         username,
         player_identity,
-        character_class
+        character_class,
+        if team.is_empty() { "auto" } else { team.as_str() }
     );
 
-    if ctx.db.player().identity().find(player_identity).is_some() {
-        spacetimedb::log::warn!("Player {} is already active.", player_identity);
+    if let Some(mut active_player) = ctx.db.player().identity().find(player_identity) {
+        // Reconnected before the old connection timed out: hand the row to the new connection
+        spacetimedb::log::info!("Player {} is already active, re-claiming for the new connection.", player_identity);
+        active_player.connection_id = ctx.connection_id;
+        active_player.last_input_seq = 0; // The new client's input sampler starts counting from zero
+        ctx.db.player().identity().update(active_player);
         return;
     }
 
-    // Assign color and position based on current player count
-    let player_count = ctx.db.player().iter().count();
-    let colors = ["cyan", "magenta", "yellow", "lightgreen", "white", "orange"];
-    let assigned_color = colors[player_count % colors.len()].to_string();
-    // Simple horizontal offset for spawning, start Y at 1.0
-    let spawn_position = Vector3 { x: (player_count as f32 * 5.0) - 2.5, y: 1.0, z: 0.0 };
+    // Balance teams, then spawn inside the team's base
+    let assigned_team = team_logic::assign_team(ctx, &team);
+    let assigned_color = team_logic::team_color(&assigned_team).to_string();
+    let spawn_position = map_logic::choose_spawn_point(ctx, player_identity, &assigned_team);
 
     if let Some(logged_out_player) = ctx.db.logged_out_player().identity().find(player_identity) {
         spacetimedb::log::info!("Player {} is rejoining.", player_identity);
         let default_input = InputState {
             forward: false, backward: false, left: false, right: false,
-            sprint: false, jump: false, attack: false, cast_spell: false,
-            sequence: 0
+            sprint: false, jump: false, attack: false, block: false, ability_slot: 0,
+            sequence: 0, delta_time: 0.0
         };
         let rejoining_player = PlayerData {
             identity: logged_out_player.identity,
@@ -187,7 +543,8 @@ pub fn register_player(ctx: &ReducerContext, username: String, character_class:
             character_class: logged_out_player.character_class.clone(),
             position: spawn_position,
             rotation: logged_out_player.rotation.clone(),
-            health: logged_out_player.health,
+            // Died and logged out before respawning: the countdown has long passed
+            health: if logged_out_player.health > 0 { logged_out_player.health } else { logged_out_player.max_health },
             max_health: logged_out_player.max_health,
             mana: logged_out_player.mana,
             max_mana: logged_out_player.max_mana,
@@ -196,9 +553,28 @@ pub fn register_player(ctx: &ReducerContext, username: String, character_class:
             is_running: false,
             is_attacking: false,
             is_casting: false,
+            is_blocking: false,
             last_input_seq: 0,
+            last_input_at: ctx.timestamp,
+            input_time_budget: 0.0,
             input: default_input,
+            team: assigned_team,
             color: assigned_color,
+            connection_id: ctx.connection_id,
+            swing_started_at: None,
+            swing_resolved: false,
+            combo_step: 0,
+            last_swing_ended_at: None,
+            swing_queued: false,
+            ability_animation: String::new(),
+            ability_started_at: None,
+            last_regen_at: ctx.timestamp,
+            is_dead: false,
+            respawn_at: None,
+            fall_speed: 0.0,
+            move_speed_multiplier: 1.0,
+            is_stunned: false,
+            stats: logged_out_player.stats.clone(),
         };
         ctx.db.player().insert(rejoining_player);
         ctx.db.logged_out_player().identity().delete(player_identity);
@@ -206,8 +582,8 @@ pub fn register_player(ctx: &ReducerContext, username: String, character_class:
         spacetimedb::log::info!("Registering new player {}.", player_identity);
         let default_input = InputState {
             forward: false, backward: false, left: false, right: false,
-            sprint: false, jump: false, attack: false, cast_spell: false,
-            sequence: 0
+            sprint: false, jump: false, attack: false, block: false, ability_slot: 0,
+            sequence: 0, delta_time: 0.0
         };
         ctx.db.player().insert(PlayerData {
             identity: player_identity,
@@ -224,9 +600,28 @@ pub fn register_player(ctx: &ReducerContext, username: String, character_class:
             is_running: false,
             is_attacking: false,
             is_casting: false,
+            is_blocking: false,
             last_input_seq: 0,
+            last_input_at: ctx.timestamp,
+            input_time_budget: 0.0,
             input: default_input,
+            team: assigned_team,
             color: assigned_color,
+            connection_id: ctx.connection_id,
+            swing_started_at: None,
+            swing_resolved: false,
+            combo_step: 0,
+            last_swing_ended_at: None,
+            swing_queued: false,
+            ability_animation: String::new(),
+            ability_started_at: None,
+            last_regen_at: ctx.timestamp,
+            is_dead: false,
+            respawn_at: None,
+            fall_speed: 0.0,
+            move_speed_multiplier: 1.0,
+            is_stunned: false,
+            stats: PlayerStats::default(),
         });
     }
 }
@@ -240,19 +635,76 @@ pub fn update_player_input(
     client_animation: String,
 ) {
     if let Some(mut player) = ctx.db.player().identity().find(ctx.sender) {
-        player_logic::update_input_state(&mut player, input, client_rot, client_animation);
-        ctx.db.player().identity().update(player);
+        // Compare against the previous command before update_input_state replaces it
+        let attack_pressed = input.attack && !player.input.attack;
+        let ability_pressed = input.ability_slot != 0 && input.ability_slot != player.input.ability_slot;
+        let pressed_slot = input.ability_slot;
+        if player_logic::update_input_state(ctx, &mut player, input, client_rot, client_animation) {
+            // Left click fires the primary ability, the number keys the ability in their slot.
+            // The match countdown and results screen hold abilities back.
+            let abilities_allowed = match_logic::abilities_allowed(ctx);
+            if attack_pressed && abilities_allowed {
+                ability_logic::activate_ability(ctx, &mut player, ability_logic::PRIMARY_SLOT);
+            }
+            if ability_pressed && abilities_allowed {
+                ability_logic::activate_ability(ctx, &mut player, pressed_slot);
+            }
+            ctx.db.player().identity().update(player);
+        }
     } else {
         spacetimedb::log::warn!("Player {} tried to update input but is not active.", ctx.sender);
     }
 }
 
+#[spacetimedb::reducer]
+pub fn set_round_duration(ctx: &ReducerContext, seconds: u32) -> Result<(), String> {
+    match_logic::set_round_duration(ctx, seconds)
+}
+
+#[spacetimedb::reducer]
+pub fn set_game_mode(ctx: &ReducerContext, mode: String) -> Result<(), String> {
+    match_logic::set_game_mode(ctx, mode)
+}
+
+#[spacetimedb::reducer]
+pub fn pick_up_flag(ctx: &ReducerContext, flag_team: String) -> Result<(), String> {
+    flag_logic::pick_up_flag(ctx, flag_team)
+}
+
+#[spacetimedb::reducer]
+pub fn set_zone_schedule(ctx: &ReducerContext, schedule: Vec<ZoneStage>) -> Result<(), String> {
+    zone_logic::set_zone_schedule(ctx, schedule)
+}
+
+#[spacetimedb::reducer]
+pub fn set_lethal_edges(ctx: &ReducerContext, enabled: bool) -> Result<(), String> {
+    map_logic::set_lethal_edges(ctx, enabled)
+}
+
+#[spacetimedb::reducer]
+pub fn upload_map(ctx: &ReducerContext, level_height: f32, tiles: Vec<MapTileInput>) -> Result<(), String> {
+    map_logic::upload_map(ctx, level_height, tiles)
+}
+
+#[spacetimedb::reducer]
+pub fn grant_admin(ctx: &ReducerContext, identity: Identity) -> Result<(), String> {
+    admin_logic::grant_admin(ctx, identity)
+}
+
 #[spacetimedb::reducer(update)]
 pub fn game_tick(ctx: &ReducerContext, _tick_info: GameTickSchedule) {
-    // Just use a simple log message without timestamp conversion
-    let delta_time = 1.0; // Fixed 1-second tick for simplicity
-    
+    let delta_time = GAME_TICK_INTERVAL_MS as f64 / 1000.0;
+
     player_logic::update_players_logic(ctx, delta_time);
+    combat_logic::update_combat_logic(ctx);
+    projectile_logic::update_projectiles_logic(ctx, delta_time);
+    ability_logic::update_cooldowns(ctx);
+    status_logic::update_status_effects(ctx);
+    stats_logic::update_kill_feed(ctx);
+    hill_logic::update_hill_logic(ctx, delta_time);
+    flag_logic::update_flag_logic(ctx);
+    zone_logic::update_zone_logic(ctx);
+    match_logic::update_match_logic(ctx);
     
     spacetimedb::log::debug!("Game tick completed");
 }
@@ -0,0 +1,676 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - map_logic.rs
+ *
+ * This file contains the hex map. The server generates it once and publishes it
+ * through the map_definition and map_tile tables, and the client's map editor can
+ * replace it between rounds; the client's HexGrid component draws those rows, and
+ * gameplay (spawns, king of the hill, movement bounds) classifies hexes with the same rows.
+ *
+ * Key components:
+ *
+ * 1. Hex Math:
+ *    - hex_to_world: Axial (q, r) coordinates to world X/Z (pointy-top layout)
+ *    - hexes_in_radius: Every axial offset within a hex distance of a center
+ *    - hex_distance: Distance between two axial coordinates in hex steps
+ *    - world_to_hex: World X/Z to the axial coordinates of the hex containing it
+ *    - hex_line: Hexes on the straight line between two hexes
+ *
+ * 2. Map Generation:
+ *    - classify_hex: Tile type (and base) of a hex on the generated map; bases win
+ *      over the arena, the arena over paths, and every other hex stays empty
+ *    - generated_elevation: Raised base plateaus, paths ramping down from them one
+ *      level per hex and a sunken pit in the middle of the arena
+ *    - ensure_map: Writes the map_definition row and one map_tile row per
+ *      non-empty hex if the map does not exist yet
+ *    - tile_at: The published tile of a hex, if any
+ *
+ * 3. Base Regions:
+ *    - generated_base_centers: Map corners of the three bases on the generated map,
+ *      same order as the team colors
+ *    - base_center: Center of a base on the active map (map_definition.base_centers)
+ *    - base_tiles: Base and spawn tiles of one base
+ *    - choose_spawn_point: Picks a spawn tile of the player's team base, or any
+ *      of its base tiles, for a (re)spawning player
+ *
+ * 4. Arena:
+ *    - is_in_arena: Whether a hex is an arena tile (the yellow central hexes)
+ *
+ * 5. Lanes:
+ *    - walkable_tiles: Elevation of every non-wall tile, the graph lanes are searched on
+ *    - Lanes::lane_hexes: Waypoints from one base center to another, walking the
+ *      tiles under can_step (with jumps) through the map center when it connects
+ *      both bases, else the shortest walkable way
+ *
+ * 6. Walkable Area:
+ *    - is_walkable: Whether a world position lies on a tile
+ *    - is_hazard: Whether a world position lies on a hazard tile (player_logic damages it)
+ *    - ground_height: Height of the tile surface under a world position
+ *    - can_step: Step-height rule; rises up to MAX_STEP_HEIGHT are walked, higher
+ *      ones need the jump input and at most MAX_JUMP_HEIGHT, drops are free
+ *    - constrain_movement: Keeps a move on the tiles it may enter (sliding along
+ *      edges, cliffs and walls), or with lethal edges lets the player step off, and puts
+ *      the player on the terrain height; mirrored by constrainMovement in
+ *      client/src/game/map.ts so prediction agrees at edges and cliffs
+ *    - constrain_minion_movement: The same for minions, with jumps and never off the tiles
+ *    - follow_terrain: Standing height on the tile under a position
+ *    - set_lethal_edges: Toggles falling off the edges (set_lethal_edges reducer), admins only
+ *
+ * 7. Uploaded Maps:
+ *    - upload_map: Replaces every tile with a map from the client's map editor
+ *      (upload_map reducer), only between rounds and by admins
+ *    - validate_map: Known tile types and props, elevation and size limits, one
+ *      tile per hex, and every base reachable from every other base on foot
+ *    - edited_base_centers: Base centers of an uploaded map
+ *
+ * When modifying:
+ *    - Changing the constants only affects maps generated afterwards; delete the
+ *      map_definition row (or republish with a cleared database) to regenerate
+ *    - Keep HEX_SIZE, the TILE_* ids, PROPS, SPAWN_HEIGHT and the step heights in sync
+ *      with client/src/game/map.ts, and the upload limits and validate_map with
+ *      client/src/game/mapFormat.ts
+ *
+ * Related files:
+ *    - lib.rs: MapDefinition and MapTile tables, initial spawn in register_player
+ *    - player_logic.rs: Respawns dead players through choose_spawn_point
+ *    - team_logic.rs: Team id to base index
+ *    - hill_logic.rs: King of the hill capture on the arena hexes
+ *    - flag_logic.rs: Capture the flag flags stand on the base centers
+ *    - npc_logic.rs: Creep waves walk the lanes
+ *    - player_logic.rs: Movement bounds and falling players
+ *    - client/src/components/HexGrid.tsx: Draws the map_tile rows
+ *    - client/src/components/MapEditor.tsx: Makes the maps upload_map receives
+ */
+
+use std::collections::{HashMap, HashSet, VecDeque};
+use spacetimedb::{Identity, ReducerContext, Table, Timestamp};
+use crate::common::{Vector3, HexCoord, MapTileInput, fnv_hash};
+use crate::{admin_logic, flag_logic, match_logic, npc_logic, team_logic};
+use crate::{MapDefinition, MapTile, PlayerData, map_definition, map_tile, player};
+
+pub const MAP_DEFINITION_ID: u32 = 0;
+
+pub const MAP_GRID_RADIUS: i32 = 20;
+pub const HEX_SIZE: f32 = 3.0;
+pub const BASE_SCALE_FACTOR: f32 = 0.25;
+pub const PATH_SCALE_FACTOR: f32 = 0.02;
+pub const ARENA_SCALE_FACTOR: f32 = 0.3;
+
+pub const TILE_BASE: &str = "base";
+pub const TILE_ARENA: &str = "arena";
+pub const TILE_PATH: &str = "path";
+// Only in maps made with the client's map editor
+pub const TILE_FLOOR: &str = "floor";
+pub const TILE_WALL: &str = "wall";
+pub const TILE_HAZARD: &str = "hazard";
+pub const TILE_SPAWN: &str = "spawn";
+const TILE_TYPES: [&str; 7] = [TILE_BASE, TILE_ARENA, TILE_PATH, TILE_FLOOR, TILE_WALL, TILE_HAZARD, TILE_SPAWN];
+pub const PROPS: [&str; 3] = ["rock", "tree", "crate"];
+// Height of a standing player's (or minion's) position above the tile surface
+pub const SPAWN_HEIGHT: f32 = 1.0;
+
+// World units per elevation level
+pub const LEVEL_HEIGHT: f32 = 0.5;
+// Rises up to MAX_STEP_HEIGHT are walked up; higher ones need the jump input
+pub const MAX_STEP_HEIGHT: f32 = 0.5;
+pub const MAX_JUMP_HEIGHT: f32 = 1.0;
+
+// Elevation of the generated map, in levels
+const BASE_ELEVATION: i32 = 2;
+const PIT_RADIUS: i32 = 1;
+const PIT_ELEVATION: i32 = -2;
+
+// Limits of uploaded maps; tiles stay within MAP_GRID_RADIUS, so projectile bounds and the zone still fit
+pub const MIN_ELEVATION: i32 = -8;
+pub const MAX_ELEVATION: i32 = 16;
+pub const MIN_LEVEL_HEIGHT: f32 = 0.1;
+pub const MAX_LEVEL_HEIGHT: f32 = 2.0;
+
+const HEX_DIRECTIONS: [(i32, i32); 6] = [(1, 0), (1, -1), (0, -1), (-1, 0), (-1, 1), (0, 1)];
+
+// Pointy-top axial layout; HexGrid places its cells the same way
+pub fn hex_to_world(q: i32, r: i32) -> (f32, f32) {
+    let sqrt3 = 3.0_f32.sqrt();
+    let x = HEX_SIZE * (sqrt3 * q as f32 + sqrt3 / 2.0 * r as f32);
+    let z = HEX_SIZE * (1.5 * r as f32);
+    (x, z)
+}
+
+pub fn hex_distance(q1: i32, r1: i32, q2: i32, r2: i32) -> i32 {
+    let dq = q1 - q2;
+    let dr = r1 - r2;
+    dq.abs().max(dr.abs()).max((dq + dr).abs())
+}
+
+// Inverse of hex_to_world followed by cube rounding, so every point maps to the hex drawn around it
+pub fn world_to_hex(x: f32, z: f32) -> (i32, i32) {
+    let sqrt3 = 3.0_f32.sqrt();
+    let q = (sqrt3 / 3.0 * x - z / 3.0) / HEX_SIZE;
+    let r = (2.0 / 3.0 * z) / HEX_SIZE;
+    cube_round(q, r)
+}
+
+// Nearest hex to fractional axial coordinates
+fn cube_round(q: f32, r: f32) -> (i32, i32) {
+    let s = -q - r;
+
+    let mut rounded_q = q.round();
+    let mut rounded_r = r.round();
+    let rounded_s = s.round();
+    let q_diff = (rounded_q - q).abs();
+    let r_diff = (rounded_r - r).abs();
+    let s_diff = (rounded_s - s).abs();
+    // Fix the component with the largest rounding error so q + r + s stays 0
+    if q_diff > r_diff && q_diff > s_diff {
+        rounded_q = -rounded_r - rounded_s;
+    } else if r_diff > s_diff {
+        rounded_r = -rounded_q - rounded_s;
+    }
+    (rounded_q as i32, rounded_r as i32)
+}
+
+pub fn hexes_in_radius(radius: i32) -> Vec<(i32, i32)> {
+    let mut hexes = Vec::new();
+    for q in -radius..=radius {
+        let r_min = (-radius).max(-q - radius);
+        let r_max = radius.min(-q + radius);
+        for r in r_min..=r_max {
+            hexes.push((q, r));
+        }
+    }
+    hexes
+}
+
+// Hexes on the straight line from one hex to another (both included)
+pub fn hex_line(from: (i32, i32), to: (i32, i32)) -> Vec<(i32, i32)> {
+    let steps = hex_distance(from.0, from.1, to.0, to.1);
+    if steps == 0 {
+        return vec![from];
+    }
+    (0..=steps)
+        .map(|step| {
+            let t = step as f32 / steps as f32;
+            // The nudge settles points that lie exactly between two hexes the same way every time
+            let q = from.0 as f32 + (to.0 - from.0) as f32 * t + 1e-4;
+            let r = from.1 as f32 + (to.1 - from.1) as f32 * t + 1e-4;
+            cube_round(q, r)
+        })
+        .collect()
+}
+
+// Map corners of the red, green and blue bases on the generated map
+pub fn generated_base_centers() -> [(i32, i32); 3] {
+    [
+        (MAP_GRID_RADIUS, -MAP_GRID_RADIUS),
+        (-MAP_GRID_RADIUS, 0),
+        (0, MAP_GRID_RADIUS),
+    ]
+}
+
+pub fn base_radius() -> i32 {
+    (MAP_GRID_RADIUS as f32 * BASE_SCALE_FACTOR).floor() as i32
+}
+
+pub fn arena_radius() -> i32 {
+    (MAP_GRID_RADIUS as f32 * ARENA_SCALE_FACTOR).floor() as i32
+}
+
+// Hexes on either side of a path's center line
+pub fn path_width() -> i32 {
+    (MAP_GRID_RADIUS as f32 * PATH_SCALE_FACTOR).floor() as i32
+}
+
+// Tile type and base index of a hex on the generated map; None for hexes that stay empty
+pub fn classify_hex(q: i32, r: i32) -> Option<(&'static str, Option<usize>)> {
+    if hex_distance(q, r, 0, 0) > MAP_GRID_RADIUS {
+        return None;
+    }
+    let base = generated_base_centers().iter().position(|&(center_q, center_r)| hex_distance(q, r, center_q, center_r) <= base_radius());
+    if base.is_some() {
+        return Some((TILE_BASE, base));
+    }
+    if hex_distance(q, r, 0, 0) <= arena_radius() {
+        return Some((TILE_ARENA, None));
+    }
+    let on_path = generated_base_centers().iter().any(|&center| {
+        hex_line(center, (0, 0)).iter().any(|&(path_q, path_r)| hex_distance(q, r, path_q, path_r) <= path_width())
+    });
+    if on_path {
+        return Some((TILE_PATH, None));
+    }
+    None
+}
+
+// Elevation of a classified hex on the generated map: bases are plateaus, paths ramp
+// down from them one level per hex, and the arena center is a pit only a jump gets out of
+pub fn generated_elevation(q: i32, r: i32, tile_type: &str) -> i32 {
+    match tile_type {
+        TILE_BASE => BASE_ELEVATION,
+        TILE_PATH => {
+            let from_base = generated_base_centers().iter()
+                .map(|&(center_q, center_r)| hex_distance(q, r, center_q, center_r) - base_radius())
+                .min()
+                .unwrap_or(0);
+            (BASE_ELEVATION - from_base).max(0)
+        }
+        TILE_ARENA if hex_distance(q, r, 0, 0) <= PIT_RADIUS => PIT_ELEVATION,
+        _ => 0,
+    }
+}
+
+// Generate the map if it does not exist yet (called from init, and on spawn for
+// databases created before the map existed). Existing maps are never regenerated.
+pub fn ensure_map(ctx: &ReducerContext) -> MapDefinition {
+    if let Some(definition) = ctx.db.map_definition().id().find(MAP_DEFINITION_ID) {
+        return definition;
+    }
+    for (q, r) in hexes_in_radius(MAP_GRID_RADIUS) {
+        if let Some((tile_type, base_index)) = classify_hex(q, r) {
+            ctx.db.map_tile().insert(MapTile {
+                id: 0,
+                q,
+                r,
+                tile_type: tile_type.to_string(),
+                elevation: generated_elevation(q, r, tile_type),
+                base_index: base_index.map(|index| index as u32),
+                prop: None,
+            });
+        }
+    }
+    spacetimedb::log::info!("[MAP] Generated {} tiles (grid radius {}).", ctx.db.map_tile().count(), MAP_GRID_RADIUS);
+    ctx.db.map_definition().insert(MapDefinition {
+        id: MAP_DEFINITION_ID,
+        grid_radius: MAP_GRID_RADIUS,
+        hex_size: HEX_SIZE,
+        base_scale_factor: BASE_SCALE_FACTOR,
+        path_scale_factor: PATH_SCALE_FACTOR,
+        arena_scale_factor: ARENA_SCALE_FACTOR,
+        level_height: LEVEL_HEIGHT,
+        lethal_edges: false,
+        base_centers: generated_base_centers().iter().map(|&(q, r)| HexCoord { q, r }).collect(),
+    })
+}
+
+pub fn tile_at(ctx: &ReducerContext, q: i32, r: i32) -> Option<MapTile> {
+    ctx.db.map_tile().q().filter(q).find(|tile| tile.r == r)
+}
+
+pub fn is_in_arena(ctx: &ReducerContext, q: i32, r: i32) -> bool {
+    tile_at(ctx, q, r).is_some_and(|tile| tile.tile_type == TILE_ARENA)
+}
+
+// Flag spot and lane start of a base: the map corner on the generated map, the
+// middle of the base's tiles on an uploaded one
+pub fn base_center(ctx: &ReducerContext, base_index: usize) -> (i32, i32) {
+    ensure_map(ctx).base_centers.get(base_index)
+        .map(|center| (center.q, center.r))
+        .unwrap_or(generated_base_centers()[base_index])
+}
+
+// Elevation of every tile a walker may stand on (walls left out), by hex
+pub type WalkableTiles = HashMap<(i32, i32), i32>;
+
+pub fn walkable_tiles(ctx: &ReducerContext) -> WalkableTiles {
+    ctx.db.map_tile().iter()
+        .filter(|tile| tile.tile_type != TILE_WALL)
+        .map(|tile| ((tile.q, tile.r), tile.elevation))
+        .collect()
+}
+
+// Minion lanes of the active map, computed on first use. Loaded once per game tick,
+// so every minion of a tick shares one tile scan and one search per lane.
+pub struct Lanes {
+    walkable: WalkableTiles,
+    level_height: f32,
+    centers: Vec<(i32, i32)>,
+    lanes: HashMap<(usize, usize), Vec<(i32, i32)>>,
+}
+
+impl Lanes {
+    pub fn load(ctx: &ReducerContext) -> Lanes {
+        Lanes {
+            walkable: walkable_tiles(ctx),
+            level_height: level_height(ctx),
+            centers: (0..team_logic::TEAMS.len()).map(|base_index| base_center(ctx, base_index)).collect(),
+            lanes: HashMap::new(),
+        }
+    }
+
+    // Hexes from one base center to another, walking the tiles under can_step (jumps
+    // included, like validate_map): through the map center if it is a tile that
+    // connects both bases, else the shortest way. Just the start hex if no way exists.
+    pub fn lane_hexes(&mut self, from_base: usize, to_base: usize) -> &[(i32, i32)] {
+        let (walkable, level_height) = (&self.walkable, self.level_height);
+        let (from, to) = (self.centers[from_base], self.centers[to_base]);
+        self.lanes.entry((from_base, to_base)).or_insert_with(|| {
+            let through_center = shortest_path(walkable, from, (0, 0), level_height)
+                .zip(shortest_path(walkable, (0, 0), to, level_height))
+                .map(|(mut hexes, rest)| {
+                    // The center ends the first leg and starts the second; keep it once
+                    hexes.extend(rest.into_iter().skip(1));
+                    hexes
+                });
+            through_center
+                .or_else(|| shortest_path(walkable, from, to, level_height))
+                .unwrap_or_else(|| vec![from])
+        })
+    }
+}
+
+// Hexes a walker can reach from `start` under can_step with jumps; walls and empty hexes block
+fn reachable_hexes(walkable: &WalkableTiles, start: &[(i32, i32)], level_height: f32) -> HashSet<(i32, i32)> {
+    let mut reached: HashSet<(i32, i32)> = start.iter().copied().collect();
+    let mut queue: VecDeque<(i32, i32)> = start.iter().copied().collect();
+    while let Some(hex) = queue.pop_front() {
+        for next in walkable_neighbors(walkable, hex, level_height) {
+            if reached.insert(next) {
+                queue.push_back(next);
+            }
+        }
+    }
+    reached
+}
+
+// Fewest-steps walk from one hex to another (both included), same rules as reachable_hexes
+fn shortest_path(walkable: &WalkableTiles, from: (i32, i32), to: (i32, i32), level_height: f32) -> Option<Vec<(i32, i32)>> {
+    if !walkable.contains_key(&from) || !walkable.contains_key(&to) {
+        return None;
+    }
+    let mut came_from: HashMap<(i32, i32), (i32, i32)> = HashMap::new();
+    let mut queue: VecDeque<(i32, i32)> = VecDeque::from([from]);
+    while let Some(hex) = queue.pop_front() {
+        if hex == to {
+            let mut path = vec![to];
+            while let Some(&previous) = came_from.get(path.last().unwrap()) {
+                path.push(previous);
+            }
+            path.reverse();
+            return Some(path);
+        }
+        for next in walkable_neighbors(walkable, hex, level_height) {
+            if next != from && !came_from.contains_key(&next) {
+                came_from.insert(next, hex);
+                queue.push_back(next);
+            }
+        }
+    }
+    None
+}
+
+// Neighbors of a walkable hex that can be stepped or jumped onto from it
+fn walkable_neighbors(walkable: &WalkableTiles, (q, r): (i32, i32), level_height: f32) -> Vec<(i32, i32)> {
+    let from_ground = walkable[&(q, r)] as f32 * level_height;
+    HEX_DIRECTIONS.iter()
+        .map(|(step_q, step_r)| (q + step_q, r + step_r))
+        .filter(|next| walkable.get(next).is_some_and(|&elevation| can_step(from_ground, elevation as f32 * level_height, true)))
+        .collect()
+}
+
+// Base and spawn tiles of one base. Bases of the generated map sit on the map
+// corners, so part of each base radius lies outside the grid and has no tile.
+pub fn base_tiles(ctx: &ReducerContext, base_index: usize) -> Vec<MapTile> {
+    ctx.db.map_tile().iter()
+        .filter(|tile| tile.base_index == Some(base_index as u32))
+        .collect()
+}
+
+// Pick a spawn tile of the team's base, or any of its base tiles if it has none
+// (any base for an unknown team). Modules have no OS randomness, so the choice is
+// derived from the player's identity and the current time.
+pub fn choose_spawn_point(ctx: &ReducerContext, identity: Identity, team: &str) -> Vector3 {
+    let seed = spawn_seed(identity, ctx.timestamp);
+    let base_index = team_logic::team_base_index(team)
+        .unwrap_or((seed % team_logic::TEAMS.len() as u64) as usize);
+
+    let tiles = base_tiles(ctx, base_index);
+    let spawns: Vec<(i32, i32)> = tiles.iter()
+        .filter(|tile| tile.tile_type == TILE_SPAWN)
+        .map(|tile| (tile.q, tile.r))
+        .collect();
+    // Stay one ring inside the map edge so players never spawn on the border
+    let grid_radius = ensure_map(ctx).grid_radius;
+    let mut candidates: Vec<(i32, i32)> = if spawns.is_empty() {
+        tiles.iter()
+            .map(|tile| (tile.q, tile.r))
+            .filter(|&(q, r)| hex_distance(q, r, 0, 0) < grid_radius)
+            .collect()
+    } else {
+        spawns
+    };
+    if candidates.is_empty() {
+        candidates.push(base_center(ctx, base_index));
+    }
+    let (q, r) = candidates[((seed / 3) % candidates.len() as u64) as usize];
+
+    let (x, z) = hex_to_world(q, r);
+    follow_terrain(ctx, Vector3 { x, y: SPAWN_HEIGHT, z })
+}
+
+fn spawn_seed(identity: Identity, now: Timestamp) -> u64 {
+    let micros = now.to_micros_since_unix_epoch().to_le_bytes();
+    fnv_hash(&[&identity.to_byte_array()[..], &micros[..]])
+}
+
+fn tile_at_world(ctx: &ReducerContext, x: f32, z: f32) -> Option<MapTile> {
+    let (q, r) = world_to_hex(x, z);
+    tile_at(ctx, q, r)
+}
+
+pub fn is_walkable(ctx: &ReducerContext, x: f32, z: f32) -> bool {
+    tile_at_world(ctx, x, z).is_some()
+}
+
+pub fn is_hazard(ctx: &ReducerContext, x: f32, z: f32) -> bool {
+    tile_at_world(ctx, x, z).is_some_and(|tile| tile.tile_type == TILE_HAZARD)
+}
+
+pub fn lethal_edges(ctx: &ReducerContext) -> bool {
+    ensure_map(ctx).lethal_edges
+}
+
+fn level_height(ctx: &ReducerContext) -> f32 {
+    ctx.db.map_definition().id().find(MAP_DEFINITION_ID).map_or(LEVEL_HEIGHT, |definition| definition.level_height)
+}
+
+pub fn ground_height(ctx: &ReducerContext, x: f32, z: f32) -> Option<f32> {
+    tile_at_world(ctx, x, z).map(|tile| tile.elevation as f32 * level_height(ctx))
+}
+
+// Surface height of the lowest tile (0.0 without tiles); falls are measured from here
+pub fn lowest_ground(ctx: &ReducerContext) -> f32 {
+    let lowest = ctx.db.map_tile().iter().map(|tile| tile.elevation).min().unwrap_or(0);
+    lowest as f32 * level_height(ctx)
+}
+
+// Step-height rule between two tile surfaces: walk up small steps, jump up cliffs
+// no higher than MAX_JUMP_HEIGHT, drop down any height
+pub fn can_step(from_ground: f32, to_ground: f32, jump: bool) -> bool {
+    let rise = to_ground - from_ground;
+    rise <= MAX_STEP_HEIGHT || (jump && rise <= MAX_JUMP_HEIGHT)
+}
+
+// Put a position at standing height on the tile under it; positions off the tiles keep their height
+pub fn follow_terrain(ctx: &ReducerContext, mut position: Vector3) -> Vector3 {
+    if let Some(ground) = ground_height(ctx, position.x, position.z) {
+        position.y = ground + SPAWN_HEIGHT;
+    }
+    position
+}
+
+// Limit a move from `from` to `to` to the hexes it may enter, then follow the terrain.
+// Off the tiles nobody moves with lethal edges (the player is falling) and everybody
+// may walk back without them. On the tiles, a tile is entered if can_step allows it,
+// walls never are, and leaving the tiles steps off with lethal edges and is refused
+// otherwise. A refused move slides along the edge, cliff or wall on one axis, x first, or stops.
+pub fn constrain_movement(ctx: &ReducerContext, from: &Vector3, to: Vector3, jump: bool) -> Vector3 {
+    constrain(ctx, from, to, jump, lethal_edges(ctx))
+}
+
+// Minions climb like a jumping player (their lanes are searched that way) but never step off the tiles
+pub fn constrain_minion_movement(ctx: &ReducerContext, from: &Vector3, to: Vector3) -> Vector3 {
+    constrain(ctx, from, to, true, false)
+}
+
+// `lethal`: moves off the tiles are allowed (and moves that start off them are stopped)
+fn constrain(ctx: &ReducerContext, from: &Vector3, to: Vector3, jump: bool, lethal: bool) -> Vector3 {
+    let constrained = match ground_height(ctx, from.x, from.z) {
+        None if lethal => from.clone(),
+        None => to,
+        Some(from_ground) => {
+            let level_height = level_height(ctx);
+            let can_enter = |x: f32, z: f32| match tile_at_world(ctx, x, z) {
+                Some(tile) if tile.tile_type == TILE_WALL => false,
+                Some(tile) => can_step(from_ground, tile.elevation as f32 * level_height, jump),
+                None => lethal,
+            };
+            if can_enter(to.x, to.z) {
+                to
+            } else if can_enter(to.x, from.z) {
+                Vector3 { x: to.x, y: to.y, z: from.z }
+            } else if can_enter(from.x, to.z) {
+                Vector3 { x: from.x, y: to.y, z: to.z }
+            } else {
+                from.clone()
+            }
+        }
+    };
+    follow_terrain(ctx, constrained)
+}
+
+pub fn set_lethal_edges(ctx: &ReducerContext, enabled: bool) -> Result<(), String> {
+    admin_logic::require_admin(ctx, "change lethal edges")?;
+    if !match_logic::is_between_rounds(ctx) {
+        return Err("Lethal edges can only change between rounds".to_string());
+    }
+    let mut definition = ensure_map(ctx);
+    spacetimedb::log::info!("[MAP] {} set lethal edges to {}", ctx.sender, enabled);
+    definition.lethal_edges = enabled;
+    ctx.db.map_definition().id().update(definition);
+    Ok(())
+}
+
+// Replace the active map with one made in the client's map editor (upload_map reducer).
+// Only between rounds, and only valid maps (see validate_map). Living players go back
+// to their bases, flags home and minions are cleared, so nothing is left in a wall.
+pub fn upload_map(ctx: &ReducerContext, level_height: f32, tiles: Vec<MapTileInput>) -> Result<(), String> {
+    admin_logic::require_admin(ctx, "upload a map")?;
+    if !match_logic::is_between_rounds(ctx) {
+        return Err("The map can only change between rounds".to_string());
+    }
+    validate_map(level_height, &tiles)?;
+
+    let mut definition = ensure_map(ctx);
+    definition.grid_radius = tiles.iter().map(|tile| hex_distance(tile.q, tile.r, 0, 0)).max().unwrap_or(0);
+    definition.level_height = level_height;
+    definition.base_centers = edited_base_centers(&tiles);
+    let old_ids: Vec<u64> = ctx.db.map_tile().iter().map(|tile| tile.id).collect();
+    for id in old_ids {
+        ctx.db.map_tile().id().delete(id);
+    }
+    let count = tiles.len();
+    for tile in tiles {
+        ctx.db.map_tile().insert(MapTile {
+            id: 0,
+            q: tile.q,
+            r: tile.r,
+            tile_type: tile.tile_type,
+            elevation: tile.elevation,
+            base_index: tile.base_index,
+            prop: tile.prop,
+        });
+    }
+    ctx.db.map_definition().id().update(definition);
+    spacetimedb::log::info!("[MAP] {} uploaded a map with {} tiles", ctx.sender, count);
+
+    let players: Vec<PlayerData> = ctx.db.player().iter().filter(|player| !player.is_dead).collect();
+    for mut player in players {
+        player.position = choose_spawn_point(ctx, player.identity, &player.team);
+        player.fall_speed = 0.0;
+        ctx.db.player().identity().update(player);
+    }
+    flag_logic::reset_for_round(ctx);
+    npc_logic::reset_for_round(ctx);
+    Ok(())
+}
+
+// Rules for uploaded maps; client/src/game/mapFormat.ts checks the same before uploading
+fn validate_map(level_height: f32, tiles: &[MapTileInput]) -> Result<(), String> {
+    if !(MIN_LEVEL_HEIGHT..=MAX_LEVEL_HEIGHT).contains(&level_height) {
+        return Err(format!("The level height must be between {} and {}", MIN_LEVEL_HEIGHT, MAX_LEVEL_HEIGHT));
+    }
+
+    let mut walkable = WalkableTiles::new();
+    let mut seen: HashSet<(i32, i32)> = HashSet::new();
+    for tile in tiles {
+        let name = format!("Tile ({}, {})", tile.q, tile.r);
+        if hex_distance(tile.q, tile.r, 0, 0) > MAP_GRID_RADIUS {
+            return Err(format!("{} is more than {} hexes from the map center", name, MAP_GRID_RADIUS));
+        }
+        if !TILE_TYPES.contains(&tile.tile_type.as_str()) {
+            return Err(format!("{} has the unknown type \"{}\"", name, tile.tile_type));
+        }
+        if !(MIN_ELEVATION..=MAX_ELEVATION).contains(&tile.elevation) {
+            return Err(format!("{} must have an elevation between {} and {}", name, MIN_ELEVATION, MAX_ELEVATION));
+        }
+        let belongs_to_base = tile.tile_type == TILE_BASE || tile.tile_type == TILE_SPAWN;
+        match tile.base_index {
+            None if belongs_to_base => return Err(format!("{} is a {} tile without a base", name, tile.tile_type)),
+            Some(_) if !belongs_to_base => return Err(format!("{} is a {} tile and cannot belong to a base", name, tile.tile_type)),
+            Some(index) if index as usize >= team_logic::TEAMS.len() => return Err(format!("{} belongs to base {}, which does not exist", name, index)),
+            _ => {}
+        }
+        if let Some(prop) = &tile.prop {
+            if !PROPS.contains(&prop.as_str()) {
+                return Err(format!("{} has the unknown prop \"{}\"", name, prop));
+            }
+        }
+        if !seen.insert((tile.q, tile.r)) {
+            return Err(format!("{} is listed twice", name));
+        }
+        if tile.tile_type != TILE_WALL {
+            walkable.insert((tile.q, tile.r), tile.elevation);
+        }
+    }
+
+    let base_starts: Vec<Vec<(i32, i32)>> = (0..team_logic::TEAMS.len())
+        .map(|base_index| {
+            tiles.iter()
+                .filter(|tile| tile.base_index == Some(base_index as u32))
+                .map(|tile| (tile.q, tile.r))
+                .collect()
+        })
+        .collect();
+    if let Some(empty) = base_starts.iter().position(|hexes| hexes.is_empty()) {
+        return Err(format!("The {} base has no tiles", team_logic::TEAMS[empty].id));
+    }
+    // Every base must reach every other base on foot; drops are one way, so each base is checked
+    for (from, start) in base_starts.iter().enumerate() {
+        let reached = reachable_hexes(&walkable, start, level_height);
+        for (to, target) in base_starts.iter().enumerate() {
+            if to != from && !target.iter().any(|hex| reached.contains(hex)) {
+                return Err(format!("The {} base cannot reach the {} base", team_logic::TEAMS[from].id, team_logic::TEAMS[to].id));
+            }
+        }
+    }
+    Ok(())
+}
+
+// Center of each base of an uploaded map: the base's tile closest to the middle of its tiles
+fn edited_base_centers(tiles: &[MapTileInput]) -> Vec<HexCoord> {
+    (0..team_logic::TEAMS.len())
+        .map(|base_index| {
+            let points: Vec<((i32, i32), (f32, f32))> = tiles.iter()
+                .filter(|tile| tile.base_index == Some(base_index as u32))
+                .map(|tile| ((tile.q, tile.r), hex_to_world(tile.q, tile.r)))
+                .collect();
+            let count = points.len().max(1) as f32;
+            let middle_x = points.iter().map(|(_, (x, _))| x).sum::<f32>() / count;
+            let middle_z = points.iter().map(|(_, (_, z))| z).sum::<f32>() / count;
+            let distance = |(x, z): (f32, f32)| (x - middle_x).powi(2) + (z - middle_z).powi(2);
+            let (q, r) = points.iter()
+                .min_by(|a, b| distance(a.1).total_cmp(&distance(b.1)))
+                .map(|&(hex, _)| hex)
+                .unwrap_or((0, 0));
+            HexCoord { q, r }
+        })
+        .collect()
+}
@@ -0,0 +1,319 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - match_logic.rs
+ *
+ * This file contains the match lifecycle. A single match_state row holds the
+ * current phase; game_tick advances it:
+ *
+ *   waiting -> countdown -> in_progress -> ended -> countdown -> ...
+ *
+ * Key components:
+ *
+ * 1. Phases:
+ *    - waiting: Free play until MIN_PLAYERS_TO_START players are online
+ *    - countdown: Every player is reset and respawned at their base, then
+ *      waits COUNTDOWN_SECS with movement and abilities frozen
+ *    - in_progress: The round runs for match_state.round_duration_secs, or until
+ *      a team reaches the objective mode's points_to_win (battle royale: until one team is left)
+ *    - ended: Awards are posted and abilities stay disabled for RESULTS_SECS,
+ *      then the next countdown starts (or waiting, if too few players are left)
+ *
+ * 2. Game Modes:
+ *    - DEATHMATCH: Teams compete on the summed scoreboard score
+ *    - KING_OF_THE_HILL: Teams earn team_score points by holding the arena (hill_logic.rs)
+ *    - CAPTURE_THE_FLAG: Teams earn a team_score point per flag capture (flag_logic.rs)
+ *    - BATTLE_ROYALE: No respawns; a shrinking zone (zone_logic.rs) closes in and
+ *      the round ends when at most one team has living players
+ *    - Objective modes keep one team_score row per team, reset every round;
+ *      add_team_points is their entry point
+ *
+ * 3. Results:
+ *    - One match_award row per award (MVP, most kills, most damage, most
+ *      healing), plus the winning team in match_state: most team points in an
+ *      objective mode, most surviving players in battle royale, highest summed
+ *      score in deathmatch
+ *
+ * 4. Configuration:
+ *    - set_round_duration (lib.rs reducer) changes the timer of the next round,
+ *      within MIN_ROUND_DURATION_SECS..=MAX_ROUND_DURATION_SECS; admins only
+ *    - set_game_mode (lib.rs reducer) picks the mode; only between rounds, admins only
+ *
+ * Related files:
+ *    - lib.rs: match_state and match_award tables, game_tick, update_player_input
+ *    - player_logic.rs: reset_for_round
+ *    - stats_logic.rs: The stats the awards are based on
+ *    - status_logic.rs: Freezes movement through movement_modifiers during the countdown
+ *    - hill_logic.rs: King of the hill capture and scoring
+ *    - flag_logic.rs: Capture the flag pickups, drops and captures
+ *    - zone_logic.rs: Battle royale zone
+ *    - npc_logic.rs: Creep waves, which march in free play and running rounds
+ */
+
+use spacetimedb::{ReducerContext, Table, Timestamp};
+use crate::common::seconds_between;
+use crate::{MatchState, MatchAward, TeamScore, PlayerData, player, match_state, match_award, team_score, status_effect, ability_cooldown, projectile};
+use crate::{admin_logic, player_logic, stats_logic, team_logic, hill_logic, flag_logic, zone_logic, npc_logic};
+
+pub const MATCH_STATE_ID: u32 = 0;
+pub const WAITING: &str = "waiting";
+pub const COUNTDOWN: &str = "countdown";
+pub const IN_PROGRESS: &str = "in_progress";
+pub const ENDED: &str = "ended";
+
+pub const DEATHMATCH: &str = "deathmatch";
+pub const KING_OF_THE_HILL: &str = "king_of_the_hill";
+pub const CAPTURE_THE_FLAG: &str = "capture_the_flag";
+pub const BATTLE_ROYALE: &str = "battle_royale";
+pub const GAME_MODES: [&str; 4] = [DEATHMATCH, KING_OF_THE_HILL, CAPTURE_THE_FLAG, BATTLE_ROYALE];
+
+pub const MIN_PLAYERS_TO_START: usize = 2;
+pub const COUNTDOWN_SECS: f32 = 10.0;
+pub const RESULTS_SECS: f32 = 15.0;
+pub const DEFAULT_ROUND_DURATION_SECS: u32 = 300;
+pub const MIN_ROUND_DURATION_SECS: u32 = 60;
+pub const MAX_ROUND_DURATION_SECS: u32 = 1800;
+
+// Create the singleton row if it does not exist yet (called from init and game_tick)
+pub fn ensure_match_state(ctx: &ReducerContext) -> MatchState {
+    if let Some(state) = ctx.db.match_state().id().find(MATCH_STATE_ID) {
+        return state;
+    }
+    ctx.db.match_state().insert(MatchState {
+        id: MATCH_STATE_ID,
+        phase: WAITING.to_string(),
+        round: 0,
+        round_duration_secs: DEFAULT_ROUND_DURATION_SECS,
+        mode: DEATHMATCH.to_string(),
+        phase_started_at: ctx.timestamp,
+        phase_ends_at: None,
+        winning_team: String::new(),
+    })
+}
+
+// Whether the round is running in the given mode; objective logic only ticks then
+pub fn is_round_running(ctx: &ReducerContext, mode: &str) -> bool {
+    ctx.db.match_state().id().find(MATCH_STATE_ID).is_some_and(|state| state.phase == IN_PROGRESS && state.mode == mode)
+}
+
+// Team points that end the round early in objective modes; None for deathmatch
+pub fn points_to_win(mode: &str) -> Option<u32> {
+    match mode {
+        KING_OF_THE_HILL => Some(hill_logic::HILL_POINTS_TO_WIN),
+        CAPTURE_THE_FLAG => Some(flag_logic::CAPTURES_TO_WIN),
+        _ => None,
+    }
+}
+
+pub fn add_team_points(ctx: &ReducerContext, team: &str, points: u32) {
+    match ctx.db.team_score().team().find(team.to_string()) {
+        Some(mut score) => {
+            score.points += points;
+            ctx.db.team_score().team().update(score);
+        }
+        None => {
+            ctx.db.team_score().insert(TeamScore { team: team.to_string(), points });
+        }
+    }
+}
+
+// Settings that shape a round (mode, zone schedule) only change while no round is counting down or running
+pub fn is_between_rounds(ctx: &ReducerContext) -> bool {
+    ctx.db.match_state().id().find(MATCH_STATE_ID).map_or(true, |state| state.phase != COUNTDOWN && state.phase != IN_PROGRESS)
+}
+
+// Battle royale players stay dead until the round is over
+pub fn respawns_allowed(ctx: &ReducerContext) -> bool {
+    !is_round_running(ctx, BATTLE_ROYALE)
+}
+
+// Creep waves march in free play and running rounds, except in battle royale; they wait out the countdown and results
+pub fn creep_waves_active(ctx: &ReducerContext) -> bool {
+    ctx.db.match_state().id().find(MATCH_STATE_ID)
+        .map_or(true, |state| (state.phase == WAITING || state.phase == IN_PROGRESS) && state.mode != BATTLE_ROYALE)
+}
+
+// Movement is frozen while the countdown runs
+pub fn is_input_frozen(ctx: &ReducerContext) -> bool {
+    ctx.db.match_state().id().find(MATCH_STATE_ID).is_some_and(|state| state.phase == COUNTDOWN)
+}
+
+// Abilities are disabled during the countdown and on the results screen
+pub fn abilities_allowed(ctx: &ReducerContext) -> bool {
+    ctx.db.match_state().id().find(MATCH_STATE_ID).map_or(true, |state| state.phase != COUNTDOWN && state.phase != ENDED)
+}
+
+pub fn set_round_duration(ctx: &ReducerContext, seconds: u32) -> Result<(), String> {
+    admin_logic::require_admin(ctx, "change the round duration")?;
+    if !(MIN_ROUND_DURATION_SECS..=MAX_ROUND_DURATION_SECS).contains(&seconds) {
+        return Err(format!("Round duration must be between {} and {} seconds", MIN_ROUND_DURATION_SECS, MAX_ROUND_DURATION_SECS));
+    }
+    let mut state = ensure_match_state(ctx);
+    state.round_duration_secs = seconds;
+    ctx.db.match_state().id().update(state);
+    spacetimedb::log::info!("[MATCH] {} set the round duration to {}s (from the next round)", ctx.sender, seconds);
+    Ok(())
+}
+
+pub fn set_game_mode(ctx: &ReducerContext, mode: String) -> Result<(), String> {
+    admin_logic::require_admin(ctx, "change the game mode")?;
+    if !GAME_MODES.contains(&mode.as_str()) {
+        return Err(format!("Unknown game mode: {}", mode));
+    }
+    if !is_between_rounds(ctx) {
+        return Err("The game mode can only change between rounds".to_string());
+    }
+    let mut state = ensure_match_state(ctx);
+    spacetimedb::log::info!("[MATCH] {} set the game mode to {}", ctx.sender, mode);
+    state.mode = mode;
+    ctx.db.match_state().id().update(state);
+    Ok(())
+}
+
+// Advance the phase when its timer runs out or the player count changes (called from game_tick)
+pub fn update_match_logic(ctx: &ReducerContext) {
+    let state = ensure_match_state(ctx);
+    let player_count = ctx.db.player().count() as usize;
+    let timer_done = state.phase_ends_at.is_some_and(|ends_at| seconds_between(ctx.timestamp, ends_at) <= 0.0);
+
+    let phase = state.phase.clone();
+    match phase.as_str() {
+        WAITING if player_count >= MIN_PLAYERS_TO_START => start_countdown(ctx, state),
+        COUNTDOWN if player_count < MIN_PLAYERS_TO_START => enter_phase(ctx, state, WAITING, None),
+        COUNTDOWN if timer_done => {
+            let duration = state.round_duration_secs as f32;
+            spacetimedb::log::info!("[MATCH] Round {} started ({}s)", state.round, duration);
+            if state.mode == BATTLE_ROYALE {
+                zone_logic::start_zone(ctx);
+            }
+            enter_phase(ctx, state, IN_PROGRESS, Some(duration));
+        }
+        IN_PROGRESS if player_count == 0 => enter_phase(ctx, state, WAITING, None),
+        IN_PROGRESS if timer_done || objective_reached(ctx, &state.mode) => end_round(ctx, state),
+        ENDED if timer_done => {
+            if player_count >= MIN_PLAYERS_TO_START {
+                start_countdown(ctx, state);
+            } else {
+                enter_phase(ctx, state, WAITING, None);
+            }
+        }
+        _ => {}
+    }
+}
+
+fn enter_phase(ctx: &ReducerContext, mut state: MatchState, phase: &str, duration_secs: Option<f32>) {
+    state.phase = phase.to_string();
+    state.phase_started_at = ctx.timestamp;
+    state.phase_ends_at = duration_secs.map(|secs| {
+        Timestamp::from_micros_since_unix_epoch(ctx.timestamp.to_micros_since_unix_epoch() + (secs * 1_000_000.0) as i64)
+    });
+    ctx.db.match_state().id().update(state);
+}
+
+// Reset the arena and every player, then count down to the next round
+fn start_countdown(ctx: &ReducerContext, mut state: MatchState) {
+    state.round += 1;
+    state.winning_team = String::new();
+    spacetimedb::log::info!("[MATCH] Round {} starts in {}s", state.round, COUNTDOWN_SECS);
+
+    let award_ids: Vec<u64> = ctx.db.match_award().iter().map(|award| award.id).collect();
+    for id in award_ids {
+        ctx.db.match_award().id().delete(id);
+    }
+    let effect_ids: Vec<u64> = ctx.db.status_effect().iter().map(|effect| effect.id).collect();
+    for id in effect_ids {
+        ctx.db.status_effect().id().delete(id);
+    }
+    let cooldown_ids: Vec<u64> = ctx.db.ability_cooldown().iter().map(|cooldown| cooldown.id).collect();
+    for id in cooldown_ids {
+        ctx.db.ability_cooldown().id().delete(id);
+    }
+    let projectile_ids: Vec<u64> = ctx.db.projectile().iter().map(|projectile| projectile.id).collect();
+    for id in projectile_ids {
+        ctx.db.projectile().id().delete(id);
+    }
+    stats_logic::reset_for_round(ctx);
+    for team in team_logic::TEAMS.iter() {
+        ctx.db.team_score().team().delete(team.id.to_string());
+    }
+    hill_logic::reset_for_round(ctx);
+    flag_logic::reset_for_round(ctx);
+    zone_logic::reset_for_round(ctx, state.round);
+    npc_logic::reset_for_round(ctx);
+
+    let players: Vec<PlayerData> = ctx.db.player().iter().collect();
+    for mut player in players {
+        player_logic::reset_for_round(&mut player, ctx);
+        ctx.db.player().identity().update(player);
+    }
+
+    enter_phase(ctx, state, COUNTDOWN, Some(COUNTDOWN_SECS));
+}
+
+// Post the awards and the winning team, then show the results
+fn end_round(ctx: &ReducerContext, mut state: MatchState) {
+    let players: Vec<PlayerData> = ctx.db.player().iter().collect();
+
+    let mut team_scores = [0u32; team_logic::TEAMS.len()];
+    if state.mode == BATTLE_ROYALE {
+        team_scores = zone_logic::surviving_players(ctx);
+    } else if points_to_win(&state.mode).is_some() {
+        for score in ctx.db.team_score().iter() {
+            if let Some(index) = team_logic::team_base_index(&score.team) {
+                team_scores[index] = score.points;
+            }
+        }
+    } else {
+        for player in &players {
+            if let Some(index) = team_logic::team_base_index(&player.team) {
+                team_scores[index] += player.stats.score;
+            }
+        }
+    }
+    let best_score = team_scores.iter().copied().max().unwrap_or(0);
+    let leaders: Vec<usize> = (0..team_scores.len()).filter(|&index| team_scores[index] == best_score).collect();
+    // Nobody scored, or several teams share the top: a draw
+    state.winning_team = if best_score > 0 && leaders.len() == 1 {
+        team_logic::TEAMS[leaders[0]].id.to_string()
+    } else {
+        String::new()
+    };
+
+    post_award(ctx, state.round, "mvp", &players, |player| player.stats.score);
+    post_award(ctx, state.round, "most_kills", &players, |player| player.stats.kills);
+    post_award(ctx, state.round, "most_damage", &players, |player| player.stats.damage_dealt);
+    post_award(ctx, state.round, "most_healing", &players, |player| player.stats.healing_done);
+    // Carried and dropped flags go home, so no carrier stays slowed into the next phase
+    flag_logic::reset_for_round(ctx);
+
+    spacetimedb::log::info!(
+        "[MATCH] Round {} ended, winner: {}",
+        state.round,
+        if state.winning_team.is_empty() { "draw" } else { state.winning_team.as_str() }
+    );
+    enter_phase(ctx, state, ENDED, Some(RESULTS_SECS));
+}
+
+fn objective_reached(ctx: &ReducerContext, mode: &str) -> bool {
+    if mode == BATTLE_ROYALE {
+        return zone_logic::surviving_players(ctx).iter().filter(|&&count| count > 0).count() <= 1;
+    }
+    let Some(target) = points_to_win(mode) else { return false };
+    ctx.db.team_score().iter().any(|score| score.points >= target)
+}
+
+// Award the player with the highest value; nobody gets it if everyone is at 0.
+// Ties go to the player with the higher score.
+fn post_award(ctx: &ReducerContext, round: u32, award: &str, players: &[PlayerData], value: impl Fn(&PlayerData) -> u32) {
+    let Some(winner) = players.iter().max_by_key(|player| (value(player), player.stats.score)) else { return };
+    if value(winner) == 0 {
+        return;
+    }
+    ctx.db.match_award().insert(MatchAward {
+        id: 0,
+        round,
+        award: award.to_string(),
+        player: winner.identity,
+        player_name: winner.username.clone(),
+        team: winner.team.clone(),
+        value: value(winner),
+    });
+}
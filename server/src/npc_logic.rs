@@ -0,0 +1,321 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - npc_logic.rs
+ *
+ * This file contains the creep waves: server-controlled minions that leave
+ * every base on a timer and march down the hex paths towards an enemy base,
+ * fighting whatever enemy crosses their way.
+ *
+ * Key components:
+ *
+ * 1. Waves:
+ *    - creep_wave (private table): Next wave time and wave counter per team
+ *    - Every WAVE_INTERVAL_SECS a base sends MINIONS_PER_WAVE minions, up to
+ *      MAX_NPCS_PER_TEAM living minions per team
+ *    - Waves alternate between the two enemy bases, so both lanes out of a base
+ *      see traffic
+ *    - Waves only march while match_logic::creep_waves_active (free play and
+ *      running rounds outside battle royale) and someone is online
+ *    - reset_for_round: Clears the minions; the first wave leaves when the round starts
+ *
+ * 2. Minion AI (update_npcs, run from player_logic::update_players_logic):
+ *    - Lane: map_logic::Lanes::lane_hexes from the own base to the target base over
+ *      walkable tiles; waypoint_index is the next hex to walk to. The lanes are
+ *      searched once per tick and shared by all minions
+ *    - Movement goes through map_logic::constrain_minion_movement, so minions do
+ *      not enter walls, cross gaps or climb more than a jump
+ *    - Aggro: The closest enemy player or minion within NPC_AGGRO_RANGE is
+ *      chased; in NPC_ATTACK_RANGE the minion stops and hits every
+ *      NPC_ATTACK_INTERVAL_SECS (last_attack_at, clients play one attack per value)
+ *    - Without a target the minion walks on; at the end of the lane it waits
+ *    - current_animation is "walk-forward", "idle" or "death"
+ *
+ * 3. Damage:
+ *    - damage_npc: Lowers health and starts the death; corpses are deleted
+ *      after NPC_CORPSE_SECS
+ *    - Player melee swings, projectiles and area abilities hit enemy minions
+ *      through living_enemy_npcs (no crits, blocks or status effects)
+ *    - Minion hits on players go through combat_logic::apply_damage as MINION_HIT;
+ *      like the zone, there is no player to credit, so the victim is the attacker
+ *
+ * Related files:
+ *    - lib.rs: npc and creep_wave tables
+ *    - map_logic.rs: Lane waypoints and base centers
+ *    - player_logic.rs: Calls update_npcs every game tick
+ *    - combat_logic.rs / projectile_logic.rs / ability_logic.rs: Player hits on minions
+ *    - match_logic.rs: When waves march, round reset
+ *    - client/src/components/Npc.tsx: Renders the minions
+ */
+
+use spacetimedb::{ReducerContext, Table, Timestamp};
+use crate::common::{Vector3, seconds_between};
+use crate::{Npc, CreepWave, PlayerData, npc, creep_wave, player};
+use crate::{combat_logic, map_logic, match_logic, team_logic};
+
+// Combat event kind of minion hits
+pub const MINION_HIT: &str = "minion_hit";
+pub const MELEE_MINION: &str = "melee";
+
+pub const WAVE_INTERVAL_SECS: f32 = 30.0;
+pub const MINIONS_PER_WAVE: u32 = 3;
+pub const MAX_NPCS_PER_TEAM: usize = 12;
+
+pub const NPC_MAX_HEALTH: i32 = 60;
+pub const NPC_SPEED: f32 = 4.0;
+pub const NPC_AGGRO_RANGE: f32 = 8.0;
+pub const NPC_ATTACK_RANGE: f32 = 2.0;
+pub const NPC_ATTACK_DAMAGE: i32 = 6;
+pub const NPC_ATTACK_INTERVAL_SECS: f32 = 1.2;
+pub const NPC_CORPSE_SECS: f32 = 3.0;
+// Distance at which a waypoint counts as reached
+const WAYPOINT_RADIUS: f32 = 0.5;
+// Sideways gap between the minions of one wave
+const WAVE_SPACING: f32 = 1.5;
+
+enum NpcTarget {
+    Player(PlayerData),
+    Npc(Npc),
+}
+
+impl NpcTarget {
+    fn position(&self) -> &Vector3 {
+        match self {
+            NpcTarget::Player(player) => &player.position,
+            NpcTarget::Npc(npc) => &npc.position,
+        }
+    }
+}
+
+fn ensure_wave(ctx: &ReducerContext, team: &str) -> CreepWave {
+    if let Some(wave) = ctx.db.creep_wave().team().find(team.to_string()) {
+        return wave;
+    }
+    ctx.db.creep_wave().insert(CreepWave {
+        team: team.to_string(),
+        wave_number: 0,
+        next_wave_at: ctx.timestamp,
+    })
+}
+
+fn offset(now: Timestamp, secs: f32) -> Timestamp {
+    Timestamp::from_micros_since_unix_epoch(now.to_micros_since_unix_epoch() + (secs * 1_000_000.0) as i64)
+}
+
+fn horizontal_distance(a: &Vector3, b: &Vector3) -> f32 {
+    let dx = b.x - a.x;
+    let dz = b.z - a.z;
+    (dx * dx + dz * dz).sqrt()
+}
+
+// Yaw that faces from `from` to `to`; forward for a yaw of 0 is -Z, as for players
+fn yaw_towards(from: &Vector3, to: &Vector3) -> f32 {
+    (-(to.x - from.x)).atan2(-(to.z - from.z))
+}
+
+// Clear every minion and send the first waves when the next round starts (called from match_logic)
+pub fn reset_for_round(ctx: &ReducerContext) {
+    let npc_ids: Vec<u64> = ctx.db.npc().iter().map(|npc| npc.id).collect();
+    for id in npc_ids {
+        ctx.db.npc().id().delete(id);
+    }
+    for team in team_logic::TEAMS.iter() {
+        let mut wave = ensure_wave(ctx, team.id);
+        wave.wave_number = 0;
+        wave.next_wave_at = ctx.timestamp;
+        ctx.db.creep_wave().team().update(wave);
+    }
+}
+
+// Living minions of other teams than `team` that pass `in_range`
+pub fn living_enemy_npcs(ctx: &ReducerContext, team: &str, in_range: impl Fn(&Npc) -> bool) -> Vec<Npc> {
+    ctx.db.npc().iter()
+        .filter(|npc| !npc.is_dead && npc.team != team)
+        .filter(|npc| in_range(npc))
+        .collect()
+}
+
+// Lower a minion's health and start its death at 0. Writes the row.
+pub fn damage_npc(ctx: &ReducerContext, mut npc: Npc, damage: i32, source: &str) {
+    if npc.is_dead {
+        return;
+    }
+    npc.health -= damage.min(npc.health);
+    if npc.health <= 0 {
+        npc.is_dead = true;
+        npc.died_at = Some(ctx.timestamp);
+        npc.current_animation = "death".to_string();
+        spacetimedb::log::debug!("[NPC] {} minion {} killed by {}", npc.team, npc.id, source);
+    }
+    ctx.db.npc().id().update(npc);
+}
+
+// Spawn due waves, remove old corpses and run every minion (called from player_logic::update_players_logic)
+pub fn update_npcs(ctx: &ReducerContext, delta_time: f32) {
+    if !match_logic::creep_waves_active(ctx) {
+        return;
+    }
+    let now = ctx.timestamp;
+
+    let corpses: Vec<u64> = ctx.db.npc().iter()
+        .filter(|npc| npc.died_at.is_some_and(|died_at| seconds_between(died_at, now) >= NPC_CORPSE_SECS))
+        .map(|npc| npc.id)
+        .collect();
+    for id in corpses {
+        ctx.db.npc().id().delete(id);
+    }
+
+    let mut lanes = map_logic::Lanes::load(ctx);
+    if ctx.db.player().count() > 0 {
+        for base_index in 0..team_logic::TEAMS.len() {
+            spawn_wave_if_due(ctx, &mut lanes, base_index);
+        }
+    }
+
+    let living: Vec<u64> = ctx.db.npc().iter().filter(|npc| !npc.is_dead).map(|npc| npc.id).collect();
+    for id in living {
+        // Re-read the row: an earlier minion's hit this tick may have killed it
+        let Some(npc) = ctx.db.npc().id().find(id) else { continue };
+        if npc.is_dead {
+            continue;
+        }
+        update_npc(ctx, &mut lanes, npc, delta_time);
+    }
+}
+
+fn spawn_wave_if_due(ctx: &ReducerContext, lanes: &mut map_logic::Lanes, base_index: usize) {
+    let team = team_logic::TEAMS[base_index].id;
+    let mut wave = ensure_wave(ctx, team);
+    if seconds_between(ctx.timestamp, wave.next_wave_at) > 0.0 {
+        return;
+    }
+
+    // Even waves head to the next base, odd waves to the one after it
+    let others = team_logic::TEAMS.len();
+    let target_index = (base_index + 1 + (wave.wave_number as usize % (others - 1))) % others;
+    let lane = lanes.lane_hexes(base_index, target_index);
+    if lane.len() < 2 {
+        // validate_map keeps every base reachable, so only a broken map gets here
+        spacetimedb::log::warn!("[NPC] No lane from {} to {}; skipping the wave", team, team_logic::TEAMS[target_index].id);
+        wave.wave_number += 1;
+        wave.next_wave_at = offset(ctx.timestamp, WAVE_INTERVAL_SECS);
+        ctx.db.creep_wave().team().update(wave);
+        return;
+    }
+    let (start_x, start_z) = map_logic::hex_to_world(lane[0].0, lane[0].1);
+    let (next_x, next_z) = map_logic::hex_to_world(lane[1].0, lane[1].1);
+    // Line the wave up across the lane
+    let length = ((next_x - start_x).powi(2) + (next_z - start_z).powi(2)).sqrt();
+    let (side_x, side_z) = ((next_z - start_z) / length, -(next_x - start_x) / length);
+
+    let alive = ctx.db.npc().iter().filter(|npc| !npc.is_dead && npc.team == team).count();
+    let count = (MINIONS_PER_WAVE as usize).min(MAX_NPCS_PER_TEAM.saturating_sub(alive));
+    for index in 0..count {
+        let spread = (index as f32 - (MINIONS_PER_WAVE as f32 - 1.0) / 2.0) * WAVE_SPACING;
+        let position = map_logic::follow_terrain(ctx, Vector3 { x: start_x + side_x * spread, y: map_logic::SPAWN_HEIGHT, z: start_z + side_z * spread });
+        let rotation = Vector3 { x: 0.0, y: yaw_towards(&position, &Vector3 { x: next_x, y: 0.0, z: next_z }), z: 0.0 };
+        ctx.db.npc().insert(Npc {
+            id: 0,
+            team: team.to_string(),
+            kind: MELEE_MINION.to_string(),
+            position,
+            rotation,
+            health: NPC_MAX_HEALTH,
+            max_health: NPC_MAX_HEALTH,
+            current_animation: "walk-forward".to_string(),
+            target_team: team_logic::TEAMS[target_index].id.to_string(),
+            waypoint_index: 1,
+            last_attack_at: None,
+            is_dead: false,
+            died_at: None,
+        });
+    }
+    spacetimedb::log::debug!("[NPC] {} wave {} sends {} minions to {}", team, wave.wave_number + 1, count, team_logic::TEAMS[target_index].id);
+
+    wave.wave_number += 1;
+    wave.next_wave_at = offset(ctx.timestamp, WAVE_INTERVAL_SECS);
+    ctx.db.creep_wave().team().update(wave);
+}
+
+// Closest living enemy player or minion within NPC_AGGRO_RANGE
+fn find_target(ctx: &ReducerContext, npc: &Npc) -> Option<NpcTarget> {
+    let mut closest: Option<(f32, NpcTarget)> = None;
+    let mut consider = |distance: f32, target: NpcTarget| {
+        if distance <= NPC_AGGRO_RANGE && closest.as_ref().map_or(true, |(best, _)| distance < *best) {
+            closest = Some((distance, target));
+        }
+    };
+
+    for target in ctx.db.player().iter().filter(|target| !target.is_dead && team_logic::is_enemy(&npc.team, target)) {
+        consider(horizontal_distance(&npc.position, &target.position), NpcTarget::Player(target));
+    }
+    for target in living_enemy_npcs(ctx, &npc.team, |other| other.id != npc.id) {
+        consider(horizontal_distance(&npc.position, &target.position), NpcTarget::Npc(target));
+    }
+    closest.map(|(_, target)| target)
+}
+
+fn update_npc(ctx: &ReducerContext, lanes: &mut map_logic::Lanes, mut npc: Npc, delta_time: f32) {
+    let now = ctx.timestamp;
+    let target = find_target(ctx, &npc);
+
+    let destination = match &target {
+        Some(target) => Some(target.position().clone()),
+        None => {
+            let lane = match (team_logic::team_base_index(&npc.team), team_logic::team_base_index(&npc.target_team)) {
+                (Some(from), Some(to)) => lanes.lane_hexes(from, to),
+                _ => &[],
+            };
+            let mut waypoint = None;
+            while let Some(&(q, r)) = lane.get(npc.waypoint_index as usize) {
+                let (x, z) = map_logic::hex_to_world(q, r);
+                let point = Vector3 { x, y: npc.position.y, z };
+                if horizontal_distance(&npc.position, &point) > WAYPOINT_RADIUS {
+                    waypoint = Some(point);
+                    break;
+                }
+                npc.waypoint_index += 1;
+            }
+            waypoint
+        }
+    };
+
+    let Some(destination) = destination else {
+        // End of the lane: wait at the enemy base
+        npc.current_animation = "idle".to_string();
+        ctx.db.npc().id().update(npc);
+        return;
+    };
+    npc.rotation.y = yaw_towards(&npc.position, &destination);
+    let distance = horizontal_distance(&npc.position, &destination);
+
+    if let Some(target) = target.filter(|_| distance <= NPC_ATTACK_RANGE) {
+        npc.current_animation = "idle".to_string();
+        let ready = npc.last_attack_at.map_or(true, |last| seconds_between(last, now) >= NPC_ATTACK_INTERVAL_SECS);
+        if ready {
+            npc.last_attack_at = Some(now);
+            let source = npc.position.clone();
+            let attacker = format!("{} minion {}", npc.team, npc.id);
+            // Write the attacker first: hitting another minion may be the last write this tick
+            ctx.db.npc().id().update(npc);
+            match target {
+                NpcTarget::Player(victim) => {
+                    let identity = victim.identity;
+                    combat_logic::apply_damage(ctx, identity, &source, victim, NPC_ATTACK_DAMAGE, MINION_HIT);
+                }
+                NpcTarget::Npc(victim) => damage_npc(ctx, victim, NPC_ATTACK_DAMAGE, &attacker),
+            }
+            return;
+        }
+    } else {
+        let step = (NPC_SPEED * delta_time).min(distance);
+        if distance > 0.0 {
+            let to = Vector3 {
+                x: npc.position.x + (destination.x - npc.position.x) / distance * step,
+                y: npc.position.y,
+                z: npc.position.z + (destination.z - npc.position.z) / distance * step,
+            };
+            npc.position = map_logic::constrain_minion_movement(ctx, &npc.position, to);
+        }
+        npc.current_animation = "walk-forward".to_string();
+    }
+    ctx.db.npc().id().update(npc);
+}
@@ -10,109 +10,105 @@
  *    - calculate_new_position: Computes player movement based on input and rotation
  *    - Vector math for converting input to movement direction
  *    - Direction normalization and speed application
+ *    - Keeps players on the map tiles and on their height (map_logic::constrain_movement):
+ *      rises above MAX_STEP_HEIGHT need the jump input, up to MAX_JUMP_HEIGHT
  * 
  * 2. State Management:
  *    - update_input_state: Updates player state based on client input
- *    - Handles position, animation, and derived state (is_moving, is_running)
+ *      (dead players only acknowledge the command, nothing else changes)
+ *    - Applies the real time each input command covers, limited to the server time
+ *      elapsed since the player's previous command (carry-over capped at MAX_INPUT_DELTA)
+ *    - Drops commands whose tick is not newer than the last applied one
+ *    - Handles position, animation, and derived state (is_moving, is_running, is_blocking)
+ *    - Scales movement by move_speed_multiplier (slows, roots and stuns from status_logic.rs)
  *    - Translates raw input to game state
  * 
  * 3. Game Tick:
- *    - update_players_logic: Placeholder for periodic player updates
- *    - Currently empty as players are updated directly through input
+ *    - update_players_logic: Periodic player updates
+ *    - Regenerates health and mana every REGEN_INTERVAL_SECS (living players only)
+ *    - Respawns dead players at a base once respawn_at has passed (not during
+ *      a battle royale round, see match_logic::respawns_allowed)
+ *    - Players off the tiles fall when the map edges are lethal; FALL_DEPTH below
+ *      the lowest tile they take FALL_DAMAGE and return to their base if they survive
+ *    - Hazard tiles deal HAZARD_DAMAGE every REGEN_INTERVAL_SECS instead of regenerating
+ *    - Runs the creep wave minions (npc_logic::update_npcs)
+ * 
+ * 4. Death:
+ *    - kill_player: Death transition when health reaches 0 (called from combat_logic)
+ *    - reset_for_round: Respawn and clear per-round state (called from match_logic)
  *    - Can be extended for server-side simulation (AI, physics, etc.)
  * 
  * Extension points:
- *    - Add terrain logic for realistic height adjustments
  *    - Implement server-side animation determination (commented example provided)
- *    - Add collision detection in calculate_new_position
  *    - Expand update_players_logic for server-side gameplay mechanics
  * 
  * Related files:
  *    - common.rs: Provides shared data types and constants
  *    - lib.rs: Calls into this module's functions from reducers
+ *    - map_logic.rs: Spawn points inside the base regions, walkable tiles
  */
 
-use spacetimedb::ReducerContext;
+use spacetimedb::{ReducerContext, Timestamp};
 // Import common structs and constants
-use crate::common::{Vector3, InputState, PLAYER_SPEED, SPRINT_MULTIPLIER};
+use crate::common::{
+    Vector3, InputState, PlayerStats, PLAYER_SPEED, SPRINT_MULTIPLIER, BLOCK_SPEED_MULTIPLIER, MAX_INPUT_DELTA,
+    REGEN_INTERVAL_SECS, HEALTH_REGEN_PER_INTERVAL, MANA_REGEN_PER_INTERVAL, RESPAWN_DELAY_SECS,
+    FALL_GRAVITY, FALL_DEPTH, FALL_DAMAGE, HAZARD_DAMAGE, seconds_between,
+};
+use crate::{combat_logic, flag_logic, map_logic, match_logic, npc_logic};
 // Import the PlayerData struct definition (assuming it's in lib.rs or common.rs)
-use crate::PlayerData;
+use crate::{PlayerData, player};
+
+// CombatEvent kind of the damage taken by falling off the map
+pub const FALL: &str = "fall";
+// CombatEvent kind of the damage taken on hazard tiles
+pub const HAZARD: &str = "hazard";
 
-// Corrected movement logic based on reversed feedback
-pub fn calculate_new_position(position: &Vector3, rotation: &Vector3, input: &InputState, delta_time: f32) -> Vector3 {
+// Movement logic mirrored by calculateMovement in client/src/game/movement.ts.
+// Both sides must agree exactly, or client prediction turns into visible corrections.
+// `speed_multiplier` is PlayerData.move_speed_multiplier (slows, roots and stuns, see status_logic.rs).
+pub fn calculate_new_position(ctx: &ReducerContext, position: &Vector3, rotation: &Vector3, input: &InputState, delta_time: f32, speed_multiplier: f32) -> Vector3 {
     let has_movement_input = input.forward || input.backward || input.left || input.right;
 
     if has_movement_input {
-        let speed = if input.sprint { PLAYER_SPEED * SPRINT_MULTIPLIER } else { PLAYER_SPEED };
-
-        // This approach more directly matches the new client implementation
-        // Create basis vectors for movement (forward/right vectors from camera)
-        // -Z is forward in Three.js coordinates 
-        let yaw = rotation.y;
-        
-        // Forward and right unit vectors (initially along axes)
-        let forward = Vector3 { x: 0.0, y: 0.0, z: -1.0 };
-        let right = Vector3 { x: 1.0, y: 0.0, z: 0.0 };
-        
-        // Rotate these vectors based on player rotation (around Y-axis)
-        // These are the rotation formulas for vectors around Y axis
-        let cos_yaw = yaw.cos();
-        let sin_yaw = yaw.sin();
-        
-        // Apply rotation to forward vector
-        let rotated_forward = Vector3 {
-            x: forward.x * cos_yaw + forward.z * sin_yaw,
-            y: 0.0,
-            z: -forward.x * sin_yaw + forward.z * cos_yaw,
-        };
-        
-        // Apply rotation to right vector
-        let rotated_right = Vector3 {
-            x: right.x * cos_yaw + right.z * sin_yaw,
-            y: 0.0,
-            z: -right.x * sin_yaw + right.z * cos_yaw,
+        let base_speed = if input.block {
+            PLAYER_SPEED * BLOCK_SPEED_MULTIPLIER
+        } else if input.sprint {
+            PLAYER_SPEED * SPRINT_MULTIPLIER
+        } else {
+            PLAYER_SPEED
         };
-        
-        // Accumulate movement along these basis vectors
-        let mut direction = Vector3 { x: 0.0, y: 0.0, z: 0.0 };
-        
-        if input.forward {
-            direction.x -= rotated_forward.x;
-            direction.z -= rotated_forward.z;
-        }
-        if input.backward {
-            direction.x += rotated_forward.x;
-            direction.z += rotated_forward.z;
-        }
-        if input.right {
-            direction.x -= rotated_right.x;
-            direction.z -= rotated_right.z;
-        }
-        if input.left {
-            direction.x += rotated_right.x;
-            direction.z += rotated_right.z;
-        }
-        
+        let speed = base_speed * speed_multiplier;
+
+        // Movement in player space: -Z is forward, +X is right (Three.js convention)
+        let mut local_x: f32 = 0.0;
+        let mut local_z: f32 = 0.0;
+        if input.forward { local_z -= 1.0; }
+        if input.backward { local_z += 1.0; }
+        if input.left { local_x -= 1.0; }
+        if input.right { local_x += 1.0; }
+
         // Normalize for consistent speed in all directions
-        let magnitude = (direction.x.powi(2) + direction.z.powi(2)).sqrt();
+        let magnitude = (local_x.powi(2) + local_z.powi(2)).sqrt();
         if magnitude > 0.01 {
-            direction.x /= magnitude;
-            direction.z /= magnitude;
+            local_x /= magnitude;
+            local_z /= magnitude;
         }
-        
+
+        // Rotate around the Y axis by the player's yaw (same as Vector3.applyAxisAngle in Three.js)
+        let yaw = rotation.y;
+        let cos_yaw = yaw.cos();
+        let sin_yaw = yaw.sin();
+        let world_x = local_x * cos_yaw + local_z * sin_yaw;
+        let world_z = -local_x * sin_yaw + local_z * cos_yaw;
+
         // Apply speed and delta time
-        direction.x *= speed * delta_time;
-        direction.z *= speed * delta_time;
-        
-        // Create new position
         let mut new_position = position.clone();
-        new_position.x += direction.x;
-        new_position.z += direction.z;
-        
-        // For terrain, you could implement height logic here if needed
-        // Example: new_position.y = calculate_terrain_height(new_position.x, new_position.z);
-        
-        return new_position;
+        new_position.x += world_x * speed * delta_time;
+        new_position.z += world_z * speed * delta_time;
+
+        // Edges, cliffs and the terrain height
+        map_logic::constrain_movement(ctx, position, new_position, input.jump)
     } else {
         // No movement input, return current position
         position.clone()
@@ -135,31 +131,205 @@ pub fn calculate_new_position(position: &Vector3, rotation: &Vector3, input: &In
 // }
 
 // Update player state based on input
-pub fn update_input_state(player: &mut PlayerData, input: InputState, client_rot: Vector3, client_animation: String) {
+// Returns false when the command is stale (its tick is not newer than the last applied one)
+pub fn update_input_state(ctx: &ReducerContext, player: &mut PlayerData, input: InputState, client_rot: Vector3, client_animation: String) -> bool {
+    if input.sequence <= player.last_input_seq {
+        return false;
+    }
+
+    // Commands may cover no more time than has passed on the server since the last one.
+    // Unused time carries over (up to MAX_INPUT_DELTA) so commands that arrive bunched up
+    // still move the full distance, but a client claiming long deltas cannot outrun the clock.
+    let elapsed = seconds_between(player.last_input_at, ctx.timestamp).max(0.0);
+    player.input_time_budget = (player.input_time_budget + elapsed).min(MAX_INPUT_DELTA);
+    player.last_input_at = ctx.timestamp;
+
+    // Dead players stay where they fell; acknowledge the tick so prediction does not stall
+    if player.is_dead {
+        player.input = input.clone();
+        player.last_input_seq = input.sequence;
+        return true;
+    }
+
+    // Each command covers the real time measured by the client's sampler, within the budget above
+    let delta_time = if input.delta_time.is_finite() {
+        input.delta_time.clamp(0.0, player.input_time_budget)
+    } else {
+        0.0
+    };
+    player.input_time_budget -= delta_time;
+
     // Calculate movement & animation based on RECEIVED input
-    let delta_time_estimate: f32 = 1.0 / 60.0; // Estimate client frame delta
     let new_position = calculate_new_position(
+        ctx,
         &player.position,
         &client_rot, // Use client rotation for direction calc
         &input,
-        delta_time_estimate
+        delta_time,
+        player.move_speed_multiplier,
     );
 
     // Update player state
     player.position = new_position;
     player.rotation = client_rot;
-    player.current_animation = client_animation;
+    // During a swing the server plays the combo step's animation (see combat_logic.rs)
+    if player.swing_started_at.is_none() {
+        player.current_animation = client_animation;
+    }
     player.input = input.clone(); // Store the input that caused this state
     player.last_input_seq = input.sequence;
     player.is_moving = input.forward || input.backward || input.left || input.right;
-    player.is_running = player.is_moving && input.sprint;
-    player.is_attacking = input.attack;
-    player.is_casting = input.cast_spell;
+    player.is_running = player.is_moving && input.sprint && !input.block;
+    // Only paladins carry a shield; blocking and swinging are exclusive, and a stun drops the shield
+    player.is_blocking = input.block && player.character_class == "Paladin" && player.swing_started_at.is_none() && !player.is_stunned;
+    // is_attacking is owned by combat_logic: it stays true for the whole swing
+    player.is_casting = input.ability_slot != 0;
+    true
 }
 
 // Update players logic (called from game_tick)
-pub fn update_players_logic(_ctx: &ReducerContext, _delta_time: f64) {
-    // In the simplified starter pack, we don't need to do anything in the game tick
-    // for players as they're updated directly through the update_player_input reducer
-    // This function is a placeholder for future expansion
+pub fn update_players_logic(ctx: &ReducerContext, delta_time: f64) {
+    let players: Vec<PlayerData> = ctx.db.player().iter().collect();
+    for mut player in players {
+        let mut burned = false;
+        let mut fell = false;
+        let changed = if player.is_dead {
+            try_respawn(&mut player, ctx)
+        } else {
+            burned = hazard(&mut player, ctx);
+            let regenerated = !burned && regenerate(&mut player, ctx);
+            fell = fall(&mut player, ctx, delta_time as f32);
+            burned || regenerated || fell
+        };
+        // Only players off the tiles land a fall, so standing in a deep pit is safe
+        let landed = fell && player.position.y <= map_logic::lowest_ground(ctx) + map_logic::SPAWN_HEIGHT - FALL_DEPTH;
+        if landed {
+            land_fall(ctx, player);
+        } else if burned {
+            // apply_damage writes the row
+            let identity = player.identity;
+            let position = player.position.clone();
+            combat_logic::apply_damage(ctx, identity, &position, player, HAZARD_DAMAGE, HAZARD);
+        } else if changed {
+            ctx.db.player().identity().update(player);
+        }
+    }
+    npc_logic::update_npcs(ctx, delta_time as f32);
+}
+
+// Death transition: stop every action and start the respawn countdown
+pub fn kill_player(player: &mut PlayerData, now: Timestamp) {
+    let respawn_micros = (RESPAWN_DELAY_SECS * 1_000_000.0) as i64;
+    player.health = 0;
+    player.is_dead = true;
+    player.respawn_at = Some(Timestamp::from_micros_since_unix_epoch(now.to_micros_since_unix_epoch() + respawn_micros));
+    player.current_animation = "death".to_string();
+    player.is_moving = false;
+    player.is_running = false;
+    player.is_attacking = false;
+    player.is_casting = false;
+    player.is_blocking = false;
+    player.swing_started_at = None;
+    player.swing_queued = false;
+    spacetimedb::log::info!("[DEATH] {} died, respawning in {}s", player.username, RESPAWN_DELAY_SECS);
+}
+
+// Bring a dead player back at a base once the countdown is over; returns true if the row changed
+fn try_respawn(player: &mut PlayerData, ctx: &ReducerContext) -> bool {
+    let Some(respawn_at) = player.respawn_at else { return false };
+    if !match_logic::respawns_allowed(ctx) {
+        return false;
+    }
+    if seconds_between(ctx.timestamp, respawn_at) > 0.0 {
+        return false;
+    }
+    respawn(player, ctx);
+    true
+}
+
+// Fresh start for a new round (called from match_logic): back to the base with
+// full health and mana, no swing in progress and an empty scoreboard line
+pub fn reset_for_round(player: &mut PlayerData, ctx: &ReducerContext) {
+    respawn(player, ctx);
+    player.is_moving = false;
+    player.is_running = false;
+    player.is_attacking = false;
+    player.is_casting = false;
+    player.is_blocking = false;
+    player.swing_started_at = None;
+    player.swing_resolved = false;
+    player.combo_step = 0;
+    player.last_swing_ended_at = None;
+    player.swing_queued = false;
+    player.stats = PlayerStats::default();
+}
+
+fn respawn(player: &mut PlayerData, ctx: &ReducerContext) {
+    player.position = map_logic::choose_spawn_point(ctx, player.identity, &player.team);
+    player.health = player.max_health;
+    player.mana = player.max_mana;
+    player.is_dead = false;
+    player.respawn_at = None;
+    player.fall_speed = 0.0;
+    player.current_animation = "idle".to_string();
+    player.last_regen_at = ctx.timestamp;
+    spacetimedb::log::info!("[RESPAWN] {} respawned at ({}, {})", player.username, player.position.x, player.position.z);
+}
+
+// With lethal edges, players off the tiles fall with gravity from the height they
+// stepped off at. Returns true if the row changed.
+fn fall(player: &mut PlayerData, ctx: &ReducerContext, delta_time: f32) -> bool {
+    if !map_logic::lethal_edges(ctx) || map_logic::is_walkable(ctx, player.position.x, player.position.z) {
+        return false;
+    }
+    player.fall_speed += FALL_GRAVITY * delta_time;
+    player.position.y -= player.fall_speed * delta_time;
+    true
+}
+
+// End of a fall: FALL_DAMAGE (credited to the victim, like the zone) and, if the
+// player survives, back to their base. A carried flag is lost and goes home.
+fn land_fall(ctx: &ReducerContext, player: PlayerData) {
+    spacetimedb::log::info!("[FALL] {} fell off the map", player.username);
+    flag_logic::return_carried_flag(ctx, &player);
+    let identity = player.identity;
+    let position = player.position.clone();
+    combat_logic::apply_damage(ctx, identity, &position, player, FALL_DAMAGE, FALL);
+
+    let Some(mut player) = ctx.db.player().identity().find(identity) else { return };
+    if !player.is_dead {
+        player.position = map_logic::choose_spawn_point(ctx, player.identity, &player.team);
+        player.fall_speed = 0.0;
+        ctx.db.player().identity().update(player);
+    }
+}
+
+// On a hazard tile the regeneration tick hurts instead; returns true if HAZARD_DAMAGE is due.
+// The caller applies it, credited to the victim like the zone.
+fn hazard(player: &mut PlayerData, ctx: &ReducerContext) -> bool {
+    if !map_logic::is_hazard(ctx, player.position.x, player.position.z)
+        || seconds_between(player.last_regen_at, ctx.timestamp) < REGEN_INTERVAL_SECS
+    {
+        return false;
+    }
+    player.last_regen_at = ctx.timestamp;
+    true
+}
+
+// Restore health and mana once per REGEN_INTERVAL_SECS; returns true if the row changed
+fn regenerate(player: &mut PlayerData, ctx: &ReducerContext) -> bool {
+    if seconds_between(player.last_regen_at, ctx.timestamp) < REGEN_INTERVAL_SECS {
+        return false;
+    }
+    player.last_regen_at = ctx.timestamp;
+
+    if player.health <= 0 {
+        return false; // Downed players do not recover on their own
+    }
+    let health = (player.health + HEALTH_REGEN_PER_INTERVAL).min(player.max_health);
+    let mana = (player.mana + MANA_REGEN_PER_INTERVAL).min(player.max_mana);
+    let changed = health != player.health || mana != player.mana;
+    player.health = health;
+    player.mana = mana;
+    changed
 }
@@ -0,0 +1,228 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - projectile_logic.rs
+ *
+ * This file contains the server-side simulation of spell projectiles.
+ * Projectiles are rows in the public projectile table, so every client sees
+ * the same bolts; clients only render and interpolate them.
+ *
+ * Key components:
+ *
+ * 1. Spell Profiles:
+ *    - SpellProfile: Speed, damage, hit radius, lifetime and on-hit status effect of one spell
+ *    - spell_profile: Looks up the profile for a spell type
+ *
+ * 2. Casting:
+ *    - spawn_projectile: Spawns a projectile in front of the caster along rotation.y
+ *    - Mana cost and cooldown belong to the ability that launches the spell
+ *      (see ability_logic.rs), so the same spell can back several abilities
+ *
+ * 3. Simulation:
+ *    - update_projectiles_logic: Called from game_tick; moves every projectile
+ *      by velocity * delta_time and deletes it on expiry, when it hits a player
+ *      or when it hits the terrain: it leaves the tiles, drops below the surface
+ *      of the tile under it (raised plateaus and cliffs stop it) or enters a wall
+ *    - Hits are tested against the segment travelled this tick, so fast bolts
+ *      cannot skip over a player between two ticks
+ *    - Projectiles carry the caster's team and fly through teammates
+ *    - Enemy creep minions stop projectiles too; they take the damage only
+ *      (npc_logic::damage_npc)
+ *    - Each hit goes through combat_logic::apply_damage ("spell_hit"); an unblocked
+ *      hit also applies the spell's on_hit effect (status_logic.rs)
+ *
+ * Related files:
+ *    - lib.rs: projectile table, game_tick
+ *    - common.rs: MAP_BOUNDS_RADIUS and seconds_between
+ *    - map_logic.rs: Tile surface heights and wall tiles
+ *    - ability_logic.rs: Projectile abilities call spawn_projectile
+ *    - combat_logic.rs: Melee counterpart and the shared apply_damage
+ */
+
+use spacetimedb::{ReducerContext, Table, Timestamp};
+use crate::common::{Vector3, MAP_BOUNDS_RADIUS, seconds_between};
+use crate::{PlayerData, Projectile, Npc, player, projectile};
+use crate::{combat_logic, status_logic, team_logic, npc_logic, map_logic};
+use crate::status_logic::StatusSpec;
+
+// Players are hit anywhere between their feet and this height
+const PLAYER_HIT_HEIGHT: f32 = 2.0;
+// Spawn point relative to the caster: in front of the chest
+const CAST_FORWARD_OFFSET: f32 = 1.0;
+const CAST_HEIGHT: f32 = 1.2;
+
+pub struct SpellProfile {
+    pub speed: f32,        // World units per second
+    pub damage: i32,
+    pub radius: f32,       // Hit radius around the projectile center
+    pub lifetime_secs: f32,
+    pub on_hit: Option<StatusSpec>, // Applied to the target of an unblocked hit
+}
+
+pub fn spell_profile(spell_type: &str) -> SpellProfile {
+    match spell_type {
+        "fireball" => SpellProfile {
+            speed: 18.0, damage: 15, radius: 0.8, lifetime_secs: 3.0,
+            on_hit: Some(StatusSpec { effect_type: status_logic::BURN, magnitude: 3.0, duration_secs: 3.0 }),
+        },
+        "frostbolt" => SpellProfile {
+            speed: 24.0, damage: 12, radius: 0.6, lifetime_secs: 2.5,
+            on_hit: Some(StatusSpec { effect_type: status_logic::SLOW, magnitude: 0.5, duration_secs: 3.0 }),
+        },
+        // Slow and heavy, with a generous hit radius
+        "arcane_orb" => SpellProfile {
+            speed: 10.0, damage: 35, radius: 1.2, lifetime_secs: 4.0,
+            on_hit: Some(StatusSpec { effect_type: status_logic::STUN, magnitude: 0.0, duration_secs: 1.0 }),
+        },
+        _ => SpellProfile { speed: 15.0, damage: 10, radius: 0.6, lifetime_secs: 2.0, on_hit: None },
+    }
+}
+
+// Spawn a projectile in front of the caster; the caller has already checked cooldown and mana
+pub fn spawn_projectile(ctx: &ReducerContext, caster: &PlayerData, spell_type: &str) {
+    let profile = spell_profile(spell_type);
+
+    // Forward for a yaw of 0 is -Z, matching calculate_new_position
+    let yaw = caster.rotation.y;
+    let direction_x = -yaw.sin();
+    let direction_z = -yaw.cos();
+
+    let lifetime_micros = (profile.lifetime_secs * 1_000_000.0) as i64;
+    ctx.db.projectile().insert(Projectile {
+        id: 0,
+        owner: caster.identity,
+        team: caster.team.clone(),
+        spell_type: spell_type.to_string(),
+        position: Vector3 {
+            x: caster.position.x + direction_x * CAST_FORWARD_OFFSET,
+            y: caster.position.y + CAST_HEIGHT,
+            z: caster.position.z + direction_z * CAST_FORWARD_OFFSET,
+        },
+        velocity: Vector3 { x: direction_x * profile.speed, y: 0.0, z: direction_z * profile.speed },
+        created_at: ctx.timestamp,
+        expires_at: Timestamp::from_micros_since_unix_epoch(ctx.timestamp.to_micros_since_unix_epoch() + lifetime_micros),
+    });
+}
+
+// Move projectiles, resolve hits and remove dead ones (called from game_tick)
+pub fn update_projectiles_logic(ctx: &ReducerContext, delta_time: f64) {
+    let delta_time = delta_time as f32;
+    let projectiles: Vec<Projectile> = ctx.db.projectile().iter().collect();
+
+    for mut projectile in projectiles {
+        if seconds_between(ctx.timestamp, projectile.expires_at) <= 0.0 {
+            ctx.db.projectile().id().delete(projectile.id);
+            continue;
+        }
+
+        let start = projectile.position.clone();
+        let end = Vector3 {
+            x: start.x + projectile.velocity.x * delta_time,
+            y: start.y + projectile.velocity.y * delta_time,
+            z: start.z + projectile.velocity.z * delta_time,
+        };
+
+        let hit_player = find_hit_target(ctx, &projectile, &start, &end);
+        let hit_npc = find_hit_npc(ctx, &projectile, &start, &end);
+        // A minion closer along the segment than the player shields them
+        if let Some((_, minion)) = hit_npc.filter(|(npc_along, _)| hit_player.as_ref().map_or(true, |(along, _)| npc_along < along)) {
+            let profile = spell_profile(&projectile.spell_type);
+            npc_logic::damage_npc(ctx, minion, profile.damage, &projectile.spell_type);
+            ctx.db.projectile().id().delete(projectile.id);
+            continue;
+        }
+        if let Some((_, target)) = hit_player {
+            let profile = spell_profile(&projectile.spell_type);
+            let target_identity = target.identity;
+            let landed = combat_logic::apply_damage(ctx, projectile.owner, &start, target, profile.damage, "spell_hit");
+            if landed {
+                if let Some(status) = &profile.on_hit {
+                    status_logic::apply_status(ctx, target_identity, projectile.owner, status);
+                }
+            }
+            ctx.db.projectile().id().delete(projectile.id);
+            continue;
+        }
+
+        let out_of_bounds = (end.x * end.x + end.z * end.z).sqrt() > MAP_BOUNDS_RADIUS;
+        if out_of_bounds || hits_terrain(ctx, &end) {
+            ctx.db.projectile().id().delete(projectile.id);
+            continue;
+        }
+
+        projectile.position = end;
+        ctx.db.projectile().id().update(projectile);
+    }
+}
+
+// Whether a projectile at `position` has left the tiles, dropped below the tile surface
+// under it or flown into a wall tile
+fn hits_terrain(ctx: &ReducerContext, position: &Vector3) -> bool {
+    let Some(ground) = map_logic::ground_height(ctx, position.x, position.z) else { return true };
+    if position.y < ground {
+        return true;
+    }
+    let (q, r) = map_logic::world_to_hex(position.x, position.z);
+    map_logic::tile_at(ctx, q, r).map_or(true, |tile| tile.tile_type == map_logic::TILE_WALL)
+}
+
+// Closest living enemy of the owner's team touched by the segment start -> end, with how far along
+// the segment it is; teammates are passed through
+fn find_hit_target(ctx: &ReducerContext, projectile: &Projectile, start: &Vector3, end: &Vector3) -> Option<(f32, PlayerData)> {
+    let profile = spell_profile(&projectile.spell_type);
+    let mut closest: Option<(f32, PlayerData)> = None;
+
+    for target in ctx.db.player().iter() {
+        if target.identity == projectile.owner || target.is_dead || !team_logic::is_enemy(&projectile.team, &target) {
+            continue;
+        }
+        // Vertical check: the bolt must pass between the target's feet and head
+        if end.y < target.position.y - profile.radius || end.y > target.position.y + PLAYER_HIT_HEIGHT + profile.radius {
+            continue;
+        }
+        let (distance, along) = distance_to_segment_xz(start, end, &target.position);
+        if distance > profile.radius {
+            continue;
+        }
+        if closest.as_ref().map_or(true, |(best, _)| along < *best) {
+            closest = Some((along, target));
+        }
+    }
+
+    closest
+}
+
+// Same test as find_hit_target against enemy creep minions
+fn find_hit_npc(ctx: &ReducerContext, projectile: &Projectile, start: &Vector3, end: &Vector3) -> Option<(f32, Npc)> {
+    let profile = spell_profile(&projectile.spell_type);
+    let mut closest: Option<(f32, Npc)> = None;
+
+    for target in npc_logic::living_enemy_npcs(ctx, &projectile.team, |_| true) {
+        if end.y < target.position.y - profile.radius || end.y > target.position.y + PLAYER_HIT_HEIGHT + profile.radius {
+            continue;
+        }
+        let (distance, along) = distance_to_segment_xz(start, end, &target.position);
+        if distance > profile.radius {
+            continue;
+        }
+        if closest.as_ref().map_or(true, |(best, _)| along < *best) {
+            closest = Some((along, target));
+        }
+    }
+
+    closest
+}
+
+// Horizontal distance from `point` to the segment, and how far along the segment (0..1) it is closest
+fn distance_to_segment_xz(start: &Vector3, end: &Vector3, point: &Vector3) -> (f32, f32) {
+    let segment_x = end.x - start.x;
+    let segment_z = end.z - start.z;
+    let length_squared = segment_x * segment_x + segment_z * segment_z;
+    let t = if length_squared > 0.0 {
+        (((point.x - start.x) * segment_x + (point.z - start.z) * segment_z) / length_squared).clamp(0.0, 1.0)
+    } else {
+        0.0
+    };
+    let closest_x = start.x + segment_x * t;
+    let closest_z = start.z + segment_z * t;
+    let distance = ((point.x - closest_x).powi(2) + (point.z - closest_z).powi(2)).sqrt();
+    (distance, t)
+}
@@ -0,0 +1,183 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - stats_logic.rs
+ *
+ * This file contains the scoreboard bookkeeping: kills, deaths, assists,
+ * damage dealt and healing done per player, plus the kill feed.
+ *
+ * Key components:
+ *
+ * 1. Stats:
+ *    - PlayerStats (common.rs) lives on PlayerData and LoggedOutPlayerData, so
+ *      a reconnecting player keeps their scoreboard line
+ *    - Stats count per round: match_logic.rs resets them when a countdown starts
+ *    - record_damage / record_heal: Called by combat_logic for every hit and heal
+ *    - record_kill: Called by combat_logic when a hit kills; credits the killer,
+ *      the assisting players and the victim's death
+ *    - Score is KILL_POINTS per kill, ASSIST_POINTS per assist and one point
+ *      per POINTS_PER_DAMAGE damage dealt or healing done
+ *
+ * 2. Assists:
+ *    - Every hit on another player upserts a private damage_contribution row
+ *    - On a kill, every other player that damaged the victim within
+ *      ASSIST_WINDOW_SECS earns an assist; the victim's rows are then cleared
+ *
+ * 3. Kill Feed:
+ *    - One public kill_feed row per kill, carrying both names so the feed can
+ *      still show a player that has left
+ *    - update_kill_feed: Called from game_tick; deletes rows after KILL_FEED_LIFETIME_SECS
+ *
+ * When modifying:
+ *    - Stats credited to another player are written to that player's stored row.
+ *      Code that holds a copy of the attacker while it deals damage must call
+ *      reload_stats before writing the copy back, or the new stats are lost
+ *
+ * Related files:
+ *    - common.rs: PlayerStats
+ *    - lib.rs: kill_feed and damage_contribution tables, logout/rejoin copies
+ *    - combat_logic.rs: apply_damage and apply_heal report here
+ */
+
+use spacetimedb::{ReducerContext, Identity, Table};
+use crate::common::{PlayerStats, seconds_between};
+use crate::{PlayerData, LoggedOutPlayerData, DamageContribution, KillFeedEntry, player, logged_out_player, damage_contribution, kill_feed};
+
+pub const ASSIST_WINDOW_SECS: f32 = 10.0;
+pub const KILL_FEED_LIFETIME_SECS: f32 = 8.0;
+pub const KILL_POINTS: u32 = 100;
+pub const ASSIST_POINTS: u32 = 50;
+pub const POINTS_PER_DAMAGE: u32 = 10;
+
+pub fn refresh_score(stats: &mut PlayerStats) {
+    stats.score = stats.kills * KILL_POINTS
+        + stats.assists * ASSIST_POINTS
+        + (stats.damage_dealt + stats.healing_done) / POINTS_PER_DAMAGE;
+}
+
+// Credit damage to the attacker and remember it for assists. Self-inflicted damage counts for nothing.
+pub fn record_damage(ctx: &ReducerContext, attacker: Identity, target: &PlayerData, amount: i32) {
+    if attacker == target.identity || amount <= 0 {
+        return;
+    }
+    credit(ctx, attacker, |stats| stats.damage_dealt += amount as u32);
+
+    let existing = ctx.db.damage_contribution().target().filter(&target.identity)
+        .find(|contribution| contribution.attacker == attacker);
+    match existing {
+        Some(mut contribution) => {
+            contribution.last_damage_at = ctx.timestamp;
+            ctx.db.damage_contribution().id().update(contribution);
+        }
+        None => {
+            ctx.db.damage_contribution().insert(DamageContribution {
+                id: 0,
+                target: target.identity,
+                attacker,
+                last_damage_at: ctx.timestamp,
+            });
+        }
+    }
+}
+
+// Credit healing to the healer. Self heals go straight onto the target copy the caller writes.
+pub fn record_heal(ctx: &ReducerContext, source: Identity, target: &mut PlayerData, amount: i32) {
+    if amount <= 0 {
+        return;
+    }
+    if source == target.identity {
+        target.stats.healing_done += amount as u32;
+        refresh_score(&mut target.stats);
+    } else {
+        credit(ctx, source, |stats| stats.healing_done += amount as u32);
+    }
+}
+
+// Count the victim's death, credit the killer and assists and post to the kill feed.
+// The caller writes the victim row.
+pub fn record_kill(ctx: &ReducerContext, killer: Identity, victim: &mut PlayerData, kind: &str) {
+    victim.stats.deaths += 1;
+    refresh_score(&mut victim.stats);
+    if killer != victim.identity {
+        credit(ctx, killer, |stats| stats.kills += 1);
+    }
+
+    let contributions: Vec<DamageContribution> = ctx.db.damage_contribution().target().filter(&victim.identity).collect();
+    for contribution in contributions {
+        let recent = seconds_between(contribution.last_damage_at, ctx.timestamp) <= ASSIST_WINDOW_SECS;
+        if recent && contribution.attacker != killer {
+            credit(ctx, contribution.attacker, |stats| stats.assists += 1);
+        }
+        ctx.db.damage_contribution().id().delete(contribution.id);
+    }
+
+    let killer_name = username_of(ctx, killer);
+    spacetimedb::log::info!("[KILL] {} killed {} ({})", killer_name, victim.username, kind);
+    ctx.db.kill_feed().insert(KillFeedEntry {
+        id: 0,
+        killer,
+        killer_name,
+        victim: victim.identity,
+        victim_name: victim.username.clone(),
+        kind: kind.to_string(),
+        created_at: ctx.timestamp,
+    });
+}
+
+// Pick up stats credited to the stored row while the caller held a copy of it
+pub fn reload_stats(ctx: &ReducerContext, player: &mut PlayerData) {
+    if let Some(stored) = ctx.db.player().identity().find(player.identity) {
+        player.stats = stored.stats;
+    }
+}
+
+// Drop assist bookkeeping about a player that logged out
+pub fn forget_player(ctx: &ReducerContext, identity: Identity) {
+    let ids: Vec<u64> = ctx.db.damage_contribution().target().filter(&identity)
+        .map(|contribution| contribution.id)
+        .collect();
+    for id in ids {
+        ctx.db.damage_contribution().id().delete(id);
+    }
+}
+
+// New round (called from match_logic): forget assists and clear the stats of
+// players that are offline, so they do not bring an old line back when they rejoin.
+// Active players are reset by player_logic::reset_for_round.
+pub fn reset_for_round(ctx: &ReducerContext) {
+    let contribution_ids: Vec<u64> = ctx.db.damage_contribution().iter().map(|contribution| contribution.id).collect();
+    for id in contribution_ids {
+        ctx.db.damage_contribution().id().delete(id);
+    }
+    let logged_out: Vec<LoggedOutPlayerData> = ctx.db.logged_out_player().iter().collect();
+    for mut player in logged_out {
+        player.stats = PlayerStats::default();
+        ctx.db.logged_out_player().identity().update(player);
+    }
+}
+
+// Remove old kill feed rows (called from game_tick)
+pub fn update_kill_feed(ctx: &ReducerContext) {
+    let expired: Vec<u64> = ctx.db.kill_feed().iter()
+        .filter(|entry| seconds_between(entry.created_at, ctx.timestamp) > KILL_FEED_LIFETIME_SECS)
+        .map(|entry| entry.id)
+        .collect();
+    for id in expired {
+        ctx.db.kill_feed().id().delete(id);
+    }
+}
+
+// Update an active player's stats on their stored row; players that have left are skipped
+fn credit(ctx: &ReducerContext, identity: Identity, change: impl FnOnce(&mut PlayerStats)) {
+    let Some(mut player) = ctx.db.player().identity().find(identity) else { return };
+    change(&mut player.stats);
+    refresh_score(&mut player.stats);
+    ctx.db.player().identity().update(player);
+}
+
+fn username_of(ctx: &ReducerContext, identity: Identity) -> String {
+    if let Some(player) = ctx.db.player().identity().find(identity) {
+        return player.username;
+    }
+    ctx.db.logged_out_player().identity().find(identity)
+        .map(|player| player.username)
+        .unwrap_or_else(|| "Unknown".to_string())
+}
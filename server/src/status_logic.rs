@@ -0,0 +1,178 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - status_logic.rs
+ *
+ * This file contains the status effect subsystem. Effects are rows in the
+ * public status_effect table, keyed by target, so every client can show them;
+ * the server alone applies, ticks and expires them.
+ *
+ * Key components:
+ *
+ * 1. Effect Types:
+ *    - stun: No movement, no attacks or abilities, no blocking
+ *    - root: No movement; attacks and abilities still work
+ *    - slow: Movement speed reduced by `magnitude` (0.0 - 1.0)
+ *    - burn: `magnitude` damage every DOT_TICK_SECS, credited to the source
+ *    - shield: Absorbs up to `magnitude` damage before health is touched
+ *    - StatusSpec: Type, magnitude and duration, attached to abilities and spells
+ *
+ * 2. Applying:
+ *    - apply_status: Adds an effect to a living target; a new effect of the same
+ *      type replaces the old one instead of stacking
+ *    - absorb_damage: Called by combat_logic::apply_damage to drain shields
+ *
+ * 3. Game Tick:
+ *    - update_status_effects: Expires effects, ticks damage over time, drops
+ *      effects of dead or disconnected targets and refreshes the movement
+ *      modifiers cached on PlayerData (move_speed_multiplier, is_stunned)
+ *    - The cached modifiers let update_input_state apply slows and roots without
+ *      querying the table, and they replicate to the client for prediction
+ *
+ * Related files:
+ *    - lib.rs: status_effect table, PlayerData modifiers, game_tick
+ *    - player_logic.rs: calculate_new_position applies move_speed_multiplier
+ *    - combat_logic.rs: apply_damage drains shields through absorb_damage
+ *    - ability_logic.rs: Stunned players cannot use abilities; abilities that apply effects
+ *    - projectile_logic.rs: Spells that apply effects on hit
+ *    - flag_logic.rs: Flag carriers share the movement modifiers
+ */
+
+use spacetimedb::{ReducerContext, Identity, Table, Timestamp};
+use crate::common::seconds_between;
+use crate::{PlayerData, StatusEffect, player, status_effect};
+use crate::{combat_logic, match_logic, flag_logic};
+
+pub const STUN: &str = "stun";
+pub const ROOT: &str = "root";
+pub const SLOW: &str = "slow";
+pub const BURN: &str = "burn";
+pub const SHIELD: &str = "shield";
+
+// Interval between two damage-over-time ticks
+pub const DOT_TICK_SECS: f32 = 1.0;
+
+pub struct StatusSpec {
+    pub effect_type: &'static str,
+    pub magnitude: f32,
+    pub duration_secs: f32,
+}
+
+// Add an effect to `target`; ignored when the target is dead or no longer active
+pub fn apply_status(ctx: &ReducerContext, target: Identity, source: Identity, spec: &StatusSpec) {
+    let Some(target_player) = ctx.db.player().identity().find(target) else { return };
+    if target_player.is_dead {
+        return;
+    }
+
+    let replaced: Vec<u64> = ctx.db.status_effect().target().filter(&target)
+        .filter(|effect| effect.effect_type == spec.effect_type)
+        .map(|effect| effect.id)
+        .collect();
+    for id in replaced {
+        ctx.db.status_effect().id().delete(id);
+    }
+
+    let duration_micros = (spec.duration_secs * 1_000_000.0) as i64;
+    ctx.db.status_effect().insert(StatusEffect {
+        id: 0,
+        target,
+        effect_type: spec.effect_type.to_string(),
+        magnitude: spec.magnitude,
+        source,
+        applied_at: ctx.timestamp,
+        expires_at: Timestamp::from_micros_since_unix_epoch(ctx.timestamp.to_micros_since_unix_epoch() + duration_micros),
+        last_tick_at: ctx.timestamp,
+    });
+    spacetimedb::log::info!("[STATUS] {} applied {} ({}) to {} for {}s", source, spec.effect_type, spec.magnitude, target_player.username, spec.duration_secs);
+}
+
+// Drain the target's shields; returns the damage that gets through
+pub fn absorb_damage(ctx: &ReducerContext, target: Identity, damage: i32) -> i32 {
+    let mut remaining = damage as f32;
+    let shields: Vec<StatusEffect> = ctx.db.status_effect().target().filter(&target)
+        .filter(|effect| effect.effect_type == SHIELD)
+        .collect();
+    for mut shield in shields {
+        if remaining <= 0.0 {
+            break;
+        }
+        let absorbed = remaining.min(shield.magnitude);
+        remaining -= absorbed;
+        shield.magnitude -= absorbed;
+        if shield.magnitude <= 0.0 {
+            ctx.db.status_effect().id().delete(shield.id);
+        } else {
+            ctx.db.status_effect().id().update(shield);
+        }
+    }
+    remaining.round() as i32
+}
+
+// Expire and tick effects, then refresh every player's cached modifiers (called from game_tick)
+pub fn update_status_effects(ctx: &ReducerContext) {
+    let now = ctx.timestamp;
+    let effect_ids: Vec<u64> = ctx.db.status_effect().iter().map(|effect| effect.id).collect();
+
+    for effect_id in effect_ids {
+        // Re-read the row: a burn tick earlier in this loop may have drained a shield
+        let Some(mut effect) = ctx.db.status_effect().id().find(effect_id) else { continue };
+        let target = ctx.db.player().identity().find(effect.target);
+        let Some(target) = target.filter(|target| !target.is_dead) else {
+            ctx.db.status_effect().id().delete(effect.id);
+            continue;
+        };
+        let expired = seconds_between(now, effect.expires_at) <= 0.0;
+
+        // Tick before expiring, so a 3s burn deals its third tick at the 3s mark
+        if effect.effect_type == BURN && seconds_between(effect.last_tick_at, now) >= DOT_TICK_SECS {
+            effect.last_tick_at = now;
+            let source = effect.source;
+            let damage = effect.magnitude.round() as i32;
+            if !expired {
+                ctx.db.status_effect().id().update(effect);
+            }
+            let position = target.position.clone();
+            combat_logic::apply_damage(ctx, source, &position, target, damage, BURN);
+        }
+
+        if expired {
+            ctx.db.status_effect().id().delete(effect_id);
+        }
+    }
+
+    let players: Vec<PlayerData> = ctx.db.player().iter().collect();
+    for mut player in players {
+        let (move_speed_multiplier, is_stunned) = movement_modifiers(ctx, player.identity);
+        if player.move_speed_multiplier != move_speed_multiplier || player.is_stunned != is_stunned {
+            player.move_speed_multiplier = move_speed_multiplier;
+            player.is_stunned = is_stunned;
+            if is_stunned {
+                // A stun drops the shield
+                player.is_blocking = false;
+            }
+            ctx.db.player().identity().update(player);
+        }
+    }
+}
+
+// Speed multiplier and stun flag from the target's current effects; the strongest slow wins.
+// Nobody moves during the match countdown (see match_logic.rs); flag carriers are slowed
+// while a capture the flag round runs (see flag_logic.rs).
+fn movement_modifiers(ctx: &ReducerContext, target: Identity) -> (f32, bool) {
+    let mut multiplier: f32 = if match_logic::is_input_frozen(ctx) { 0.0 } else { 1.0 };
+    if match_logic::is_round_running(ctx, match_logic::CAPTURE_THE_FLAG) && flag_logic::is_carrying_flag(ctx, target) {
+        multiplier = multiplier.min(flag_logic::FLAG_CARRIER_SPEED_MULTIPLIER);
+    }
+    let mut stunned = false;
+    for effect in ctx.db.status_effect().target().filter(&target) {
+        match effect.effect_type.as_str() {
+            STUN => {
+                stunned = true;
+                multiplier = 0.0;
+            }
+            ROOT => multiplier = 0.0,
+            SLOW => multiplier = multiplier.min(1.0 - effect.magnitude.clamp(0.0, 1.0)),
+            _ => {}
+        }
+    }
+    (multiplier, stunned)
+}
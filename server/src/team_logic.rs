@@ -0,0 +1,78 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - team_logic.rs
+ *
+ * This file contains team assignment. There is one team per hex base, in the
+ * same order as map_logic::base_center and HexGrid's baseColors.
+ *
+ * Key components:
+ *
+ * 1. Teams:
+ *    - TEAMS: Team id and nametag color per base
+ *    - team_base_index / team_color: Lookups by team id
+ *
+ * 2. Balancing:
+ *    - assign_team: Honors the team chosen in the join dialog unless joining
+ *      would leave it more than MAX_TEAM_IMBALANCE players larger than the
+ *      smallest team; an empty or unknown choice ("auto") joins the smallest team
+ *
+ * 3. Friendly Fire:
+ *    - is_enemy: Melee, abilities and projectiles only pick targets of another team
+ *
+ * When modifying:
+ *    - Keep TEAMS in sync with TEAMS in client/src/game/teams.ts
+ *
+ * Related files:
+ *    - lib.rs: register_player assigns the team
+ *    - map_logic.rs: Spawn points inside the team's base
+ *    - combat_logic.rs, ability_logic.rs, projectile_logic.rs: Target filters
+ */
+
+use spacetimedb::ReducerContext;
+use crate::{PlayerData, player};
+
+pub struct TeamDef {
+    pub id: &'static str,
+    pub color: &'static str, // CSS color used for PlayerData.color
+}
+
+// Index = base index in map_logic::base_center
+pub const TEAMS: [TeamDef; 3] = [
+    TeamDef { id: "red", color: "#ff4d4d" },
+    TeamDef { id: "green", color: "#4dd65c" },
+    TeamDef { id: "blue", color: "#4d8dff" },
+];
+
+// Largest head count difference a chosen team may reach over the smallest team
+pub const MAX_TEAM_IMBALANCE: usize = 1;
+
+pub fn team_base_index(team: &str) -> Option<usize> {
+    TEAMS.iter().position(|def| def.id == team)
+}
+
+pub fn team_color(team: &str) -> &'static str {
+    team_base_index(team).map_or("white", |index| TEAMS[index].color)
+}
+
+pub fn is_enemy(attacker_team: &str, target: &PlayerData) -> bool {
+    target.team != attacker_team
+}
+
+// Pick the team for a joining player. Called before the player row is inserted,
+// so the counts do not include them.
+pub fn assign_team(ctx: &ReducerContext, requested: &str) -> String {
+    let mut counts = [0usize; TEAMS.len()];
+    for other in ctx.db.player().iter() {
+        if let Some(index) = team_base_index(&other.team) {
+            counts[index] += 1;
+        }
+    }
+    let smallest = (0..TEAMS.len()).min_by_key(|&index| counts[index]).unwrap_or(0);
+
+    if let Some(index) = team_base_index(requested) {
+        if counts[index] < counts[smallest] + MAX_TEAM_IMBALANCE {
+            return TEAMS[index].id.to_string();
+        }
+        spacetimedb::log::info!("[TEAM] {} is full ({} players), balancing to {}", requested, counts[index], TEAMS[smallest].id);
+    }
+    TEAMS[smallest].id.to_string()
+}
@@ -0,0 +1,233 @@
+/**
+ * Vibe Coding Starter Pack: 3D Multiplayer - zone_logic.rs
+ *
+ * This file contains the battle royale safe zone. The zone is every hex within
+ * a radius (in hex steps) of a center hex; it starts around the whole map and
+ * closes in stages while game_tick damages everyone caught outside.
+ *
+ * Key components:
+ *
+ * 1. Schedule:
+ *    - zone_state.schedule: One ZoneStage per shrink. Each stage holds the
+ *      current radius for wait_secs, then shrinks to its radius over shrink_secs;
+ *      its damage_per_tick applies from the start of the stage
+ *    - set_zone_schedule (lib.rs reducer): Replaces the schedule between rounds;
+ *      radii must strictly decrease; admins only
+ *    - default_schedule: Closes the radius-20 map over about five minutes
+ *
+ * 2. Zone State:
+ *    - reset_for_round: New center within ZONE_CENTER_SPREAD of the map center,
+ *      radius large enough to cover the whole map, held during the countdown
+ *    - start_zone: Begins stage 0 when the round starts (called from match_logic)
+ *    - current_radius: The radius at a given time, interpolated during a shrink.
+ *      zone_state only changes at stage boundaries (and on damage ticks), so
+ *      clients compute the same interpolation locally
+ *
+ * 3. Game Tick:
+ *    - update_zone_logic: Advances stages and, every ZONE_DAMAGE_INTERVAL_SECS,
+ *      damages living players whose hex lies outside the zone; only runs
+ *      during a battle royale round
+ *    - Dead players do not respawn until the round is over (player_logic)
+ *    - surviving_players: Living players per team; the round ends once at most
+ *      one team is left (match_logic)
+ *
+ * Related files:
+ *    - lib.rs: zone_state table, set_zone_schedule reducer, game_tick
+ *    - common.rs: ZoneStage
+ *    - map_logic.rs: world_to_hex and hex_distance
+ *    - match_logic.rs: Game mode, round start and the winning team
+ *    - combat_logic.rs: Zone damage skips crits and blocking like burns
+ *    - client/src/components/HexGrid.tsx: Darkens the hexes outside the zone
+ */
+
+use spacetimedb::{ReducerContext, Table, Timestamp};
+use crate::common::{ZoneStage, seconds_between, fnv_hash};
+use crate::{ZoneState, PlayerData, zone_state, player};
+use crate::{admin_logic, combat_logic, map_logic, match_logic, team_logic};
+
+pub const ZONE_STATE_ID: u32 = 0;
+// Combat event kind of zone damage
+pub const ZONE_DAMAGE: &str = "zone";
+pub const ZONE_DAMAGE_INTERVAL_SECS: f32 = 1.0;
+// The zone center is picked among the hexes within this distance of the map center
+pub const ZONE_CENTER_SPREAD: i32 = 6;
+pub const MAX_ZONE_STAGES: usize = 10;
+pub const MAX_STAGE_SECS: f32 = 600.0;
+pub const MAX_ZONE_DAMAGE: u32 = 100;
+
+pub fn default_schedule() -> Vec<ZoneStage> {
+    vec![
+        ZoneStage { radius: 14, wait_secs: 60.0, shrink_secs: 30.0, damage_per_tick: 2 },
+        ZoneStage { radius: 9, wait_secs: 45.0, shrink_secs: 25.0, damage_per_tick: 4 },
+        ZoneStage { radius: 5, wait_secs: 40.0, shrink_secs: 20.0, damage_per_tick: 6 },
+        ZoneStage { radius: 2, wait_secs: 30.0, shrink_secs: 15.0, damage_per_tick: 8 },
+        ZoneStage { radius: 0, wait_secs: 30.0, shrink_secs: 15.0, damage_per_tick: 10 },
+    ]
+}
+
+fn ensure_zone_state(ctx: &ReducerContext) -> ZoneState {
+    if let Some(state) = ctx.db.zone_state().id().find(ZONE_STATE_ID) {
+        return state;
+    }
+    ctx.db.zone_state().insert(ZoneState {
+        id: ZONE_STATE_ID,
+        center_q: 0,
+        center_r: 0,
+        stage: 0,
+        start_radius: map_logic::MAP_GRID_RADIUS as f32,
+        end_radius: map_logic::MAP_GRID_RADIUS as f32,
+        shrink_starts_at: None,
+        shrink_ends_at: None,
+        damage_per_tick: 0,
+        last_damage_at: ctx.timestamp,
+        schedule: default_schedule(),
+    })
+}
+
+fn offset(now: Timestamp, secs: f32) -> Timestamp {
+    Timestamp::from_micros_since_unix_epoch(now.to_micros_since_unix_epoch() + (secs * 1_000_000.0) as i64)
+}
+
+// Radius in hex steps at `now`; a hex is safe while its distance to the center is at most this
+pub fn current_radius(state: &ZoneState, now: Timestamp) -> f32 {
+    let (Some(starts_at), Some(ends_at)) = (state.shrink_starts_at, state.shrink_ends_at) else {
+        return state.start_radius;
+    };
+    let duration = seconds_between(starts_at, ends_at);
+    let progress = if duration <= 0.0 { 1.0 } else { (seconds_between(starts_at, now) / duration).clamp(0.0, 1.0) };
+    state.start_radius + (state.end_radius - state.start_radius) * progress
+}
+
+pub fn is_outside_zone(state: &ZoneState, player: &PlayerData, now: Timestamp) -> bool {
+    let (q, r) = map_logic::world_to_hex(player.position.x, player.position.z);
+    map_logic::hex_distance(q, r, state.center_q, state.center_r) as f32 > current_radius(state, now)
+}
+
+// Set up stage `state.stage` starting now, or hold the final radius once the schedule is done
+fn begin_stage(state: &mut ZoneState, now: Timestamp) {
+    match state.schedule.get(state.stage as usize) {
+        Some(stage) => {
+            let shrink_starts_at = offset(now, stage.wait_secs);
+            state.end_radius = stage.radius as f32;
+            state.damage_per_tick = stage.damage_per_tick;
+            state.shrink_starts_at = Some(shrink_starts_at);
+            state.shrink_ends_at = Some(offset(shrink_starts_at, stage.shrink_secs));
+        }
+        None => {
+            state.end_radius = state.start_radius;
+            state.shrink_starts_at = None;
+            state.shrink_ends_at = None;
+        }
+    }
+}
+
+// New center and a zone covering the whole map for the countdown (called from match_logic)
+pub fn reset_for_round(ctx: &ReducerContext, round: u32) {
+    let mut state = ensure_zone_state(ctx);
+    let candidates = map_logic::hexes_in_radius(ZONE_CENTER_SPREAD);
+    let micros = ctx.timestamp.to_micros_since_unix_epoch().to_le_bytes();
+    let roll = fnv_hash(&[&round.to_le_bytes()[..], &micros[..]]) as usize % candidates.len();
+    let (center_q, center_r) = candidates[roll];
+
+    state.center_q = center_q;
+    state.center_r = center_r;
+    state.stage = 0;
+    // Far enough that the opposite corner of the map starts inside
+    state.start_radius = (map_logic::MAP_GRID_RADIUS + map_logic::hex_distance(center_q, center_r, 0, 0)) as f32;
+    state.end_radius = state.start_radius;
+    state.shrink_starts_at = None;
+    state.shrink_ends_at = None;
+    state.damage_per_tick = 0;
+    state.last_damage_at = ctx.timestamp;
+    ctx.db.zone_state().id().update(state);
+}
+
+// Start the first stage when the round begins (called from match_logic)
+pub fn start_zone(ctx: &ReducerContext) {
+    let mut state = ensure_zone_state(ctx);
+    state.stage = 0;
+    state.last_damage_at = ctx.timestamp;
+    begin_stage(&mut state, ctx.timestamp);
+    spacetimedb::log::info!("[ZONE] Zone centered on ({}, {}), {} stages", state.center_q, state.center_r, state.schedule.len());
+    ctx.db.zone_state().id().update(state);
+}
+
+pub fn set_zone_schedule(ctx: &ReducerContext, schedule: Vec<ZoneStage>) -> Result<(), String> {
+    admin_logic::require_admin(ctx, "change the zone schedule")?;
+    if schedule.is_empty() || schedule.len() > MAX_ZONE_STAGES {
+        return Err(format!("The zone schedule needs 1 to {} stages", MAX_ZONE_STAGES));
+    }
+    let mut previous_radius = u32::MAX;
+    for (index, stage) in schedule.iter().enumerate() {
+        if stage.radius >= previous_radius {
+            return Err(format!("Stage {} must shrink the zone (radius {} after {})", index + 1, stage.radius, previous_radius));
+        }
+        let valid_secs = |secs: f32| secs.is_finite() && (0.0..=MAX_STAGE_SECS).contains(&secs);
+        if !valid_secs(stage.wait_secs) || !valid_secs(stage.shrink_secs) {
+            return Err(format!("Stage {} durations must be between 0 and {} seconds", index + 1, MAX_STAGE_SECS));
+        }
+        if stage.damage_per_tick > MAX_ZONE_DAMAGE {
+            return Err(format!("Stage {} damage must be at most {}", index + 1, MAX_ZONE_DAMAGE));
+        }
+        previous_radius = stage.radius;
+    }
+    if !match_logic::is_between_rounds(ctx) {
+        return Err("The zone schedule can only change between rounds".to_string());
+    }
+    let mut state = ensure_zone_state(ctx);
+    spacetimedb::log::info!("[ZONE] {} set a {}-stage zone schedule", ctx.sender, schedule.len());
+    state.schedule = schedule;
+    ctx.db.zone_state().id().update(state);
+    Ok(())
+}
+
+// Living players per team, in TEAMS order
+pub fn surviving_players(ctx: &ReducerContext) -> [u32; team_logic::TEAMS.len()] {
+    let mut counts = [0u32; team_logic::TEAMS.len()];
+    for player in ctx.db.player().iter().filter(|player| !player.is_dead) {
+        if let Some(index) = team_logic::team_base_index(&player.team) {
+            counts[index] += 1;
+        }
+    }
+    counts
+}
+
+// Advance the stages and damage players outside the zone (called from game_tick; only runs during a battle royale round)
+pub fn update_zone_logic(ctx: &ReducerContext) {
+    if !match_logic::is_round_running(ctx, match_logic::BATTLE_ROYALE) {
+        return;
+    }
+    let now = ctx.timestamp;
+    let mut state = ensure_zone_state(ctx);
+    let mut changed = false;
+
+    if state.shrink_ends_at.is_some_and(|ends_at| seconds_between(now, ends_at) <= 0.0) {
+        state.start_radius = state.end_radius;
+        state.stage += 1;
+        begin_stage(&mut state, now);
+        spacetimedb::log::info!("[ZONE] Stage {} begins at radius {}", state.stage + 1, state.start_radius);
+        changed = true;
+    }
+
+    let mut victims: Vec<PlayerData> = Vec::new();
+    if seconds_between(state.last_damage_at, now) >= ZONE_DAMAGE_INTERVAL_SECS {
+        state.last_damage_at = now;
+        changed = true;
+        if state.damage_per_tick > 0 {
+            victims = ctx.db.player().iter()
+                .filter(|player| !player.is_dead && is_outside_zone(&state, player, now))
+                .collect();
+        }
+    }
+
+    let damage = state.damage_per_tick as i32;
+    if changed {
+        ctx.db.zone_state().id().update(state);
+    }
+    for victim in victims {
+        // The zone has no attacker: credit the victim, which stats_logic skips
+        let identity = victim.identity;
+        let position = victim.position.clone();
+        combat_logic::apply_damage(ctx, identity, &position, victim, damage, ZONE_DAMAGE);
+    }
+}